@@ -5,6 +5,11 @@ CREATE TABLE IF NOT EXISTS newsletters (
     url VARCHAR(512) NOT NULL,
     sender_email VARCHAR(255) NOT NULL UNIQUE,
     extraction_pattern TEXT,
+    color INTEGER,
+    use_archive_link BOOLEAN DEFAULT FALSE,
+    description TEXT,
+    category VARCHAR(64),
+    icon_url VARCHAR(1024),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
@@ -18,6 +23,11 @@ CREATE TABLE IF NOT EXISTS issues (
     content TEXT,
     message_id VARCHAR(255),
     processed BOOLEAN DEFAULT FALSE,
+    summary TEXT,
+    image_url VARCHAR(1024),
+    sender_name VARCHAR(255),
+    extractor VARCHAR(64),
+    extraction_confidence REAL,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
@@ -28,9 +38,19 @@ CREATE TABLE IF NOT EXISTS guild_subscriptions (
     channel_id VARCHAR(36) NOT NULL,
     newsletter_id VARCHAR(36) NOT NULL REFERENCES newsletters(id),
     active BOOLEAN DEFAULT TRUE,
+    include_keywords TEXT[] NOT NULL DEFAULT '{}',
+    exclude_keywords TEXT[] NOT NULL DEFAULT '{}',
+    create_thread BOOLEAN NOT NULL DEFAULT FALSE,
+    crosspost BOOLEAN NOT NULL DEFAULT FALSE,
+    mention VARCHAR(36),
+    delivery_mode VARCHAR(16) NOT NULL DEFAULT 'immediate',
+    digest_time VARCHAR(5) NOT NULL DEFAULT '09:00',
+    digest_day SMALLINT NOT NULL DEFAULT 1,
+    paused BOOLEAN NOT NULL DEFAULT FALSE,
+    paused_until TIMESTAMP WITH TIME ZONE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-    UNIQUE(guild_id, newsletter_id)
+    UNIQUE(guild_id, channel_id, newsletter_id)
 );
 
 CREATE TABLE IF NOT EXISTS tracked_links (
@@ -39,6 +59,7 @@ CREATE TABLE IF NOT EXISTS tracked_links (
     tracking_id VARCHAR(36) NOT NULL UNIQUE,
     issue_id VARCHAR(36) NOT NULL REFERENCES issues(id),
     newsletter_id VARCHAR(36) NOT NULL REFERENCES newsletters(id),
+    guild_id VARCHAR(36),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
@@ -52,11 +73,53 @@ CREATE TABLE IF NOT EXISTS link_clicks (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
+CREATE TABLE IF NOT EXISTS deliveries (
+    id VARCHAR(36) PRIMARY KEY,
+    issue_id VARCHAR(36) NOT NULL REFERENCES issues(id),
+    subscription_id VARCHAR(36) NOT NULL,
+    guild_id VARCHAR(36) NOT NULL,
+    channel_id VARCHAR(36) NOT NULL,
+    status VARCHAR(16) NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    last_error TEXT,
+    discord_message_id VARCHAR(36),
+    sent_at TIMESTAMP WITH TIME ZONE,
+    backfill BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(issue_id, channel_id)
+);
+
+CREATE TABLE IF NOT EXISTS guild_settings (
+    guild_id VARCHAR(36) PRIMARY KEY,
+    timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+    locale VARCHAR(35) NOT NULL DEFAULT 'en-US',
+    manager_role_id VARCHAR(36),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS subscription_deactivations (
+    id VARCHAR(36) PRIMARY KEY,
+    subscription_id VARCHAR(36) NOT NULL,
+    guild_id VARCHAR(36) NOT NULL,
+    channel_id VARCHAR(36) NOT NULL,
+    newsletter_id VARCHAR(36) NOT NULL,
+    reason VARCHAR(32) NOT NULL,
+    detail TEXT,
+    deactivated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    restored_at TIMESTAMP WITH TIME ZONE
+);
+
 -- Indexes for better performance
-CREATE INDEX idx_issues_newsletter_id ON issues(newsletter_id);
-CREATE INDEX idx_issues_processed ON issues(processed);
-CREATE INDEX idx_guild_subscriptions_guild_id ON guild_subscriptions(guild_id);
-CREATE INDEX idx_guild_subscriptions_newsletter_id ON guild_subscriptions(newsletter_id);
-CREATE INDEX idx_guild_subscriptions_active ON guild_subscriptions(active);
-CREATE INDEX idx_tracked_links_issue_id ON tracked_links(issue_id);
-CREATE INDEX idx_link_clicks_tracked_link_id ON link_clicks(tracked_link_id);
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS idx_issues_newsletter_id ON issues(newsletter_id);
+CREATE INDEX IF NOT EXISTS idx_issues_processed ON issues(processed);
+CREATE INDEX IF NOT EXISTS idx_guild_subscriptions_guild_id ON guild_subscriptions(guild_id);
+CREATE INDEX IF NOT EXISTS idx_guild_subscriptions_newsletter_id ON guild_subscriptions(newsletter_id);
+CREATE INDEX IF NOT EXISTS idx_guild_subscriptions_active ON guild_subscriptions(active);
+CREATE INDEX IF NOT EXISTS idx_tracked_links_issue_id ON tracked_links(issue_id);
+CREATE INDEX IF NOT EXISTS idx_tracked_links_issue_guild ON tracked_links(issue_id, guild_id);
+CREATE INDEX IF NOT EXISTS idx_link_clicks_tracked_link_id ON link_clicks(tracked_link_id);
+CREATE INDEX IF NOT EXISTS idx_deliveries_status_next_attempt ON deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_subscription_deactivations_guild_id ON subscription_deactivations(guild_id);
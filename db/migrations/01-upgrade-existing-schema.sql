@@ -0,0 +1,90 @@
+-- Bring a database created from an older db/init/01-schema.sql up to date.
+-- The init script only runs on an empty volume; run this file against an
+-- existing database instead. Every statement is idempotent, so it is safe to
+-- run more than once.
+
+ALTER TABLE newsletters ADD COLUMN IF NOT EXISTS color INTEGER;
+ALTER TABLE newsletters ADD COLUMN IF NOT EXISTS use_archive_link BOOLEAN DEFAULT FALSE;
+ALTER TABLE newsletters ADD COLUMN IF NOT EXISTS description TEXT;
+ALTER TABLE newsletters ADD COLUMN IF NOT EXISTS category VARCHAR(64);
+ALTER TABLE newsletters ADD COLUMN IF NOT EXISTS icon_url VARCHAR(1024);
+
+ALTER TABLE issues ADD COLUMN IF NOT EXISTS summary TEXT;
+ALTER TABLE issues ADD COLUMN IF NOT EXISTS image_url VARCHAR(1024);
+ALTER TABLE issues ADD COLUMN IF NOT EXISTS sender_name VARCHAR(255);
+ALTER TABLE issues ADD COLUMN IF NOT EXISTS extractor VARCHAR(64);
+ALTER TABLE issues ADD COLUMN IF NOT EXISTS extraction_confidence REAL;
+
+ALTER TABLE guild_subscriptions ADD COLUMN IF NOT EXISTS include_keywords TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE guild_subscriptions ADD COLUMN IF NOT EXISTS exclude_keywords TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE guild_subscriptions ADD COLUMN IF NOT EXISTS create_thread BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE guild_subscriptions ADD COLUMN IF NOT EXISTS crosspost BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE guild_subscriptions ADD COLUMN IF NOT EXISTS mention VARCHAR(36);
+ALTER TABLE guild_subscriptions ADD COLUMN IF NOT EXISTS delivery_mode VARCHAR(16) NOT NULL DEFAULT 'immediate';
+ALTER TABLE guild_subscriptions ADD COLUMN IF NOT EXISTS digest_time VARCHAR(5) NOT NULL DEFAULT '09:00';
+ALTER TABLE guild_subscriptions ADD COLUMN IF NOT EXISTS digest_day SMALLINT NOT NULL DEFAULT 1;
+ALTER TABLE guild_subscriptions ADD COLUMN IF NOT EXISTS paused BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE guild_subscriptions ADD COLUMN IF NOT EXISTS paused_until TIMESTAMP WITH TIME ZONE;
+
+-- Subscriptions used to be unique per guild and newsletter; a guild can now
+-- subscribe several channels to the same newsletter
+ALTER TABLE guild_subscriptions DROP CONSTRAINT IF EXISTS guild_subscriptions_guild_id_newsletter_id_key;
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'guild_subscriptions_guild_id_channel_id_newsletter_id_key'
+    ) THEN
+        ALTER TABLE guild_subscriptions
+            ADD CONSTRAINT guild_subscriptions_guild_id_channel_id_newsletter_id_key
+            UNIQUE (guild_id, channel_id, newsletter_id);
+    END IF;
+END
+$$;
+
+ALTER TABLE tracked_links ADD COLUMN IF NOT EXISTS guild_id VARCHAR(36);
+
+CREATE TABLE IF NOT EXISTS deliveries (
+    id VARCHAR(36) PRIMARY KEY,
+    issue_id VARCHAR(36) NOT NULL REFERENCES issues(id),
+    subscription_id VARCHAR(36) NOT NULL,
+    guild_id VARCHAR(36) NOT NULL,
+    channel_id VARCHAR(36) NOT NULL,
+    status VARCHAR(16) NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    last_error TEXT,
+    discord_message_id VARCHAR(36),
+    sent_at TIMESTAMP WITH TIME ZONE,
+    backfill BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(issue_id, channel_id)
+);
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS backfill BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE TABLE IF NOT EXISTS guild_settings (
+    guild_id VARCHAR(36) PRIMARY KEY,
+    timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+    locale VARCHAR(35) NOT NULL DEFAULT 'en-US',
+    manager_role_id VARCHAR(36),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+ALTER TABLE guild_settings ADD COLUMN IF NOT EXISTS manager_role_id VARCHAR(36);
+
+CREATE TABLE IF NOT EXISTS subscription_deactivations (
+    id VARCHAR(36) PRIMARY KEY,
+    subscription_id VARCHAR(36) NOT NULL,
+    guild_id VARCHAR(36) NOT NULL,
+    channel_id VARCHAR(36) NOT NULL,
+    newsletter_id VARCHAR(36) NOT NULL,
+    reason VARCHAR(32) NOT NULL,
+    detail TEXT,
+    deactivated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    restored_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_tracked_links_issue_guild ON tracked_links(issue_id, guild_id);
+CREATE INDEX IF NOT EXISTS idx_deliveries_status_next_attempt ON deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_subscription_deactivations_guild_id ON subscription_deactivations(guild_id);
@@ -9,7 +9,8 @@ export default [
     files: ['**/*.ts', '**/*.tsx'],
     languageOptions: {
       parser,
-      parserOptions: { project: './tsconfig.json', sourceType: 'module' },
+      // tsconfig.test.json also covers the *.test.ts files the build excludes
+      parserOptions: { project: './tsconfig.test.json', sourceType: 'module' },
     },
     plugins: { '@typescript-eslint': ts },
 
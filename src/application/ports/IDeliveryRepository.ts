@@ -0,0 +1,39 @@
+import { Delivery, DeliveryStatus } from '../../domain/entities/Delivery';
+
+export interface IDeliveryRepository {
+  /**
+   * Find a delivery by its ID
+   */
+  getById(id: string): Promise<Delivery | null>;
+
+  /**
+   * Find deliveries by issue ID
+   */
+  getByIssueId(issueId: string): Promise<Delivery[]>;
+
+  /**
+   * Find the delivery for an issue in a specific channel
+   */
+  getByIssueAndChannel(issueId: string, channelId: string): Promise<Delivery | null>;
+
+  /**
+   * Find deliveries with a given status
+   */
+  getByStatus(status: DeliveryStatus): Promise<Delivery[]>;
+
+  /**
+   * Get pending or failed deliveries whose next attempt is due, oldest first
+   */
+  getDue(now: Date, limit?: number): Promise<Delivery[]>;
+
+  /**
+   * Add a delivery to the outbox unless one already exists for its issue and channel
+   * @returns true if the delivery was added
+   */
+  enqueue(delivery: Delivery): Promise<boolean>;
+
+  /**
+   * Save a delivery (create or update)
+   */
+  save(delivery: Delivery): Promise<void>;
+}
@@ -0,0 +1,18 @@
+import { GuildSettings } from '../../domain/entities/GuildSettings';
+
+export interface IGuildSettingsRepository {
+  /**
+   * Find the settings for a guild
+   */
+  getByGuildId(guildId: string): Promise<GuildSettings | null>;
+
+  /**
+   * Save settings (create or update)
+   */
+  save(settings: GuildSettings): Promise<void>;
+
+  /**
+   * Delete the settings for a guild
+   */
+  delete(guildId: string): Promise<void>;
+}
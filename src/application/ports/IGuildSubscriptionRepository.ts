@@ -21,15 +21,29 @@ export interface IGuildSubscriptionRepository {
    */
   getByNewsletterId(newsletterId: string): Promise<GuildSubscription[]>;
 
+  /**
+   * Find paused subscriptions whose pause has ended, leaving out deactivated ones
+   */
+  getDueToResume(now: Date): Promise<GuildSubscription[]>;
+
   /**
    * Find active subscriptions by newsletter ID
    */
   getActiveByNewsletterId(newsletterId: string): Promise<GuildSubscription[]>;
 
   /**
-   * Find subscription by guild ID and newsletter ID
+   * Find the subscriptions to a newsletter in every channel of a guild
+   */
+  getByGuildAndNewsletter(guildId: string, newsletterId: string): Promise<GuildSubscription[]>;
+
+  /**
+   * Find the subscription to a newsletter in a specific channel of a guild
    */
-  getByGuildAndNewsletter(guildId: string, newsletterId: string): Promise<GuildSubscription | null>;
+  getByGuildChannelAndNewsletter(
+    guildId: string,
+    channelId: string,
+    newsletterId: string,
+  ): Promise<GuildSubscription | null>;
 
   /**
    * Save a subscription (create or update)
@@ -47,7 +61,11 @@ export interface IGuildSubscriptionRepository {
   deleteByGuildId(guildId: string): Promise<void>;
 
   /**
-   * Check if a subscription exists for a guild and newsletter
+   * Check if a subscription exists for a guild, channel and newsletter
    */
-  existsByGuildAndNewsletter(guildId: string, newsletterId: string): Promise<boolean>;
+  existsByGuildChannelAndNewsletter(
+    guildId: string,
+    channelId: string,
+    newsletterId: string,
+  ): Promise<boolean>;
 }
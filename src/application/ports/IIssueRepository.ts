@@ -16,6 +16,11 @@ export interface IIssueRepository {
    */
   getByNewsletterId(newsletterId: string): Promise<Issue[]>;
 
+  /**
+   * Count issues received since a date, keyed by newsletter ID
+   */
+  countByNewsletterSince(since: Date): Promise<Map<string, number>>;
+
   /**
    * Find issues by message ID (email message ID)
    */
@@ -45,4 +50,9 @@ export interface IIssueRepository {
    * Check if an issue exists by message ID
    */
   existsByMessageId(messageId: string): Promise<boolean>;
+
+  /**
+   * Check whether archived content of this size is kept when an issue is saved
+   */
+  canStoreContent(content: string): boolean;
 }
@@ -22,14 +22,24 @@ export interface ILinkClickRepository {
   getByTrackedLinkIds(trackedLinkIds: string[]): Promise<LinkClick[]>;
 
   /**
-   * Count clicks for a specific newsletter within a date range
+   * Count clicks for a specific newsletter within a date range, optionally limited to one guild
    */
   countByNewsletterIdAndDateRange(
     newsletterId: string,
     startDate: Date,
     endDate: Date,
+    guildId?: string,
   ): Promise<number>;
 
+  /**
+   * Count clicks per issue within a date range, most clicked first
+   */
+  countByIssueAndDateRange(
+    startDate: Date,
+    endDate: Date,
+    options?: { guildId?: string; limit?: number },
+  ): Promise<Array<{ issueId: string; clicks: number }>>;
+
   /**
    * Save a link click
    */
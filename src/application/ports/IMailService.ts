@@ -6,6 +6,8 @@ export interface EmailMessage {
   receivedAt: Date;
   body: string;
   html?: string;
+  /** Raw header values keyed by lower-case header name */
+  headers?: Record<string, string>;
 }
 
 export interface IMailService {
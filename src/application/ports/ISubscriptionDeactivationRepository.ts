@@ -0,0 +1,13 @@
+import { SubscriptionDeactivation } from '../../domain/entities/SubscriptionDeactivation';
+
+export interface ISubscriptionDeactivationRepository {
+  /**
+   * Find the deactivations recorded for a guild, oldest first
+   */
+  getByGuildId(guildId: string): Promise<SubscriptionDeactivation[]>;
+
+  /**
+   * Save a deactivation record (create or update)
+   */
+  save(deactivation: SubscriptionDeactivation): Promise<void>;
+}
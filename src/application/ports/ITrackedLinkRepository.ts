@@ -37,7 +37,16 @@ export interface ITrackedLinkRepository {
   delete(id: string): Promise<void>;
 
   /**
-   * Check if a tracked link exists by original URL and issue ID
+   * Find a tracked link by original URL and issue ID, optionally scoped to a guild
    */
-  existsByUrlAndIssue(originalUrl: string, issueId: string): Promise<boolean>;
+  getByUrlAndIssue(
+    originalUrl: string,
+    issueId: string,
+    guildId?: string,
+  ): Promise<TrackedLink | null>;
+
+  /**
+   * Check if a tracked link exists by original URL and issue ID, optionally scoped to a guild
+   */
+  existsByUrlAndIssue(originalUrl: string, issueId: string, guildId?: string): Promise<boolean>;
 }
@@ -0,0 +1,36 @@
+import { EmailMessage } from './IMailService';
+import { Newsletter } from '../../domain/entities/Newsletter';
+
+export interface WebUrlExtraction {
+  url: string;
+  /** How sure the extractor is that this is the issue's web version, from 0 to 1 */
+  confidence: number;
+  /** Name of the extractor that found the URL */
+  extractor: string;
+}
+
+/**
+ * How an email's platform was recognised: from the sender domain, headers or the platform's
+ * own template (`sender`), or only from links in the body (`content`), which any email that
+ * links to a post on the platform has too
+ */
+export type PlatformMatch = 'sender' | 'content';
+
+export interface IWebUrlExtractor {
+  /**
+   * Name recorded on issues found by this extractor
+   */
+  readonly name: string;
+
+  /**
+   * Check whether the email comes from the platform this extractor understands
+   * @returns null if nothing points to the platform
+   */
+  matches(email: EmailMessage): PlatformMatch | null;
+
+  /**
+   * Find the web version of the email
+   * @returns null if no suitable URL was found
+   */
+  extract(email: EmailMessage, newsletter: Newsletter): WebUrlExtraction | null;
+}
@@ -3,4 +3,8 @@ export * from './IIssueRepository';
 export * from './IGuildSubscriptionRepository';
 export * from './ITrackedLinkRepository';
 export * from './ILinkClickRepository';
+export * from './IDeliveryRepository';
 export * from './IMailService';
+export * from './IWebUrlExtractor';
+export * from './IGuildSettingsRepository';
+export * from './ISubscriptionDeactivationRepository';
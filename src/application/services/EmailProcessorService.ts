@@ -1,13 +1,16 @@
-import { IMailService, EmailMessage } from '../ports/IMailService';
+import { IMailService } from '../ports/IMailService';
 import { INewsletterRepository } from '../ports/INewsletterRepository';
 import { Newsletter } from '../../domain/entities/Newsletter';
 import { Issue } from '../../domain/entities/Issue';
+import { extractEmailPreview } from '../../shared/utils/emailPreview';
+import { WebUrlExtractionService } from './WebUrlExtractionService';
 import { randomUUID } from 'crypto';
 
 export class EmailProcessorService {
   constructor(
     private readonly mailService: IMailService,
     private readonly newsletterRepository: INewsletterRepository,
+    private readonly webUrlExtractionService: WebUrlExtractionService = new WebUrlExtractionService(),
   ) {}
 
   /**
@@ -52,18 +55,21 @@ export class EmailProcessorService {
 
           // Extract web view link
           console.log('Attempting to extract web URL...');
-          const webUrl = this.extractWebUrl(email, newsletter);
+          const extraction = this.webUrlExtractionService.extract(email, newsletter);
 
-          if (webUrl) {
-            console.log(`Extracted web URL: ${webUrl}`);
+          if (extraction) {
+            console.log(`Extracted web URL with ${extraction.extractor}: ${extraction.url}`);
 
             // Create issue
             const issue = Issue.create({
               newsletterId: newsletter.id,
               title: email.subject,
-              webUrl,
+              webUrl: extraction.url,
               receivedAt: email.receivedAt,
               messageId: email.messageId,
+              extractor: extraction.extractor,
+              extractionConfidence: extraction.confidence,
+              ...extractEmailPreview(email),
             });
 
             results.issues.push(issue);
@@ -99,108 +105,6 @@ export class EmailProcessorService {
     return results;
   }
 
-  /**
-   * Extract web URL from email content
-   */
-  private extractWebUrl(email: EmailMessage, newsletter: Newsletter): string | null {
-    console.log('Starting URL extraction process...');
-
-    // Try custom extraction pattern first
-    if (newsletter.extractionPattern) {
-      try {
-        console.log(`Using custom pattern: ${newsletter.extractionPattern}`);
-        const regex = new RegExp(newsletter.extractionPattern);
-        const match = regex.exec(email.html || email.body);
-
-        if (match && match[1]) {
-          console.log(`Found URL using custom pattern: ${match[1]}`);
-          return match[1];
-        } else {
-          console.log('Custom pattern did not match any URL');
-        }
-      } catch (error) {
-        console.error(`Error using custom extraction pattern:`, error);
-      }
-    }
-
-    // Try common newsletter patterns
-    const commonPatterns = [
-      // View in browser patterns
-      /view\s+(?:this|it|the)?(?:\s+newsletter|\s+email)?\s+(?:in|on)(?:\s+a|\s+your)?\s+(?:web\s+)?browser(?:\s+)*(?:<a[^>]*href=["']([^"']+)["'][^>]*>)/i,
-      /view\s+(?:in|on)(?:\s+a|\s+your)?\s+(?:web\s+)?browser(?:\s+)*(?:<a[^>]*href=["']([^"']+)["'][^>]*>)/i,
-      /(?:<a[^>]*href=["']([^"']+)["'][^>]*>)(?:\s+)*view\s+(?:in|on)(?:\s+a|\s+your)?\s+(?:web\s+)?browser/i,
-
-      // Web version patterns
-      /(?:<a[^>]*href=["']([^"']+)["'][^>]*>)(?:\s+)*(?:web\s+version|online\s+version|view\s+online)/i,
-      /(?:web\s+version|online\s+version|view\s+online)(?:\s+)*(?:<a[^>]*href=["']([^"']+)["'][^>]*>)/i,
-
-      // General newsletter pattern
-      /(?:<a[^>]*href=["'])(https?:\/\/[^"']+(?:newsletter|campaign|view|browser|online)[^"']*)["'][^>]*>/i,
-    ];
-
-    // Check HTML content first if available
-    if (email.html) {
-      console.log('Checking HTML content for links...');
-      for (const pattern of commonPatterns) {
-        const match = pattern.exec(email.html);
-        if (match && match[1]) {
-          console.log(`Found URL in HTML: ${match[1]}`);
-          return match[1];
-        }
-      }
-      console.log('No newsletter-specific patterns matched in HTML');
-    } else {
-      console.log('No HTML content available');
-    }
-
-    // Check plain text content
-    console.log('Checking plain text content for links...');
-    for (const pattern of commonPatterns) {
-      const match = pattern.exec(email.body);
-      if (match && match[1]) {
-        console.log(`Found URL in text: ${match[1]}`);
-        return match[1];
-      }
-    }
-    console.log('No newsletter-specific patterns matched in text');
-
-    // FALLBACK: If no patterns matched, extract any URL
-    console.log('Using fallback: extract any URL from content');
-    const urlRegex = /(https?:\/\/[^\s<>"']+)/g;
-    const content = email.html || email.body;
-    const allUrls = [...content.matchAll(urlRegex)];
-
-    if (allUrls.length > 0) {
-      // Filter out common non-useful URLs
-      const nonUsefulDomains = ['w3.org', 'w3schools.com', 'xmlns.com', 'schema.org'];
-      // Filter URLs that don't contain non-useful domains
-      const filteredUrls = allUrls.filter((url) => {
-        return !nonUsefulDomains.some((domain) => url.includes(domain));
-      });
-      // Find URLs containing keywords related to newsletters
-      const keywordUrls = filteredUrls
-        .filter((match) => {
-          const url = match[0].toLowerCase();
-          return ['view', 'newsletter', 'browser', 'online', 'web'].some((keyword) =>
-            url.includes(keyword),
-          );
-        })
-        .map((match) => match[0]);
-      // Use a keyword URL if found, otherwise use the first filtered URL
-      const selectedUrl =
-        keywordUrls.length > 0
-          ? keywordUrls[0]
-          : filteredUrls.length > 0
-            ? filteredUrls[0][0]
-            : allUrls[0][0];
-      console.log(`Using URL as fallback: ${selectedUrl}`);
-      return selectedUrl;
-    }
-
-    console.log('No URLs found in email content');
-    return null;
-  }
-
   /**
    * Get fancy console output for results
    */
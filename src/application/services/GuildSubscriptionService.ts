@@ -21,15 +21,16 @@ export class GuildSubscriptionService {
    */
   async getGuildNewsletters(guildId: string): Promise<Newsletter[]> {
     const subscriptions = await this.subscriptionRepository.getByGuildId(guildId);
-    const newsletterIds = subscriptions.map((sub) => sub.newsletterId);
+    // A newsletter can be posted in several channels of the same guild
+    const newsletterIds = new Set(subscriptions.map((sub) => sub.newsletterId));
 
     // Get all newsletters and filter by IDs in subscriptions
     const allNewsletters = await this.newsletterRepository.getAll();
-    return allNewsletters.filter((newsletter) => newsletterIds.includes(newsletter.id));
+    return allNewsletters.filter((newsletter) => newsletterIds.has(newsletter.id));
   }
 
   /**
-   * Subscribe a guild to a newsletter
+   * Subscribe a guild channel to a newsletter
    */
   async subscribeGuildToNewsletter(
     guildId: string,
@@ -42,20 +43,17 @@ export class GuildSubscriptionService {
       throw new Error(`Newsletter with ID ${newsletterId} not found`);
     }
 
-    // Check if subscription already exists
-    const existingSubscription = await this.subscriptionRepository.getByGuildAndNewsletter(
+    // Check if this channel already has a subscription
+    const existingSubscription = await this.subscriptionRepository.getByGuildChannelAndNewsletter(
       guildId,
+      channelId,
       newsletterId,
     );
 
     if (existingSubscription) {
-      // If existing but in a different channel or inactive, update it
-      if (existingSubscription.channelId !== channelId || !existingSubscription.active) {
-        const updated =
-          existingSubscription.channelId !== channelId
-            ? existingSubscription.updateChannel(channelId).activate()
-            : existingSubscription.activate();
-
+      // If existing but inactive, reactivate it
+      if (!existingSubscription.active) {
+        const updated = existingSubscription.activate();
         await this.subscriptionRepository.save(updated);
         return updated;
       }
@@ -77,12 +75,17 @@ export class GuildSubscriptionService {
   }
 
   /**
-   * Unsubscribe a guild from a newsletter
+   * Unsubscribe a guild channel from a newsletter
    */
-  async unsubscribeGuildFromNewsletter(guildId: string, newsletterId: string): Promise<void> {
+  async unsubscribeGuildFromNewsletter(
+    guildId: string,
+    channelId: string,
+    newsletterId: string,
+  ): Promise<void> {
     // Check if the subscription exists
-    const subscription = await this.subscriptionRepository.getByGuildAndNewsletter(
+    const subscription = await this.subscriptionRepository.getByGuildChannelAndNewsletter(
       guildId,
+      channelId,
       newsletterId,
     );
 
@@ -96,6 +99,20 @@ export class GuildSubscriptionService {
     await this.subscriptionRepository.save(updated);
   }
 
+  /**
+   * Resume the paused subscriptions whose pause has ended
+   * @returns The number of subscriptions resumed
+   */
+  async resumeDueSubscriptions(now: Date = new Date()): Promise<number> {
+    const due = await this.subscriptionRepository.getDueToResume(now);
+
+    for (const subscription of due) {
+      await this.subscriptionRepository.save(subscription.resume());
+    }
+
+    return due.length;
+  }
+
   /**
    * Remove a guild from the system (hard delete all subscriptions)
    */
@@ -104,21 +121,51 @@ export class GuildSubscriptionService {
   }
 
   /**
-   * Change the channel for a newsletter subscription
+   * Hard delete every subscription to a newsletter, in all guilds
+   * @returns The number of channels that were subscribed
+   */
+  async removeNewsletterSubscriptions(newsletterId: string): Promise<number> {
+    const subscriptions = await this.subscriptionRepository.getByNewsletterId(newsletterId);
+
+    for (const subscription of subscriptions) {
+      await this.subscriptionRepository.delete(subscription.id);
+    }
+
+    return subscriptions.length;
+  }
+
+  /**
+   * Move a newsletter subscription from one channel to another
    */
   async changeSubscriptionChannel(
     guildId: string,
     newsletterId: string,
+    oldChannelId: string,
     newChannelId: string,
   ): Promise<GuildSubscription> {
     // Check if the subscription exists
-    const subscription = await this.subscriptionRepository.getByGuildAndNewsletter(
+    const subscription = await this.subscriptionRepository.getByGuildChannelAndNewsletter(
       guildId,
+      oldChannelId,
       newsletterId,
     );
 
     if (!subscription) {
-      throw new Error(`Subscription for newsletter ${newsletterId} in guild ${guildId} not found`);
+      throw new Error(
+        `Subscription for newsletter ${newsletterId} in channel ${oldChannelId} of guild ${guildId} not found`,
+      );
+    }
+
+    const conflicting = await this.subscriptionRepository.existsByGuildChannelAndNewsletter(
+      guildId,
+      newChannelId,
+      newsletterId,
+    );
+
+    if (conflicting) {
+      throw new Error(
+        `Channel ${newChannelId} of guild ${guildId} is already subscribed to newsletter ${newsletterId}`,
+      );
     }
 
     // Update the channel
@@ -33,7 +33,16 @@ export class NewsletterService {
     url: string;
     senderEmail: string;
     extractionPattern?: string;
+    color?: number;
+    useArchiveLink?: boolean;
+    description?: string;
+    category?: string;
+    iconUrl?: string;
   }): Promise<Newsletter> {
+    if (params.extractionPattern) {
+      Newsletter.validateExtractionPattern(params.extractionPattern);
+    }
+
     // Check if newsletter with this email already exists
     const existing = await this.newsletterRepository.getBySenderEmail(params.senderEmail);
     if (existing) {
@@ -59,6 +68,11 @@ export class NewsletterService {
       url?: string;
       senderEmail?: string;
       extractionPattern?: string;
+      color?: number;
+      useArchiveLink?: boolean;
+      description?: string;
+      category?: string;
+      iconUrl?: string;
     },
   ): Promise<Newsletter> {
     // Find existing newsletter
@@ -67,6 +81,10 @@ export class NewsletterService {
       throw new Error(`Newsletter with ID ${id} not found`);
     }
 
+    if (params.extractionPattern) {
+      Newsletter.validateExtractionPattern(params.extractionPattern);
+    }
+
     // Check if email is changing and ensure no conflict
     if (params.senderEmail && params.senderEmail !== existing.senderEmail) {
       const emailExists = await this.newsletterRepository.existsBySenderEmail(params.senderEmail);
@@ -82,6 +100,12 @@ export class NewsletterService {
       url: params.url ?? existing.url,
       senderEmail: params.senderEmail ?? existing.senderEmail,
       extractionPattern: params.extractionPattern ?? existing.extractionPattern,
+      color: params.color ?? existing.color,
+      useArchiveLink: params.useArchiveLink ?? existing.useArchiveLink,
+      description: params.description ?? existing.description,
+      category: params.category ?? existing.category,
+      iconUrl: params.iconUrl ?? existing.iconUrl,
+      createdAt: existing.createdAt,
     });
 
     // Save to repository
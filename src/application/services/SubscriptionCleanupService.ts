@@ -0,0 +1,106 @@
+import { IGuildSubscriptionRepository } from '../ports/IGuildSubscriptionRepository';
+import { ISubscriptionDeactivationRepository } from '../ports/ISubscriptionDeactivationRepository';
+import { GuildSubscription } from '../../domain/entities/GuildSubscription';
+import {
+  DeactivationReason,
+  SubscriptionDeactivation,
+} from '../../domain/entities/SubscriptionDeactivation';
+
+/**
+ * Deactivates subscriptions whose guild or channel is gone, recording each one so it
+ * can be restored later
+ */
+export class SubscriptionCleanupService {
+  constructor(
+    private readonly subscriptionRepository: IGuildSubscriptionRepository,
+    private readonly deactivationRepository: ISubscriptionDeactivationRepository,
+  ) {}
+
+  /**
+   * Deactivate every subscription of a guild the bot was removed from
+   * @returns The number of subscriptions deactivated
+   */
+  async deactivateGuild(guildId: string): Promise<number> {
+    const subscriptions = await this.subscriptionRepository.getByGuildId(guildId);
+    return this.deactivate(subscriptions, 'guild_removed');
+  }
+
+  /**
+   * Deactivate every subscription posting to a channel that was deleted or can't be reached
+   * @param detail The error that showed the channel is unavailable
+   * @returns The number of subscriptions deactivated
+   */
+  async deactivateChannel(
+    guildId: string,
+    channelId: string,
+    reason: Exclude<DeactivationReason, 'guild_removed'>,
+    detail?: string,
+  ): Promise<number> {
+    const subscriptions = (await this.subscriptionRepository.getByGuildId(guildId)).filter(
+      (subscription) => subscription.channelId === channelId,
+    );
+    return this.deactivate(subscriptions, reason, detail);
+  }
+
+  /**
+   * Reactivate the subscriptions that were deactivated for the given reasons, e.g. when the
+   * bot is re-invited to a guild. Subscriptions deleted or re-enabled since are left alone.
+   * @returns The number of subscriptions reactivated
+   */
+  async restoreGuild(
+    guildId: string,
+    reasons: DeactivationReason[] = ['guild_removed'],
+  ): Promise<number> {
+    const deactivations = (await this.deactivationRepository.getByGuildId(guildId)).filter(
+      (deactivation) => !deactivation.isRestored && reasons.includes(deactivation.reason),
+    );
+    let restored = 0;
+
+    for (const deactivation of deactivations) {
+      const subscription = await this.subscriptionRepository.getById(deactivation.subscriptionId);
+
+      if (subscription && !subscription.active) {
+        await this.subscriptionRepository.save(subscription.activate());
+        restored++;
+      }
+
+      await this.deactivationRepository.save(deactivation.markRestored());
+    }
+
+    return restored;
+  }
+
+  /**
+   * Deactivate the active subscriptions among the given ones, recording each in the audit log
+   */
+  private async deactivate(
+    subscriptions: GuildSubscription[],
+    reason: DeactivationReason,
+    detail?: string,
+  ): Promise<number> {
+    const active = subscriptions.filter((subscription) => subscription.active);
+
+    for (const subscription of active) {
+      // Record first, so a crash in between never leaves a deactivation that can't be restored
+      await this.deactivationRepository.save(
+        SubscriptionDeactivation.create({
+          subscriptionId: subscription.id,
+          guildId: subscription.guildId,
+          channelId: subscription.channelId,
+          newsletterId: subscription.newsletterId,
+          reason,
+          detail,
+        }),
+      );
+      await this.subscriptionRepository.save(subscription.deactivate());
+    }
+
+    if (active.length > 0) {
+      console.log(
+        `Deactivated ${active.length} subscriptions (${reason}) in guild ${active[0].guildId}`,
+      );
+    }
+
+    return active.length;
+  }
+}
@@ -0,0 +1,74 @@
+import { WebUrlExtractionService } from './WebUrlExtractionService';
+import { EmailMessage } from '../ports/IMailService';
+import { Newsletter } from '../../domain/entities/Newsletter';
+
+const newsletter = Newsletter.create({
+  name: 'Garden Club',
+  url: 'https://gardenclub.org',
+  senderEmail: 'news@gardenclub.org',
+});
+
+function email(params: Partial<EmailMessage> & { html: string }): EmailMessage {
+  return {
+    id: '1',
+    from: 'Garden Club <news@gardenclub.org>',
+    subject: 'Spring planting',
+    receivedAt: new Date('2026-05-01T09:00:00Z'),
+    body: '',
+    ...params,
+  };
+}
+
+// A recommended read on another platform, as newsletters often include
+const SUBSTACK_LINK =
+  '<p>Worth reading: <a href="https://soilnotes.substack.com/p/compost-basics">Compost basics</a></p>';
+
+describe('WebUrlExtractionService', () => {
+  const service = new WebUrlExtractionService();
+
+  it("uses the sending platform's extractor when the body links to another platform", () => {
+    const result = service.extract(
+      email({
+        headers: { 'x-mailer': 'MailChimp Mailer - **CID1234567890**' },
+        html: `<a href="https://us1.campaign-archive.com/?u=abc&amp;id=def&amp;e=subscriber">View this email in your browser</a>${SUBSTACK_LINK}`,
+      }),
+      newsletter,
+    );
+
+    expect(result).toEqual({
+      url: 'https://us1.campaign-archive.com/?u=abc&id=def',
+      confidence: 0.95,
+      extractor: 'mailchimp',
+    });
+  });
+
+  it('prefers the generic heuristics over a platform only linked from the body', () => {
+    const result = service.extract(
+      email({
+        html: `<a href="https://gardenclub.org/news/spring-planting">View in browser</a><h1>Spring planting</h1><p>${'The beds are ready and the seedlings are hardening off. '.repeat(3)}</p>${SUBSTACK_LINK}`,
+      }),
+      newsletter,
+    );
+
+    expect(result).toMatchObject({
+      url: 'https://gardenclub.org/news/spring-planting',
+      extractor: 'generic',
+    });
+  });
+
+  it('recognises the platform from the sender even without platform links', () => {
+    const result = service.extract(
+      email({
+        from: 'Soil Notes <soilnotes@substack.com>',
+        html: `<a href="https://soilnotes.com/p/compost-basics?token=secret">Read online</a>`,
+      }),
+      newsletter,
+    );
+
+    expect(result).toEqual({
+      url: 'https://soilnotes.com/p/compost-basics',
+      confidence: 0.85,
+      extractor: 'substack',
+    });
+  });
+});
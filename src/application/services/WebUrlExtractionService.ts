@@ -0,0 +1,101 @@
+import { EmailMessage } from '../ports/IMailService';
+import { IWebUrlExtractor, PlatformMatch, WebUrlExtraction } from '../ports/IWebUrlExtractor';
+import { Newsletter } from '../../domain/entities/Newsletter';
+import { createPlatformWebUrlExtractors, GenericWebUrlExtractor } from './webUrlExtractors';
+
+// Platform links in the body are only a hint, so results found that way are never trusted much
+const CONTENT_MATCH_MAX_CONFIDENCE = 0.3;
+
+export class WebUrlExtractionService {
+  constructor(
+    private readonly extractors: IWebUrlExtractor[] = createPlatformWebUrlExtractors(),
+    private readonly fallback: IWebUrlExtractor = new GenericWebUrlExtractor(),
+  ) {}
+
+  /**
+   * Find the web version of a newsletter email.
+   * A newsletter's own extraction pattern wins; otherwise every extractor whose platform sent
+   * the email is tried and the most confident result is used, then the generic heuristics.
+   * Extractors that only found links to their platform in the body (e.g. a Mailchimp email
+   * linking to a Substack post) come last, with their confidence capped.
+   */
+  extract(email: EmailMessage, newsletter: Newsletter): WebUrlExtraction | null {
+    const customResult = this.extractWithPattern(email, newsletter);
+    if (customResult) {
+      return customResult;
+    }
+
+    const platformResult = this.extractWithMatching(email, newsletter, 'sender');
+    if (platformResult) {
+      return platformResult;
+    }
+
+    const fallbackResult = this.fallback.extract(email, newsletter);
+    if (fallbackResult && this.isValidUrl(fallbackResult.url)) {
+      return fallbackResult;
+    }
+
+    const contentResult = this.extractWithMatching(email, newsletter, 'content');
+    return contentResult
+      ? {
+          ...contentResult,
+          confidence: Math.min(contentResult.confidence, CONTENT_MATCH_MAX_CONFIDENCE),
+        }
+      : null;
+  }
+
+  /**
+   * Get the most confident result of the extractors that recognise the email the given way
+   */
+  private extractWithMatching(
+    email: EmailMessage,
+    newsletter: Newsletter,
+    match: PlatformMatch,
+  ): WebUrlExtraction | null {
+    const candidates = this.extractors
+      .filter((extractor) => extractor.matches(email) === match)
+      .map((extractor) => extractor.extract(email, newsletter))
+      .filter(
+        (result): result is WebUrlExtraction => result !== null && this.isValidUrl(result.url),
+      )
+      .sort((a, b) => b.confidence - a.confidence);
+
+    return candidates[0] ?? null;
+  }
+
+  /**
+   * Apply the newsletter's custom extraction pattern, if it has one
+   */
+  private extractWithPattern(email: EmailMessage, newsletter: Newsletter): WebUrlExtraction | null {
+    if (!newsletter.extractionPattern) {
+      return null;
+    }
+
+    try {
+      const regex = new RegExp(newsletter.extractionPattern);
+      const match = regex.exec(email.html || email.body);
+
+      if (match && match[1] && this.isValidUrl(match[1])) {
+        return { url: match[1], confidence: 1, extractor: 'custom-pattern' };
+      }
+
+      console.log('Custom pattern did not match');
+    } catch (error) {
+      console.error(`Error using custom extraction pattern:`, error);
+    }
+
+    return null;
+  }
+
+  /**
+   * Only absolute http(s) URLs can be posted
+   */
+  private isValidUrl(url: string): boolean {
+    try {
+      const { protocol } = new URL(url);
+      return protocol === 'http:' || protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+}
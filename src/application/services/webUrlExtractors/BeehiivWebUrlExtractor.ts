@@ -0,0 +1,52 @@
+import { EmailMessage } from '../../ports/IMailService';
+import { IWebUrlExtractor, PlatformMatch, WebUrlExtraction } from '../../ports/IWebUrlExtractor';
+import { findLinks, findUrl, getContent, getHeader, getSenderDomain } from './extractorUtils';
+
+export class BeehiivWebUrlExtractor implements IWebUrlExtractor {
+  readonly name = 'beehiiv';
+
+  /**
+   * Check whether the email was sent through Beehiiv
+   */
+  matches(email: EmailMessage): PlatformMatch | null {
+    if (
+      getSenderDomain(email).endsWith('beehiiv.com') ||
+      /beehiiv/i.test(getHeader(email, 'list-unsubscribe'))
+    ) {
+      return 'sender';
+    }
+
+    return getContent(email).includes('beehiiv.com') ? 'content' : null;
+  }
+
+  /**
+   * Prefer the post on the publication site, then the tracked "Read Online" link
+   */
+  extract(email: EmailMessage): WebUrlExtraction | null {
+    const content = getContent(email);
+
+    const postUrl = findUrl(content, /https:\/\/[\w-]+\.beehiiv\.com\/p\/[\w-]+/i);
+    if (postUrl) {
+      return { url: postUrl, confidence: 0.95, extractor: this.name };
+    }
+
+    const trackedLinks = findLinks(content).filter((link) =>
+      /^https:\/\/link\.mail\.beehiiv\.com\/ss\/c\//i.test(link.href),
+    );
+
+    const readOnline = trackedLinks.find((link) => /(?:read|view)\s+online/i.test(link.text));
+    if (readOnline) {
+      return { url: readOnline.href, confidence: 0.85, extractor: this.name };
+    }
+
+    // Any tracked link might be an ad or a sponsor, so this is only a guess
+    const trackedUrl =
+      trackedLinks[0]?.href ??
+      findUrl(content, /https:\/\/link\.mail\.beehiiv\.com\/ss\/[^\s"'<>]+/i);
+    if (trackedUrl) {
+      return { url: trackedUrl, confidence: 0.4, extractor: this.name };
+    }
+
+    return null;
+  }
+}
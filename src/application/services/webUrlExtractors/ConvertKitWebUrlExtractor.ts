@@ -0,0 +1,53 @@
+import { EmailMessage } from '../../ports/IMailService';
+import { IWebUrlExtractor, PlatformMatch, WebUrlExtraction } from '../../ports/IWebUrlExtractor';
+import { findLinks, findUrl, getContent, getHeader, getSenderDomain } from './extractorUtils';
+
+const CONVERTKIT_MAIL_DOMAIN = /(?:convertkit|kit)-mail\d*\.com/i;
+
+export class ConvertKitWebUrlExtractor implements IWebUrlExtractor {
+  readonly name = 'convertkit';
+
+  /**
+   * Check whether the email was sent through ConvertKit (now Kit)
+   */
+  matches(email: EmailMessage): PlatformMatch | null {
+    // Publications on their own domain still send through ConvertKit's mail servers
+    if (
+      CONVERTKIT_MAIL_DOMAIN.test(getSenderDomain(email)) ||
+      ['sender', 'message-id', 'list-unsubscribe'].some((name) =>
+        CONVERTKIT_MAIL_DOMAIN.test(getHeader(email, name)),
+      )
+    ) {
+      return 'sender';
+    }
+
+    return /convertkit|\.ck\.page\//i.test(getContent(email)) ? 'content' : null;
+  }
+
+  /**
+   * Prefer the public post page, then the broadcast preview link
+   */
+  extract(email: EmailMessage): WebUrlExtraction | null {
+    const content = getContent(email);
+
+    const postUrl =
+      findUrl(content, /https:\/\/[\w-]+\.ck\.page\/posts\/[\w-]+/i) ??
+      findUrl(content, /https:\/\/[\w-]+\.kit\.com\/posts\/[\w-]+/i);
+    if (postUrl) {
+      return { url: postUrl, confidence: 0.95, extractor: this.name };
+    }
+
+    const links = findLinks(content);
+    const previewLink =
+      links.find(
+        (link) =>
+          /^https:\/\/preview\.convertkit-mail\d*\.com\//i.test(link.href) &&
+          /view|browser|online/i.test(link.text),
+      ) ?? links.find((link) => /^https:\/\/preview\.convertkit-mail\d*\.com\//i.test(link.href));
+    if (previewLink) {
+      return { url: previewLink.href, confidence: 0.75, extractor: this.name };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,166 @@
+import { EmailMessage } from '../../ports/IMailService';
+import { IWebUrlExtractor, PlatformMatch, WebUrlExtraction } from '../../ports/IWebUrlExtractor';
+import { Newsletter } from '../../../domain/entities/Newsletter';
+import { getContent } from './extractorUtils';
+
+// Common "view in browser" variations across newsletter providers
+const VIEW_IN_BROWSER_PATTERNS = [
+  // Common phrases
+  /view\s+(?:in|on)\s+(?:browser|web)/i,
+  /read\s+(?:in|on|)?\s*(?:browser|web|online)/i,
+  /web\s+(?:view|version)/i,
+  /online\s+(?:view|version)/i,
+  /view\s+(?:as\s+)?(?:web)?page/i,
+  /open\s+(?:in|on)\s+browser/i,
+  /email\s+(?:not|doesn't)\s+display\s+(?:correctly|properly)/i,
+  /(?:can't|cannot)\s+(?:see|view|read)\s+(?:this|the)\s+email/i,
+  /view\s+(?:this|the)\s+(?:email|newsletter)\s+(?:in|on)\s+(?:your|a)\s+browser/i,
+  /read\s+online/i,
+
+  // Common adjacent characters/phrases
+  /(?:\||→|&gt;|&bull;|•|\/|\[|\()\s*(?:view|read)(?:\s+(?:in|on|online|web))?\s*(?:browser|web|webpage|online)/i,
+  /(?:view|read)(?:\s+(?:in|on|online|web))?\s*(?:browser|web|webpage|online)\s*(?:\||→|&gt;|&bull;|•|\/|\]|\))/i,
+
+  // Provider-specific patterns
+  /(?:Got\s+this\s+from\s+a\s+friend|Forward|Share)\s*(?:\||→|&gt;|&bull;|•|\/|\[|\()?\s*(?:view|read)(?:\s+(?:in|on|online|web))?\s*(?:browser|web|webpage|online)/i,
+];
+
+// Links whose text or attributes suggest a web version
+const WEB_VERSION_LINK_PATTERNS = [
+  /<a[^>]*href=["']([^"']+)["'][^>]*>(?:[^<]*(?:view|read)[^<]*(?:in|on|online)[^<]*(?:browser|web|webpage|online)[^<]*)<\/a>/i,
+  /<a[^>]*href=["']([^"']+)["'][^>]*>(?:[^<]*(?:web|online)[^<]*(?:view|version)[^<]*)<\/a>/i,
+  /<a[^>]*href=["']([^"']+)["'][^>]*>(?:[^<]*(?:read\s+online)[^<]*)<\/a>/i,
+  /<a[^>]*(?:id|class|data)=["'](?:view|browser|web-version|online|view-online)[^"']*["'][^>]*href=["']([^"']+)["'][^>]*>/i,
+  /<a[^>]*href=["']([^"']+)["'][^>]*>(?:[^<]*(?:email|newsletter)[^<]*(?:not)[^<]*(?:display|view|showing)[^<]*)<\/a>/i,
+];
+
+// Domains that show up in email markup but never host the newsletter
+const NON_USEFUL_DOMAINS = [
+  'w3.org',
+  'w3schools.com',
+  'xmlns.com',
+  'schema.org',
+  'google-analytics.com',
+  'doubleclick.net',
+];
+
+// How far around a "view in browser" phrase to look for its link
+const SEARCH_RADIUS = 300;
+
+/**
+ * Heuristics that work for most providers, used when no platform-specific extractor applies
+ */
+export class GenericWebUrlExtractor implements IWebUrlExtractor {
+  readonly name = 'generic';
+
+  /**
+   * The heuristics apply to any email, without knowing its platform
+   */
+  matches(): PlatformMatch {
+    return 'content';
+  }
+
+  /**
+   * Look for a "view in browser" link, then fall back to the most relevant URL in the email
+   */
+  extract(email: EmailMessage, newsletter: Newsletter): WebUrlExtraction | null {
+    const content = getContent(email);
+
+    return (
+      this.findNearViewInBrowser(content) ??
+      this.findByLinkPattern(content) ??
+      this.findRelevantUrl(content, newsletter)
+    );
+  }
+
+  /**
+   * Find a "view in browser" phrase and take the closest link around it
+   */
+  private findNearViewInBrowser(content: string): WebUrlExtraction | null {
+    for (const pattern of VIEW_IN_BROWSER_PATTERNS) {
+      const match = pattern.exec(content);
+      if (!match) {
+        continue;
+      }
+
+      const startPos = Math.max(0, match.index - SEARCH_RADIUS);
+      const endPos = Math.min(content.length, match.index + match[0].length + SEARCH_RADIUS);
+      const nearbyText = content.substring(startPos, endPos);
+
+      // Look for HTML links first
+      const links = [...nearbyText.matchAll(/<a[^>]*href=["']([^"']+)["'][^>]*>/gi)];
+      if (links.length > 0) {
+        let closestLink = links[0][1];
+        let minDistance = Infinity;
+
+        for (const link of links) {
+          const distance = Math.abs((link.index ?? 0) - (match.index - startPos));
+          if (distance < minDistance) {
+            minDistance = distance;
+            closestLink = link[1];
+          }
+        }
+
+        return { url: closestLink, confidence: 0.6, extractor: this.name };
+      }
+
+      // If no HTML links, look for plain URLs
+      const urls = [...nearbyText.matchAll(/(https?:\/\/[^\s"'<>]+)/g)];
+      if (urls.length > 0) {
+        return { url: urls[0][1], confidence: 0.5, extractor: this.name };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find a link whose text or attributes describe a web version
+   */
+  private findByLinkPattern(content: string): WebUrlExtraction | null {
+    for (const pattern of WEB_VERSION_LINK_PATTERNS) {
+      const match = pattern.exec(content);
+      if (match && match[1]) {
+        return { url: match[1], confidence: 0.5, extractor: this.name };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Fall back to any URL, preferring ones with newsletter-related keywords
+   */
+  private findRelevantUrl(content: string, newsletter: Newsletter): WebUrlExtraction | null {
+    const allUrls = [...content.matchAll(/(https?:\/\/[^\s<>"']+)/g)].map((match) => match[1]);
+    const filteredUrls = allUrls.filter(
+      (url) => !NON_USEFUL_DOMAINS.some((domain) => url.includes(domain)),
+    );
+
+    const keywords = [
+      'newsletter',
+      'browser',
+      'view',
+      'read',
+      'online',
+      'web-version',
+      'campaign',
+      'email',
+      'mail',
+      newsletter.name.toLowerCase().split(' ')[0],
+    ];
+
+    const keywordUrl = filteredUrls.find((url) =>
+      keywords.some((keyword) => url.toLowerCase().includes(keyword)),
+    );
+    if (keywordUrl) {
+      return { url: keywordUrl, confidence: 0.3, extractor: this.name };
+    }
+
+    if (filteredUrls.length > 0) {
+      return { url: filteredUrls[0], confidence: 0.1, extractor: this.name };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,57 @@
+import { EmailMessage } from '../../ports/IMailService';
+import { IWebUrlExtractor, PlatformMatch, WebUrlExtraction } from '../../ports/IWebUrlExtractor';
+import { findLinks, findUrl, getContent, getSenderDomain } from './extractorUtils';
+
+export class GhostWebUrlExtractor implements IWebUrlExtractor {
+  readonly name = 'ghost';
+
+  /**
+   * Check whether the email was sent by a Ghost site
+   */
+  matches(email: EmailMessage): PlatformMatch | null {
+    const content = getContent(email);
+
+    // Ghost's email template puts the "View in browser" link in a view-online cell
+    if (
+      getSenderDomain(email).endsWith('ghost.io') ||
+      /class=["'][^"']*\bview-online\b/i.test(content)
+    ) {
+      return 'sender';
+    }
+
+    return content.includes('ghost.org') || content.includes('.ghost.io/') ? 'content' : null;
+  }
+
+  /**
+   * Prefer the link in Ghost's "View in browser" header cell
+   */
+  extract(email: EmailMessage): WebUrlExtraction | null {
+    const content = getContent(email);
+
+    const viewOnlineMatch =
+      /class=["'][^"']*\bview-online\b[^"']*["'][\s\S]{0,500}?<a\b[^>]*?href=["']([^"']+)["']/i.exec(
+        content,
+      );
+    if (viewOnlineMatch) {
+      return {
+        url: viewOnlineMatch[1].replace(/&amp;/gi, '&'),
+        confidence: 0.95,
+        extractor: this.name,
+      };
+    }
+
+    const viewLink = findLinks(content).find((link) =>
+      /view\s+in\s+(?:your\s+)?browser/i.test(link.text),
+    );
+    if (viewLink) {
+      return { url: viewLink.href, confidence: 0.85, extractor: this.name };
+    }
+
+    const postUrl = findUrl(content, /https:\/\/[\w-]+\.ghost\.io\/[\w-]+\/?/i);
+    if (postUrl) {
+      return { url: postUrl, confidence: 0.7, extractor: this.name };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,68 @@
+import { EmailMessage } from '../../ports/IMailService';
+import { IWebUrlExtractor, PlatformMatch, WebUrlExtraction } from '../../ports/IWebUrlExtractor';
+import {
+  findLinks,
+  findUrl,
+  getContent,
+  getHeader,
+  getSenderDomain,
+  stripQuery,
+} from './extractorUtils';
+
+const MAILCHIMP_SENDER_DOMAINS = ['mcsv.net', 'mcdlv.net', 'rsgsv.net', 'mailchimpapp.net'];
+
+export class MailchimpWebUrlExtractor implements IWebUrlExtractor {
+  readonly name = 'mailchimp';
+
+  /**
+   * Check whether the email was sent through Mailchimp
+   */
+  matches(email: EmailMessage): PlatformMatch | null {
+    const senderDomain = getSenderDomain(email);
+    const content = getContent(email);
+
+    if (
+      MAILCHIMP_SENDER_DOMAINS.some((domain) => senderDomain.endsWith(domain)) ||
+      /mailchimp/i.test(getHeader(email, 'x-mailer')) ||
+      getHeader(email, 'list-unsubscribe').includes('list-manage.com')
+    ) {
+      return 'sender';
+    }
+
+    return content.includes('list-manage.com') ||
+      content.includes('campaign-archive.com') ||
+      content.includes('mailchi.mp')
+      ? 'content'
+      : null;
+  }
+
+  /**
+   * Prefer the campaign archive page, without the subscriber's `e` parameter
+   */
+  extract(email: EmailMessage): WebUrlExtraction | null {
+    const content = getContent(email);
+
+    const archiveUrl = findUrl(
+      content,
+      /https:\/\/(?:[\w-]+\.)?campaign-archive\.com\/\?[^\s"'<>]+/i,
+    );
+    if (archiveUrl) {
+      return { url: stripQuery(archiveUrl, ['u', 'id']), confidence: 0.95, extractor: this.name };
+    }
+
+    const shortUrl = findUrl(content, /https:\/\/mailchi\.mp\/[\w./-]+/i);
+    if (shortUrl) {
+      return { url: shortUrl, confidence: 0.9, extractor: this.name };
+    }
+
+    // Otherwise the "view in browser" link goes through click tracking
+    const viewLink = findLinks(content).find((link) =>
+      /view\s+(?:this\s+email\s+)?in\s+(?:your\s+)?browser/i.test(link.text),
+    );
+    if (viewLink) {
+      return { url: viewLink.href, confidence: 0.6, extractor: this.name };
+    }
+
+    return null;
+  }
+}
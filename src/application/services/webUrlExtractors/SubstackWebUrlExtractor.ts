@@ -0,0 +1,70 @@
+import { EmailMessage } from '../../ports/IMailService';
+import { IWebUrlExtractor, PlatformMatch, WebUrlExtraction } from '../../ports/IWebUrlExtractor';
+import {
+  findLinks,
+  findUrl,
+  getContent,
+  getHeader,
+  getSenderDomain,
+  stripQuery,
+} from './extractorUtils';
+
+export class SubstackWebUrlExtractor implements IWebUrlExtractor {
+  readonly name = 'substack';
+
+  /**
+   * Check whether the email was sent through Substack
+   */
+  matches(email: EmailMessage): PlatformMatch | null {
+    if (
+      getSenderDomain(email).endsWith('substack.com') ||
+      /substack/i.test(getHeader(email, 'list-unsubscribe'))
+    ) {
+      return 'sender';
+    }
+
+    return getContent(email).includes('substack.com/') ? 'content' : null;
+  }
+
+  /**
+   * Prefer the public post URL; Substack links carry a subscriber token, so queries are dropped
+   */
+  extract(email: EmailMessage): WebUrlExtraction | null {
+    const content = getContent(email);
+
+    const postUrl =
+      findUrl(content, /https:\/\/[\w-]+\.substack\.com\/p\/[\w-]+/i) ??
+      findUrl(content, /https:\/\/open\.substack\.com\/pub\/[\w-]+\/p\/[\w-]+/i);
+    if (postUrl) {
+      return { url: postUrl, confidence: 0.95, extractor: this.name };
+    }
+
+    const links = findLinks(content);
+
+    // Publications on a custom domain still use /p/<slug> for posts
+    const customDomainPost = links.find((link) => {
+      try {
+        const { hostname, pathname } = new URL(link.href);
+        return !hostname.endsWith('substack.com') && /^\/p\/[\w-]+\/?$/.test(pathname);
+      } catch {
+        return false;
+      }
+    });
+    if (customDomainPost) {
+      return { url: stripQuery(customDomainPost.href), confidence: 0.85, extractor: this.name };
+    }
+
+    const appLink = links.find((link) =>
+      /^https:\/\/substack\.com\/app-link\/post\?/i.test(link.href),
+    );
+    if (appLink) {
+      return {
+        url: stripQuery(appLink.href, ['publication_id', 'post_id']),
+        confidence: 0.6,
+        extractor: this.name,
+      };
+    }
+
+    return null;
+  }
+}
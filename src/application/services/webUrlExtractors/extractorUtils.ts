@@ -0,0 +1,79 @@
+import { EmailMessage } from '../../ports/IMailService';
+
+export interface EmailLink {
+  href: string;
+  text: string;
+  /** Position of the link in the content, for proximity checks */
+  index: number;
+}
+
+/**
+ * Get the domain of the sender address, lower-cased
+ */
+export function getSenderDomain(email: EmailMessage): string {
+  const match = email.from.match(/@([\w.-]+)>?\s*$/);
+  return match ? match[1].toLowerCase() : '';
+}
+
+/**
+ * Get a header value, or an empty string if the email doesn't have it
+ */
+export function getHeader(email: EmailMessage, name: string): string {
+  return email.headers?.[name.toLowerCase()] || '';
+}
+
+/**
+ * Get the HTML part if there is one, otherwise the plain-text body
+ */
+export function getContent(email: EmailMessage): string {
+  return email.html || email.body;
+}
+
+/**
+ * List the anchors in an HTML document with their visible text
+ */
+export function findLinks(html: string): EmailLink[] {
+  const linkRegex = /<a\b[^>]*?href=["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi;
+
+  return [...html.matchAll(linkRegex)].map((match) => ({
+    href: decodeHref(match[1]),
+    text: match[2]
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/&nbsp;/gi, ' ')
+      .replace(/\s+/g, ' ')
+      .trim(),
+    index: match.index ?? 0,
+  }));
+}
+
+/**
+ * Find the first URL in the content matching a pattern
+ */
+export function findUrl(content: string, pattern: RegExp): string | null {
+  const match = pattern.exec(content);
+  return match ? decodeHref(match[0]) : null;
+}
+
+/**
+ * Remove query parameters that identify the subscriber or campaign
+ */
+export function stripQuery(url: string, keep: string[] = []): string {
+  try {
+    const parsed = new URL(url);
+    for (const key of [...parsed.searchParams.keys()]) {
+      if (!keep.includes(key)) {
+        parsed.searchParams.delete(key);
+      }
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Undo the HTML escaping found in href attributes
+ */
+function decodeHref(href: string): string {
+  return href.replace(/&amp;/gi, '&').trim();
+}
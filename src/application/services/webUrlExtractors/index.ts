@@ -0,0 +1,26 @@
+import { IWebUrlExtractor } from '../../ports/IWebUrlExtractor';
+import { BeehiivWebUrlExtractor } from './BeehiivWebUrlExtractor';
+import { SubstackWebUrlExtractor } from './SubstackWebUrlExtractor';
+import { MailchimpWebUrlExtractor } from './MailchimpWebUrlExtractor';
+import { ConvertKitWebUrlExtractor } from './ConvertKitWebUrlExtractor';
+import { GhostWebUrlExtractor } from './GhostWebUrlExtractor';
+
+export * from './BeehiivWebUrlExtractor';
+export * from './SubstackWebUrlExtractor';
+export * from './MailchimpWebUrlExtractor';
+export * from './ConvertKitWebUrlExtractor';
+export * from './GhostWebUrlExtractor';
+export * from './GenericWebUrlExtractor';
+
+/**
+ * Platform-specific extractors, tried before the generic heuristics
+ */
+export function createPlatformWebUrlExtractors(): IWebUrlExtractor[] {
+  return [
+    new BeehiivWebUrlExtractor(),
+    new SubstackWebUrlExtractor(),
+    new MailchimpWebUrlExtractor(),
+    new ConvertKitWebUrlExtractor(),
+    new GhostWebUrlExtractor(),
+  ];
+}
@@ -0,0 +1,94 @@
+import { INewsletterRepository } from '../ports/INewsletterRepository';
+import { IIssueRepository } from '../ports/IIssueRepository';
+import { IGuildSubscriptionRepository } from '../ports/IGuildSubscriptionRepository';
+import { Newsletter } from '../../domain/entities/Newsletter';
+
+export interface NewsletterCatalogPage {
+  newsletters: Array<{
+    newsletter: Newsletter;
+    recentIssues: number;
+    subscribed: boolean;
+  }>;
+  /** Zero-based, clamped to the last page */
+  page: number;
+  totalPages: number;
+  total: number;
+  category?: string;
+  recentDays: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class BrowseNewslettersUseCase {
+  constructor(
+    private readonly newsletterRepository: INewsletterRepository,
+    private readonly issueRepository: IIssueRepository,
+    private readonly guildSubscriptionRepository: IGuildSubscriptionRepository,
+  ) {}
+
+  /**
+   * Get one page of the newsletter catalog, sorted by name
+   * @param channelId Newsletters this channel already receives are flagged as subscribed
+   * @param category Only list newsletters in this category (case-insensitive)
+   */
+  async execute(
+    params: { guildId?: string; channelId?: string; category?: string; page?: number },
+    pageSize: number = 5,
+    recentDays: number = 30,
+  ): Promise<NewsletterCatalogPage> {
+    const { guildId, channelId, category } = params;
+
+    const newsletters = (await this.newsletterRepository.getAll())
+      .filter(
+        (newsletter) =>
+          !category || newsletter.category?.toLowerCase() === category.trim().toLowerCase(),
+      )
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    const totalPages = Math.max(1, Math.ceil(newsletters.length / pageSize));
+    const page = Math.min(Math.max(params.page ?? 0, 0), totalPages - 1);
+    const pageNewsletters = newsletters.slice(page * pageSize, (page + 1) * pageSize);
+
+    const recentCounts = await this.issueRepository.countByNewsletterSince(
+      new Date(Date.now() - recentDays * DAY_MS),
+    );
+
+    const subscribedIds = new Set<string>();
+    if (guildId && channelId) {
+      const subscriptions = await this.guildSubscriptionRepository.getByGuildId(guildId);
+      subscriptions
+        .filter((subscription) => subscription.channelId === channelId && subscription.active)
+        .forEach((subscription) => subscribedIds.add(subscription.newsletterId));
+    }
+
+    return {
+      newsletters: pageNewsletters.map((newsletter) => ({
+        newsletter,
+        recentIssues: recentCounts.get(newsletter.id) ?? 0,
+        subscribed: subscribedIds.has(newsletter.id),
+      })),
+      page,
+      totalPages,
+      total: newsletters.length,
+      // Use the catalog's spelling of the category rather than what was typed
+      category: category ? (newsletters[0]?.category ?? category.trim()) : undefined,
+      recentDays,
+    };
+  }
+
+  /**
+   * Get the distinct categories in the catalog, sorted by name
+   */
+  async getCategories(): Promise<string[]> {
+    const newsletters = await this.newsletterRepository.getAll();
+    const categories = new Map<string, string>();
+
+    for (const { category } of newsletters) {
+      if (category && !categories.has(category.toLowerCase())) {
+        categories.set(category.toLowerCase(), category);
+      }
+    }
+
+    return [...categories.values()].sort((a, b) => a.localeCompare(b));
+  }
+}
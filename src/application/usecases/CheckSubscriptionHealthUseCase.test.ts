@@ -0,0 +1,106 @@
+import { CheckSubscriptionHealthUseCase } from './CheckSubscriptionHealthUseCase';
+import type { DiscordClient } from '../../infrastructure/discord/DiscordClient';
+import { IGuildSubscriptionRepository } from '../ports/IGuildSubscriptionRepository';
+import { INewsletterRepository } from '../ports/INewsletterRepository';
+import { GuildSubscription } from '../../domain/entities/GuildSubscription';
+import { Newsletter } from '../../domain/entities/Newsletter';
+
+const GUILD_ID = '123456789012345678';
+const GONE_CHANNEL_ID = '234567890123456789';
+const FLAKY_CHANNEL_ID = '345678901234567890';
+const HEALTHY_CHANNEL_ID = '456789012345678901';
+
+const newsletter = Newsletter.create({
+  name: 'Weekly Digest',
+  url: 'https://example.com',
+  senderEmail: 'digest@example.com',
+});
+
+function subscription(channelId: string) {
+  return GuildSubscription.create({ guildId: GUILD_ID, channelId, newsletterId: newsletter.id });
+}
+
+/**
+ * A use case whose fake Discord client knows one deleted channel, fails to look up another
+ * and finds every other channel healthy
+ */
+function setup(subscriptions: GuildSubscription[]) {
+  const getMissingChannelPermissions = jest.fn(async (_guildId: string, channelId: string) => {
+    if (channelId === GONE_CHANNEL_ID) {
+      return null;
+    }
+    if (channelId === FLAKY_CHANNEL_ID) {
+      throw new Error('Service Unavailable');
+    }
+    return [];
+  });
+
+  const useCase = new CheckSubscriptionHealthUseCase(
+    {
+      getByGuildId: async () => subscriptions,
+      getById: async (id: string) => subscriptions.find((sub) => sub.id === id) ?? null,
+    } as unknown as IGuildSubscriptionRepository,
+    {
+      getAll: async () => [newsletter],
+      getById: async () => newsletter,
+    } as unknown as INewsletterRepository,
+    {
+      getMissingChannelPermissions,
+      grantChannelPermissions: jest.fn(),
+    } as unknown as DiscordClient,
+  );
+
+  return { useCase, getMissingChannelPermissions };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('CheckSubscriptionHealthUseCase', () => {
+  it('offers to remove subscriptions whose channel is gone', async () => {
+    const gone = subscription(GONE_CHANNEL_ID);
+    const { useCase } = setup([gone, subscription(HEALTHY_CHANNEL_ID)]);
+
+    await expect(useCase.execute(GUILD_ID)).resolves.toEqual([
+      expect.objectContaining({
+        subscription: gone,
+        kind: 'missing_channel',
+        fixable: false,
+        removable: true,
+      }),
+    ]);
+  });
+
+  it('reports a failed lookup as an error that cannot be removed or fixed', async () => {
+    const flaky = subscription(FLAKY_CHANNEL_ID);
+    const { useCase } = setup([flaky]);
+
+    await expect(useCase.execute(GUILD_ID)).resolves.toEqual([
+      expect.objectContaining({
+        kind: 'check_failed',
+        error: 'Service Unavailable',
+        fixable: false,
+        removable: false,
+      }),
+    ]);
+    await expect(useCase.fix(flaky.id, GUILD_ID)).rejects.toThrow('could not be checked');
+  });
+
+  it('keeps checking the other subscriptions after a failed lookup', async () => {
+    const { useCase, getMissingChannelPermissions } = setup([
+      subscription(FLAKY_CHANNEL_ID),
+      subscription(GONE_CHANNEL_ID),
+      subscription(HEALTHY_CHANNEL_ID),
+    ]);
+
+    const problems = await useCase.execute(GUILD_ID);
+
+    expect(problems.map((problem) => problem.kind)).toEqual(['check_failed', 'missing_channel']);
+    expect(getMissingChannelPermissions).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,162 @@
+import { IGuildSubscriptionRepository } from '../ports/IGuildSubscriptionRepository';
+import { INewsletterRepository } from '../ports/INewsletterRepository';
+import { GuildSubscription } from '../../domain/entities/GuildSubscription';
+import { DiscordClient } from '../../infrastructure/discord/DiscordClient';
+
+export type SubscriptionProblemKind =
+  'orphaned_newsletter' | 'missing_channel' | 'missing_permissions' | 'check_failed';
+
+export interface SubscriptionProblem {
+  subscription: GuildSubscription;
+  kind: SubscriptionProblemKind;
+  /** Unset when the newsletter no longer exists */
+  newsletterName?: string;
+  /** Discord permission names, e.g. `SendMessages`; only set for missing permissions */
+  missingPermissions: string[];
+  /** Why Discord couldn't be asked; only set when the check failed */
+  error?: string;
+  /** Missing permissions can be granted */
+  fixable: boolean;
+  /** False when the check failed, since the subscription may well be fine */
+  removable: boolean;
+}
+
+export class CheckSubscriptionHealthUseCase {
+  constructor(
+    private readonly guildSubscriptionRepository: IGuildSubscriptionRepository,
+    private readonly newsletterRepository: INewsletterRepository,
+    private readonly discordClient: DiscordClient,
+  ) {}
+
+  /**
+   * Check the active subscriptions of a guild, or of every guild, for newsletters that
+   * no longer exist, channels that are gone and channels the bot can't post in
+   */
+  async execute(guildId?: string): Promise<SubscriptionProblem[]> {
+    const subscriptions = guildId
+      ? await this.guildSubscriptionRepository.getByGuildId(guildId)
+      : await this.guildSubscriptionRepository.getAll();
+    const newsletters = new Map(
+      (await this.newsletterRepository.getAll()).map((newsletter) => [newsletter.id, newsletter]),
+    );
+
+    const problems: SubscriptionProblem[] = [];
+    for (const subscription of subscriptions.filter((sub) => sub.active)) {
+      const problem = await this.checkSubscription(
+        subscription,
+        newsletters.get(subscription.newsletterId)?.name,
+      );
+      if (problem) {
+        problems.push(problem);
+      }
+    }
+
+    return problems;
+  }
+
+  /**
+   * Grant the bot the permissions it is missing in a subscription's channel
+   * @param guildId Only fix subscriptions of this guild
+   * @returns false if the subscription has no problem (any more)
+   */
+  async fix(subscriptionId: string, guildId?: string): Promise<boolean> {
+    const problem = await this.getProblem(subscriptionId, guildId);
+    if (!problem) {
+      return false;
+    }
+
+    if (problem.kind === 'check_failed') {
+      throw new Error(`The subscription could not be checked: ${problem.error}`);
+    }
+
+    if (!problem.fixable) {
+      throw new Error(
+        'This problem cannot be fixed automatically; remove the subscription instead',
+      );
+    }
+
+    await this.discordClient.grantChannelPermissions(
+      problem.subscription.guildId,
+      problem.subscription.channelId,
+    );
+    return true;
+  }
+
+  /**
+   * Delete a subscription
+   * @param guildId Only remove subscriptions of this guild
+   * @returns false if there was no such subscription
+   */
+  async remove(subscriptionId: string, guildId?: string): Promise<boolean> {
+    const subscription = await this.guildSubscriptionRepository.getById(subscriptionId);
+    if (!subscription || (guildId && subscription.guildId !== guildId)) {
+      return false;
+    }
+
+    await this.guildSubscriptionRepository.delete(subscription.id);
+    return true;
+  }
+
+  /**
+   * Re-check one subscription
+   */
+  private async getProblem(
+    subscriptionId: string,
+    guildId?: string,
+  ): Promise<SubscriptionProblem | null> {
+    const subscription = await this.guildSubscriptionRepository.getById(subscriptionId);
+    if (!subscription || (guildId && subscription.guildId !== guildId)) {
+      return null;
+    }
+
+    const newsletter = await this.newsletterRepository.getById(subscription.newsletterId);
+    return this.checkSubscription(subscription, newsletter?.name);
+  }
+
+  /**
+   * Find the most serious problem with a subscription, if any. A failed Discord lookup is
+   * reported as such, without stopping the other subscriptions from being checked.
+   */
+  private async checkSubscription(
+    subscription: GuildSubscription,
+    newsletterName: string | undefined,
+  ): Promise<SubscriptionProblem | null> {
+    const problem = {
+      subscription,
+      newsletterName,
+      missingPermissions: [],
+      fixable: false,
+      removable: true,
+    };
+
+    if (!newsletterName) {
+      return { ...problem, kind: 'orphaned_newsletter' };
+    }
+
+    let missingPermissions: string[] | null;
+    try {
+      missingPermissions = await this.discordClient.getMissingChannelPermissions(
+        subscription.guildId,
+        subscription.channelId,
+      );
+    } catch (error) {
+      console.error(`Error checking subscription ${subscription.id}:`, error);
+      return {
+        ...problem,
+        kind: 'check_failed',
+        error: error instanceof Error ? error.message : String(error),
+        removable: false,
+      };
+    }
+
+    if (!missingPermissions) {
+      return { ...problem, kind: 'missing_channel' };
+    }
+
+    if (missingPermissions.length > 0) {
+      return { ...problem, kind: 'missing_permissions', missingPermissions, fixable: true };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,484 @@
+import { DispatchIssueUseCase, RetryPolicy } from './DispatchIssueUseCase';
+import type { DiscordClient } from '../../infrastructure/discord/DiscordClient';
+import type { SubscriptionCleanupService } from '../services/SubscriptionCleanupService';
+import { IIssueRepository } from '../ports/IIssueRepository';
+import { IGuildSubscriptionRepository } from '../ports/IGuildSubscriptionRepository';
+import { INewsletterRepository } from '../ports/INewsletterRepository';
+import { IDeliveryRepository } from '../ports/IDeliveryRepository';
+import { IGuildSettingsRepository } from '../ports/IGuildSettingsRepository';
+import { Delivery } from '../../domain/entities/Delivery';
+import { GuildSettings } from '../../domain/entities/GuildSettings';
+import { GuildSubscription } from '../../domain/entities/GuildSubscription';
+import { Issue } from '../../domain/entities/Issue';
+
+const GUILD_ID = '123456789012345678';
+const CHANNEL_ID = '234567890123456789';
+const ROLE_ID = '345678901234567890';
+
+const RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 60_000,
+  maxDelayMs: 3_600_000,
+  channelFailureThreshold: 3,
+};
+
+/**
+ * A use case wired to in-memory repositories and a fake Discord client that records each post
+ * @param timezone The guild's /settings timezone, if it has one
+ */
+function setup(
+  subscription: GuildSubscription,
+  issues: Issue[],
+  timezone?: string,
+  retryPolicy: Partial<RetryPolicy> = {},
+) {
+  const deliveries = new Map<string, Delivery>();
+  let posts = 0;
+  const postToChannel = jest.fn<Promise<string>, Parameters<DiscordClient['postToChannel']>>(
+    async () => `message-${++posts}`,
+  );
+
+  const deliveryRepository: IDeliveryRepository = {
+    getById: async (id) => deliveries.get(id) ?? null,
+    getByIssueId: async (issueId) =>
+      [...deliveries.values()].filter((delivery) => delivery.issueId === issueId),
+    getByIssueAndChannel: async (issueId, channelId) =>
+      [...deliveries.values()].find(
+        (delivery) => delivery.issueId === issueId && delivery.channelId === channelId,
+      ) ?? null,
+    getByStatus: async (status) =>
+      [...deliveries.values()].filter((delivery) => delivery.status === status),
+    getDue: async (now) => [...deliveries.values()].filter((delivery) => delivery.isDue(now)),
+    enqueue: async (delivery) => {
+      if (
+        [...deliveries.values()].some(
+          (existing) =>
+            existing.issueId === delivery.issueId && existing.channelId === delivery.channelId,
+        )
+      ) {
+        return false;
+      }
+      deliveries.set(delivery.id, delivery);
+      return true;
+    },
+    save: async (delivery) => {
+      deliveries.set(delivery.id, delivery);
+    },
+  };
+
+  const useCase = new DispatchIssueUseCase(
+    {
+      getById: async (id: string) => issues.find((issue) => issue.id === id) ?? null,
+      getByNewsletterId: async (newsletterId: string) =>
+        issues.filter((issue) => issue.newsletterId === newsletterId),
+      getUnprocessed: async () => issues.filter((issue) => !issue.processed),
+      markAsProcessed: async () => {},
+    } as unknown as IIssueRepository,
+    {
+      getById: async (id: string) => (id === subscription.id ? subscription : null),
+      getActiveByNewsletterId: async (newsletterId: string) =>
+        subscription.active && subscription.newsletterId === newsletterId ? [subscription] : [],
+    } as unknown as IGuildSubscriptionRepository,
+    { getById: async () => null } as unknown as INewsletterRepository,
+    deliveryRepository,
+    {
+      getByGuildId: async (guildId: string) =>
+        timezone ? GuildSettings.create({ guildId, timezone }) : null,
+    } as unknown as IGuildSettingsRepository,
+    { deactivateChannel: jest.fn() } as unknown as SubscriptionCleanupService,
+    {
+      postToChannel,
+      isChannelUnavailableError: () => false,
+    } as unknown as DiscordClient,
+    { ...RETRY_POLICY, ...retryPolicy },
+    'UTC',
+  );
+
+  return { useCase, deliveries, postToChannel };
+}
+
+function subscription(params: Partial<Parameters<typeof GuildSubscription.create>[0]> = {}) {
+  return GuildSubscription.create({
+    guildId: GUILD_ID,
+    channelId: CHANNEL_ID,
+    newsletterId: 'newsletter-1',
+    mention: ROLE_ID,
+    ...params,
+  });
+}
+
+function issue(title: string, receivedAt: string) {
+  return Issue.create({
+    newsletterId: 'newsletter-1',
+    title,
+    webUrl: `https://example.com/${encodeURIComponent(title)}`,
+    receivedAt: new Date(receivedAt),
+  });
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('DispatchIssueUseCase.backfillSubscription', () => {
+  const issues = [
+    issue('March', '2026-03-01T09:00:00Z'),
+    issue('January', '2026-01-01T09:00:00Z'),
+    issue('April', '2026-04-01T09:00:00Z'),
+    issue('February', '2026-02-01T09:00:00Z'),
+  ];
+
+  it('posts the most recent issues oldest first', async () => {
+    const sub = subscription();
+    const { useCase, postToChannel } = setup(sub, issues);
+
+    const result = await useCase.backfillSubscription(sub.id, 3);
+
+    expect(result).toEqual({ queued: 3, sent: 3 });
+    expect(postToChannel.mock.calls.map(([options]) => options.title)).toEqual([
+      'February',
+      'March',
+      'April',
+    ]);
+  });
+
+  it('posts without pinging the subscription role', async () => {
+    const sub = subscription();
+    const { useCase, postToChannel } = setup(sub, issues);
+
+    await useCase.backfillSubscription(sub.id, 2);
+
+    for (const [options] of postToChannel.mock.calls) {
+      expect(options.content).toBeUndefined();
+      expect(options.allowedMentions).toEqual({ parse: [] });
+    }
+  });
+
+  it('skips issues the channel already received', async () => {
+    const sub = subscription();
+    const { useCase, postToChannel } = setup(sub, issues);
+
+    await useCase.backfillSubscription(sub.id, 2);
+    const result = await useCase.backfillSubscription(sub.id, 3);
+
+    expect(result).toEqual({ queued: 1, sent: 1 });
+    expect(postToChannel.mock.calls.map(([options]) => options.title)).toEqual([
+      'March',
+      'April',
+      'February',
+    ]);
+  });
+
+  it('sends digest subscriptions one digest in date order, without a ping', async () => {
+    const sub = subscription({ deliveryMode: 'daily' });
+    const { useCase, postToChannel } = setup(sub, issues);
+
+    await useCase.backfillSubscription(sub.id, 4);
+
+    expect(postToChannel).toHaveBeenCalledTimes(1);
+    const [options] = postToChannel.mock.calls[0];
+    expect(options.fields?.map((field) => field.name)).toEqual([
+      'January',
+      'February',
+      'March',
+      'April',
+    ]);
+    expect(options.allowedMentions).toEqual({ parse: [] });
+  });
+});
+
+describe('DispatchIssueUseCase digests', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('holds digest issues until the send time, then posts them as one message', async () => {
+    jest.useFakeTimers({ now: new Date('2026-05-04T07:00:00Z') });
+    const sub = subscription({ deliveryMode: 'daily', digestTime: '09:00' });
+    const issues = [
+      issue('Second', '2026-05-04T06:30:00Z'),
+      issue('First', '2026-05-04T06:00:00Z'),
+    ];
+    const { useCase, deliveries, postToChannel } = setup(sub, issues);
+
+    await useCase.dispatchUnprocessedIssues();
+
+    expect(postToChannel).not.toHaveBeenCalled();
+    expect([...deliveries.values()].map((delivery) => delivery.nextAttemptAt)).toEqual([
+      new Date('2026-05-04T09:00:00Z'),
+      new Date('2026-05-04T09:00:00Z'),
+    ]);
+
+    jest.setSystemTime(new Date('2026-05-04T09:00:00Z'));
+    const result = await useCase.deliverPending();
+
+    expect(result).toMatchObject({ attempted: 2, sent: 2 });
+    expect(postToChannel).toHaveBeenCalledTimes(1);
+    const [options] = postToChannel.mock.calls[0];
+    expect(options.fields?.map((field) => field.name)).toEqual(['First', 'Second']);
+    expect(options.content).toBe(`<@&${ROLE_ID}>`);
+  });
+
+  it('posts immediate subscriptions right away', async () => {
+    const sub = subscription();
+    const { useCase, postToChannel } = setup(sub, [issue('Now', '2026-05-04T06:00:00Z')]);
+
+    const result = await useCase.dispatchUnprocessedIssues();
+
+    expect(result).toMatchObject({ totalIssues: 1, successfulIssues: 1, totalChannels: 1 });
+    expect(postToChannel.mock.calls[0][0]).toMatchObject({
+      title: 'Now',
+      content: `<@&${ROLE_ID}>`,
+    });
+  });
+});
+
+describe('DispatchIssueUseCase guild timezones', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("schedules digests in the guild's timezone", async () => {
+    jest.useFakeTimers({ now: new Date('2026-05-04T05:00:00Z') });
+    const sub = subscription({ deliveryMode: 'daily', digestTime: '09:00' });
+    const { useCase, deliveries } = setup(
+      sub,
+      [issue('News', '2026-05-04T04:00:00Z')],
+      'America/New_York',
+    );
+
+    await useCase.dispatchUnprocessedIssues();
+
+    expect([...deliveries.values()][0].nextAttemptAt).toEqual(new Date('2026-05-04T13:00:00Z'));
+  });
+
+  it('falls back to the default timezone for guilds without settings', async () => {
+    jest.useFakeTimers({ now: new Date('2026-05-04T05:00:00Z') });
+    const sub = subscription({ deliveryMode: 'daily', digestTime: '09:00' });
+    const { useCase, deliveries } = setup(sub, [issue('News', '2026-05-04T04:00:00Z')]);
+
+    await useCase.dispatchUnprocessedIssues();
+
+    expect([...deliveries.values()][0].nextAttemptAt).toEqual(new Date('2026-05-04T09:00:00Z'));
+  });
+
+  it('shows when the issue was sent as a Discord timestamp', async () => {
+    const sub = subscription();
+    const { useCase, postToChannel } = setup(sub, [issue('News', '2026-05-04T04:00:00Z')]);
+
+    await useCase.dispatchUnprocessedIssues();
+
+    const timestamp = Date.parse('2026-05-04T04:00:00Z') / 1000;
+    expect(postToChannel.mock.calls[0][0].description).toContain(`<t:${timestamp}:f>`);
+  });
+});
+
+describe('DispatchIssueUseCase retries', () => {
+  const start = new Date('2026-05-04T12:00:00Z');
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: start });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  /**
+   * Advance the clock to a delivery's next attempt and drain the outbox
+   */
+  async function retryAt(useCase: DispatchIssueUseCase, delivery: Delivery): Promise<void> {
+    jest.setSystemTime(delivery.nextAttemptAt);
+    await useCase.deliverPending();
+  }
+
+  it('records a failed post with its error and retries it with exponential backoff', async () => {
+    const sub = subscription();
+    const { useCase, deliveries, postToChannel } = setup(sub, [
+      issue('News', '2026-05-04T11:00:00Z'),
+    ]);
+    postToChannel.mockRejectedValueOnce(new Error('Discord is down'));
+    postToChannel.mockRejectedValueOnce(new Error('Still down'));
+
+    await useCase.dispatchUnprocessedIssues();
+    const [id] = deliveries.keys();
+
+    expect(deliveries.get(id)).toMatchObject({
+      status: 'failed',
+      attempts: 1,
+      lastError: 'Discord is down',
+      nextAttemptAt: new Date(start.getTime() + 60_000),
+    });
+
+    // Not due yet
+    await useCase.deliverPending();
+    expect(postToChannel).toHaveBeenCalledTimes(1);
+
+    await retryAt(useCase, deliveries.get(id)!);
+    expect(deliveries.get(id)).toMatchObject({
+      status: 'failed',
+      attempts: 2,
+      lastError: 'Still down',
+      nextAttemptAt: new Date(start.getTime() + 60_000 + 120_000),
+    });
+
+    await retryAt(useCase, deliveries.get(id)!);
+    expect(deliveries.get(id)).toMatchObject({ status: 'sent', attempts: 3 });
+  });
+
+  it('caps the delay between attempts', async () => {
+    const sub = subscription();
+    const { useCase, deliveries, postToChannel } = setup(
+      sub,
+      [issue('News', '2026-05-04T11:00:00Z')],
+      undefined,
+      { maxAttempts: 10, maxDelayMs: 150_000 },
+    );
+    postToChannel.mockRejectedValue(new Error('Discord is down'));
+
+    await useCase.dispatchUnprocessedIssues();
+    const [id] = deliveries.keys();
+    const delays: number[] = [];
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const before = Date.now();
+      const delivery = deliveries.get(id)!;
+      delays.push(delivery.nextAttemptAt.getTime() - before);
+      await retryAt(useCase, delivery);
+    }
+
+    expect(delays).toEqual([60_000, 120_000, 150_000]);
+  });
+
+  it('gives up after the last attempt and keeps the delivery as a dead letter', async () => {
+    const sub = subscription();
+    const { useCase, deliveries, postToChannel } = setup(sub, [
+      issue('News', '2026-05-04T11:00:00Z'),
+    ]);
+    postToChannel.mockRejectedValue(new Error('Missing Permissions'));
+
+    await useCase.dispatchUnprocessedIssues();
+    const [id] = deliveries.keys();
+    await retryAt(useCase, deliveries.get(id)!);
+    await retryAt(useCase, deliveries.get(id)!);
+
+    expect(deliveries.get(id)).toMatchObject({
+      status: 'dead',
+      attempts: 3,
+      lastError: 'Missing Permissions',
+    });
+    expect((await useCase.getDeadLetters()).map((delivery) => delivery.id)).toEqual([id]);
+
+    // Dead letters are not retried on later runs
+    jest.setSystemTime(new Date(start.getTime() + 86_400_000));
+    await useCase.deliverPending();
+    expect(postToChannel).toHaveBeenCalledTimes(3);
+  });
+
+  it('requeues a dead letter with a fresh attempt budget', async () => {
+    const sub = subscription();
+    const { useCase, deliveries, postToChannel } = setup(
+      sub,
+      [issue('News', '2026-05-04T11:00:00Z')],
+      undefined,
+      { maxAttempts: 1 },
+    );
+    postToChannel.mockRejectedValueOnce(new Error('Discord is down'));
+
+    await useCase.dispatchUnprocessedIssues();
+    const [id] = deliveries.keys();
+    expect(deliveries.get(id)!.status).toBe('dead');
+
+    await expect(useCase.requeueDeadLetter(id)).resolves.toMatchObject({
+      status: 'pending',
+      attempts: 0,
+    });
+    await useCase.deliverPending();
+
+    expect(deliveries.get(id)).toMatchObject({ status: 'sent', attempts: 1 });
+    await expect(useCase.requeueDeadLetter(id)).rejects.toThrow('is sent, not dead');
+  });
+
+  it('never posts a sent delivery again', async () => {
+    const sub = subscription();
+    const news = issue('News', '2026-05-04T11:00:00Z');
+    const { useCase, postToChannel } = setup(sub, [news]);
+
+    await useCase.dispatchUnprocessedIssues();
+    await useCase.dispatchIssue(news.id);
+    await useCase.deliverPending();
+
+    expect(postToChannel).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('DispatchIssueUseCase paused subscriptions', () => {
+  it('does not queue issues that arrive during a pause', async () => {
+    const sub = subscription({ paused: true });
+    const { useCase, deliveries, postToChannel } = setup(sub, [
+      issue('While paused', '2026-05-04T06:00:00Z'),
+    ]);
+
+    await expect(useCase.dispatchUnprocessedIssues()).resolves.toMatchObject({
+      successfulIssues: 1,
+      totalChannels: 0,
+    });
+    expect(deliveries.size).toBe(0);
+    expect(postToChannel).not.toHaveBeenCalled();
+  });
+
+  it('holds deliveries queued before the pause instead of giving up on them', async () => {
+    const sub = subscription({ paused: true });
+    const queued = issue('Before the pause', '2026-05-04T06:00:00Z');
+    const { useCase, deliveries, postToChannel } = setup(sub, [queued]);
+    const delivery = Delivery.create({
+      issueId: queued.id,
+      subscriptionId: sub.id,
+      guildId: GUILD_ID,
+      channelId: CHANNEL_ID,
+    });
+    deliveries.set(delivery.id, delivery);
+
+    await expect(useCase.deliverPending()).resolves.toMatchObject({ attempted: 0, dead: 0 });
+    expect(postToChannel).not.toHaveBeenCalled();
+    expect(deliveries.get(delivery.id)).toMatchObject({ status: 'pending', attempts: 0 });
+  });
+});
+
+describe('DispatchIssueUseCase overlapping runs', () => {
+  it('reports deliveries another run is still draining as deferred, not sent', async () => {
+    const sub = subscription();
+    const first = issue('First', '2026-05-01T09:00:00Z');
+    const second = issue('Second', '2026-05-02T09:00:00Z');
+    const { useCase, postToChannel } = setup(sub, [first, second]);
+
+    let release = () => {};
+    postToChannel.mockImplementationOnce(
+      () =>
+        new Promise((resolve) => {
+          release = () => resolve('message-first');
+        }),
+    );
+
+    const running = useCase.dispatchIssue(first.id);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    await expect(useCase.dispatchIssue(second.id)).resolves.toMatchObject({
+      success: false,
+      channelsDispatched: 0,
+      deferred: 1,
+    });
+
+    release();
+    await expect(running).resolves.toMatchObject({ success: true, channelsDispatched: 1 });
+
+    // The deferred delivery is still due and goes out with the next drain
+    await expect(useCase.deliverPending()).resolves.toMatchObject({ sent: 1, deferred: 0 });
+    expect(postToChannel).toHaveBeenCalledTimes(2);
+  });
+});
@@ -1,13 +1,77 @@
 import { IIssueRepository } from '../ports/IIssueRepository';
 import { IGuildSubscriptionRepository } from '../ports/IGuildSubscriptionRepository';
+import { INewsletterRepository } from '../ports/INewsletterRepository';
+import { IDeliveryRepository } from '../ports/IDeliveryRepository';
+import { IGuildSettingsRepository } from '../ports/IGuildSettingsRepository';
+import { ITrackedLinkRepository } from '../ports/ITrackedLinkRepository';
+import { SubscriptionCleanupService } from '../services/SubscriptionCleanupService';
 import { Issue } from '../../domain/entities/Issue';
+import { Delivery } from '../../domain/entities/Delivery';
+import { GuildSubscription, MENTION_HERE } from '../../domain/entities/GuildSubscription';
+import { GuildSettings } from '../../domain/entities/GuildSettings';
+import { TrackedLink } from '../../domain/entities/TrackedLink';
 import { DiscordClient } from '../../infrastructure/discord/DiscordClient';
+import { Newsletter } from '../../domain/entities/Newsletter';
+import { htmlToText, truncate } from '../../shared/utils/emailPreview';
+import { getNextDigestAt } from '../../shared/utils/digestSchedule';
+import { DateTime } from 'luxon';
+
+export interface LinkTrackingOptions {
+  trackedLinkRepository: ITrackedLinkRepository;
+  baseUrl: string;
+}
+
+export interface DeliveryRunResult {
+  attempted: number;
+  sent: number;
+  failed: number;
+  dead: number;
+  /** Deliveries left for a later run because another run was already draining the outbox */
+  deferred: number;
+  errors: Array<{ issueId: string; guildId: string; channelId: string; error: string }>;
+}
+
+export interface RetryPolicy {
+  /** Deliveries that keep failing are given up on after this many attempts */
+  maxAttempts: number;
+  /** Delay before the first retry; doubled for each further attempt */
+  baseDelayMs: number;
+  /** Upper bound on the delay between attempts */
+  maxDelayMs: number;
+  /** Subscriptions are deactivated once a channel has been missing or off-limits this many times */
+  channelFailureThreshold: number;
+}
+
+interface DigestEntry {
+  delivery: Delivery;
+  subscription: GuildSubscription;
+}
+
+interface DigestItem extends DigestEntry {
+  issue: Issue;
+  newsletter: Newsletter | null;
+}
+
+// Keeps a digest message under Discord's 25-field and 6000-character embed limits
+const MAX_DIGEST_ISSUES = 10;
+const MAX_DIGEST_TITLE_LENGTH = 200;
+const MAX_DIGEST_SUMMARY_LENGTH = 200;
 
 export class DispatchIssueUseCase {
+  private delivering: boolean = false;
+
   constructor(
     private readonly issueRepository: IIssueRepository,
     private readonly guildSubscriptionRepository: IGuildSubscriptionRepository,
+    private readonly newsletterRepository: INewsletterRepository,
+    private readonly deliveryRepository: IDeliveryRepository,
+    private readonly guildSettingsRepository: IGuildSettingsRepository,
+    private readonly subscriptionCleanupService: SubscriptionCleanupService,
     private readonly discordClient: DiscordClient,
+    private readonly retryPolicy: RetryPolicy,
+    /** Timezone for guilds that haven't picked one with /settings */
+    private readonly defaultTimezone: string,
+    private readonly linkTracking?: LinkTrackingOptions,
   ) {}
 
   /**
@@ -16,6 +80,8 @@ export class DispatchIssueUseCase {
   async dispatchIssue(issueId: string): Promise<{
     success: boolean;
     channelsDispatched: number;
+    /** Deliveries not attempted yet; the next run sends them */
+    deferred: number;
     errors: Array<{ guildId: string; channelId: string; error: string }>;
   }> {
     // Get the issue
@@ -24,67 +90,163 @@ export class DispatchIssueUseCase {
       throw new Error(`Issue with ID ${issueId} not found`);
     }
 
-    return this.dispatchIssueInternal(issue);
+    await this.enqueueIssue(issue);
+
+    const due = (await this.deliveryRepository.getDue(new Date())).filter(
+      (delivery) => delivery.issueId === issue.id,
+    );
+    const runResult = await this.deliverAll(due);
+
+    return {
+      success: runResult.failed === 0 && runResult.dead === 0 && runResult.deferred === 0,
+      channelsDispatched: runResult.sent,
+      deferred: runResult.deferred,
+      errors: runResult.errors.map(({ guildId, channelId, error }) => ({
+        guildId,
+        channelId,
+        error,
+      })),
+    };
   }
 
   /**
-   * Dispatch all unprocessed issues
+   * Queue all unprocessed issues in the outbox, then deliver everything that is due
    */
   async dispatchUnprocessedIssues(): Promise<{
     totalIssues: number;
     successfulIssues: number;
     failedIssues: number;
     totalChannels: number;
+    deferredDeliveries: number;
     errors: Array<{ issueId: string; guildId: string; channelId: string; error: string }>;
   }> {
     // Get all unprocessed issues
     const unprocessedIssues = await this.issueRepository.getUnprocessed();
-    console.log(`Found ${unprocessedIssues.length} unprocessed issues`);
+    if (unprocessedIssues.length > 0) {
+      console.log(`Found ${unprocessedIssues.length} unprocessed issues`);
+    }
 
     const result = {
       totalIssues: unprocessedIssues.length,
       successfulIssues: 0,
       failedIssues: 0,
       totalChannels: 0,
+      deferredDeliveries: 0,
       errors: [] as Array<{ issueId: string; guildId: string; channelId: string; error: string }>,
     };
 
-    // Process each issue
+    // Queue each issue; once its deliveries are in the outbox the issue is processed
     for (const issue of unprocessedIssues) {
       try {
-        const dispatchResult = await this.dispatchIssueInternal(issue);
-
-        if (dispatchResult.success) {
-          result.successfulIssues++;
-          result.totalChannels += dispatchResult.channelsDispatched;
-        } else {
-          result.failedIssues++;
-        }
-
-        // Add errors to result
-        dispatchResult.errors.forEach((error) => {
-          result.errors.push({
-            issueId: issue.id,
-            ...error,
-          });
-        });
-
-        // Mark as processed regardless of success/failure
+        await this.enqueueIssue(issue);
         await this.issueRepository.markAsProcessed(issue.id);
+        result.successfulIssues++;
       } catch (error) {
-        console.error(`Error dispatching issue ${issue.id}:`, error);
+        console.error(`Error queueing issue ${issue.id}:`, error);
         result.failedIssues++;
       }
     }
 
+    const runResult = await this.deliverPending();
+    result.totalChannels = runResult.sent;
+    result.deferredDeliveries = runResult.deferred;
+    result.errors.push(...runResult.errors);
+
     return result;
   }
 
-  private async dispatchIssueInternal(issue: Issue): Promise<{
-    success: boolean;
-    channelsDispatched: number;
-    errors: Array<{ guildId: string; channelId: string; error: string }>;
-  }> {
+  /**
+   * Drain the outbox: send every pending or failed delivery that is due
+   */
+  async deliverPending(): Promise<DeliveryRunResult> {
+    const due = await this.deliveryRepository.getDue(new Date());
+    if (due.length > 0) {
+      console.log(`Found ${due.length} deliveries due`);
+    }
+
+    return this.deliverAll(due);
+  }
+
+  /**
+   * Post a subscription's most recent issues that pass its filters, oldest first, through
+   * the outbox like any other delivery. Issues the channel already received are skipped.
+   * @returns How many issues were queued and how many of them were posted right away
+   */
+  async backfillSubscription(
+    subscriptionId: string,
+    count: number,
+  ): Promise<{ queued: number; sent: number }> {
+    const subscription = await this.guildSubscriptionRepository.getById(subscriptionId);
+    if (!subscription || !subscription.isPosting) {
+      throw new Error(`Subscription with ID ${subscriptionId} is not active or is paused`);
+    }
+
+    const issues = (await this.issueRepository.getByNewsletterId(subscription.newsletterId))
+      .filter(
+        (issue) =>
+          !subscription.hasKeywordFilters ||
+          subscription.matchesKeywords(this.getFilterText(issue)),
+      )
+      .sort((a, b) => b.receivedAt.getTime() - a.receivedAt.getTime())
+      .slice(0, count)
+      .reverse();
+
+    // Due now; digest subscriptions get them as one digest
+    const queued: Delivery[] = [];
+    for (const issue of issues) {
+      const delivery = Delivery.create({
+        issueId: issue.id,
+        subscriptionId: subscription.id,
+        guildId: subscription.guildId,
+        channelId: subscription.channelId,
+        backfill: true,
+      });
+
+      if (await this.deliveryRepository.enqueue(delivery)) {
+        queued.push(delivery);
+      }
+    }
+
+    console.log(
+      `Queued ${queued.length} backfill deliveries for channel ${subscription.channelId}`,
+    );
+
+    // Anything not sent now (e.g. while a scheduled run is draining) goes out on the next run
+    const runResult = await this.deliverAll(queued);
+
+    return { queued: queued.length, sent: runResult.sent };
+  }
+
+  /**
+   * Get deliveries that ran out of attempts, oldest first
+   */
+  async getDeadLetters(): Promise<Delivery[]> {
+    return this.deliveryRepository.getByStatus('dead');
+  }
+
+  /**
+   * Put a dead delivery back in the outbox so the next run retries it
+   */
+  async requeueDeadLetter(deliveryId: string): Promise<Delivery> {
+    const delivery = await this.deliveryRepository.getById(deliveryId);
+    if (!delivery) {
+      throw new Error(`Delivery with ID ${deliveryId} not found`);
+    }
+
+    if (delivery.status !== 'dead') {
+      throw new Error(`Delivery ${deliveryId} is ${delivery.status}, not dead`);
+    }
+
+    const requeued = delivery.requeue();
+    await this.deliveryRepository.save(requeued);
+    return requeued;
+  }
+
+  /**
+   * Add one outbox row per active subscription channel for an issue, skipping channels whose
+   * keyword filters reject it
+   */
+  private async enqueueIssue(issue: Issue): Promise<number> {
     // Get subscriptions for this newsletter
     const subscriptions = await this.guildSubscriptionRepository.getActiveByNewsletterId(
       issue.newsletterId,
@@ -93,47 +255,494 @@ export class DispatchIssueUseCase {
       `Found ${subscriptions.length} active subscriptions for newsletter ${issue.newsletterId}`,
     );
 
-    const result = {
-      success: false,
-      channelsDispatched: 0,
-      errors: [] as Array<{ guildId: string; channelId: string; error: string }>,
-    };
-
-    // No subscriptions
-    if (subscriptions.length === 0) {
-      console.log(`No active subscriptions for newsletter ${issue.newsletterId}`);
-      return { ...result, success: true };
-    }
+    const text = this.getFilterText(issue);
+    const settings = new Map<string, GuildSettings>();
 
-    // Dispatch to each subscribed channel
+    let queued = 0;
     for (const subscription of subscriptions) {
-      try {
+      // Issues that arrive during a pause are never posted to the channel
+      if (subscription.paused) {
         console.log(
-          `Posting to channel ${subscription.channelId} (guild: ${subscription.guildId})`,
+          `Issue ${issue.id} skipped for paused channel ${subscription.channelId} (guild: ${subscription.guildId})`,
         );
-        await this.discordClient.postToChannel({
-          channelId: subscription.channelId,
-          title: issue.title,
-          url: issue.webUrl,
-          footer: `Sent at ${issue.receivedAt.toLocaleString()}`,
-          timestamp: new Date(),
-        });
+        continue;
+      }
 
-        console.log(`Successfully posted to channel ${subscription.channelId}`);
-        result.channelsDispatched++;
-      } catch (error) {
-        console.error(`Error posting to channel ${subscription.channelId}:`, error);
-        result.errors.push({
+      if (subscription.hasKeywordFilters && !subscription.matchesKeywords(text)) {
+        console.log(
+          `Issue ${issue.id} filtered out for channel ${subscription.channelId} (guild: ${subscription.guildId})`,
+        );
+        continue;
+      }
+
+      if (!settings.has(subscription.guildId)) {
+        settings.set(subscription.guildId, await this.getGuildSettings(subscription.guildId));
+      }
+
+      // Digest subscriptions hold the delivery until their next send time in the guild's timezone
+      const { timezone } = settings.get(subscription.guildId)!;
+      const added = await this.deliveryRepository.enqueue(
+        Delivery.create({
+          issueId: issue.id,
+          subscriptionId: subscription.id,
           guildId: subscription.guildId,
           channelId: subscription.channelId,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
+          nextAttemptAt: getNextDigestAt(subscription, timezone),
+        }),
+      );
+
+      if (added) {
+        queued++;
       }
     }
 
-    // Mark success if at least one channel was dispatched to
-    result.success = result.channelsDispatched > 0;
+    console.log(`Queued ${queued} new deliveries for issue ${issue.id}`);
+    return queued;
+  }
+
+  /**
+   * Text that keyword filters are matched against: the subject and the body
+   */
+  private getFilterText(issue: Issue): string {
+    // The stored body can be missing (e.g. too long for a sheet cell), so include the summary too
+    return [issue.title, issue.summary, issue.content ? htmlToText(issue.content) : undefined]
+      .filter((part): part is string => !!part)
+      .join('\n');
+  }
+
+  /**
+   * Send a batch of deliveries: immediate ones one at a time, digest ones grouped into a
+   * single message per channel
+   */
+  private async deliverAll(deliveries: Delivery[]): Promise<DeliveryRunResult> {
+    const result: DeliveryRunResult = {
+      attempted: 0,
+      sent: 0,
+      failed: 0,
+      dead: 0,
+      deferred: 0,
+      errors: [],
+    };
+
+    if (deliveries.length === 0) {
+      return result;
+    }
+
+    // Overlapping runs could pick up the same rows, so only one drains at a time. The rows
+    // stay due, so the running drain or the next one sends them.
+    if (this.delivering) {
+      result.deferred = deliveries.length;
+      return result;
+    }
+
+    this.delivering = true;
+
+    try {
+      const { immediate, digests } = await this.groupDigests(deliveries);
+      const outcomes: Delivery[] = [];
+
+      for (const { delivery, issue } of immediate) {
+        outcomes.push(await this.deliver(delivery, issue));
+      }
+
+      for (const entries of digests.values()) {
+        outcomes.push(...(await this.deliverDigest(entries)));
+      }
+
+      for (const updated of outcomes) {
+        result.attempted++;
+
+        if (updated.status === 'sent') {
+          result.sent++;
+          continue;
+        }
+
+        if (updated.status === 'dead') {
+          result.dead++;
+        } else {
+          result.failed++;
+        }
+
+        result.errors.push({
+          issueId: updated.issueId,
+          guildId: updated.guildId,
+          channelId: updated.channelId,
+          error: updated.lastError || 'Unknown error',
+        });
+      }
+    } finally {
+      this.delivering = false;
+    }
 
     return result;
   }
+
+  /**
+   * Split deliveries into immediate ones, oldest issue first so a channel receives several
+   * issues (e.g. a backfill) in the order they were sent, and digest ones grouped by channel
+   */
+  private async groupDigests(deliveries: Delivery[]): Promise<{
+    immediate: Array<{ delivery: Delivery; issue: Issue | null }>;
+    digests: Map<string, DigestEntry[]>;
+  }> {
+    const immediate: Array<{ delivery: Delivery; issue: Issue | null }> = [];
+    const digests = new Map<string, DigestEntry[]>();
+    const subscriptions = new Map<string, GuildSubscription | null>();
+
+    for (const delivery of deliveries) {
+      if (!subscriptions.has(delivery.subscriptionId)) {
+        subscriptions.set(
+          delivery.subscriptionId,
+          await this.guildSubscriptionRepository.getById(delivery.subscriptionId),
+        );
+      }
+
+      // Deliveries queued before a pause (e.g. the next digest) wait in the outbox until it ends
+      const subscription = subscriptions.get(delivery.subscriptionId);
+      if (subscription?.active && subscription.paused) {
+        continue;
+      }
+
+      // Missing or inactive subscriptions are handled (and marked dead) by deliver()
+      if (!subscription || !subscription.active || !subscription.isDigest) {
+        immediate.push({ delivery, issue: await this.issueRepository.getById(delivery.issueId) });
+        continue;
+      }
+
+      const entries = digests.get(delivery.channelId) ?? [];
+      entries.push({ delivery, subscription });
+      digests.set(delivery.channelId, entries);
+    }
+
+    // Stable, so deliveries for the same issue keep the outbox's order
+    immediate.sort(
+      (a, b) => (a.issue?.receivedAt.getTime() ?? 0) - (b.issue?.receivedAt.getTime() ?? 0),
+    );
+
+    return { immediate, digests };
+  }
+
+  /**
+   * Send the digest deliveries for one channel, oldest issue first
+   */
+  private async deliverDigest(entries: DigestEntry[]): Promise<Delivery[]> {
+    const outcomes: Delivery[] = [];
+    const items: DigestItem[] = [];
+
+    for (const entry of entries) {
+      const issue = await this.issueRepository.getById(entry.delivery.issueId);
+      if (!issue) {
+        const updated = this.getFailedDelivery(
+          entry.delivery,
+          `Issue with ID ${entry.delivery.issueId} not found`,
+        );
+        await this.deliveryRepository.save(updated);
+        outcomes.push(updated);
+        continue;
+      }
+
+      const newsletter = await this.newsletterRepository.getById(issue.newsletterId);
+      items.push({ ...entry, issue, newsletter });
+    }
+
+    items.sort((a, b) => a.issue.receivedAt.getTime() - b.issue.receivedAt.getTime());
+
+    for (let i = 0; i < items.length; i += MAX_DIGEST_ISSUES) {
+      outcomes.push(...(await this.sendDigestMessage(items.slice(i, i + MAX_DIGEST_ISSUES))));
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * Post one digest message listing several issues and record the outcome for each of them
+   */
+  private async sendDigestMessage(items: DigestItem[]): Promise<Delivery[]> {
+    const { channelId, guildId } = items[0].delivery;
+    let outcomes: Delivery[];
+
+    try {
+      const fields: Array<{ name: string; value: string }> = [];
+      for (const { issue, newsletter } of items) {
+        const url = await this.getIssueUrl(issue, guildId);
+        const summary = issue.summary
+          ? `\n${truncate(issue.summary, MAX_DIGEST_SUMMARY_LENGTH)}`
+          : '';
+
+        fields.push({
+          name: truncate(issue.title, MAX_DIGEST_TITLE_LENGTH),
+          value: `**${newsletter?.name ?? 'Newsletter'}** · ${this.formatTimestamp(issue.receivedAt, 'R')} · [Read it here](${url})${summary}`,
+        });
+      }
+
+      const modes = new Set(items.map(({ subscription }) => subscription.deliveryMode));
+      const newsletterIds = new Set(items.map(({ issue }) => issue.newsletterId));
+      const singleNewsletter = newsletterIds.size === 1 ? items[0].newsletter : null;
+      const subscriptions = [
+        ...new Map(items.map(({ subscription }) => [subscription.id, subscription])).values(),
+      ];
+
+      const label = modes.size > 1 ? 'Newsletter' : modes.has('weekly') ? 'Weekly' : 'Daily';
+      const { timezone, locale } = await this.getGuildSettings(guildId);
+      const date = DateTime.now()
+        .setZone(timezone)
+        .setLocale(locale)
+        .toLocaleString(DateTime.DATE_MED);
+
+      console.log(`Posting digest of ${items.length} issues to channel ${channelId}`);
+      const messageId = await this.discordClient.postToChannel({
+        channelId,
+        title: `${label} digest · ${date}`,
+        description: `${items.length} new ${items.length === 1 ? 'issue' : 'issues'}`,
+        fields,
+        color: singleNewsletter?.color,
+        timestamp: new Date(),
+        nonce: items[0].delivery.nonce,
+        // A digest made up only of backfilled issues pings nobody
+        ...(items.every(({ delivery }) => delivery.backfill)
+          ? { allowedMentions: { parse: [] } }
+          : this.getDigestMention(subscriptions)),
+        forumTag: singleNewsletter?.name,
+        createThread: subscriptions.some((subscription) => subscription.createThread),
+        crosspost: subscriptions.some((subscription) => subscription.crosspost),
+      });
+
+      console.log(`Successfully posted digest to channel ${channelId}`);
+      outcomes = items.map(({ delivery }) => delivery.markSent(messageId));
+    } catch (error) {
+      console.error(`Error posting digest to channel ${channelId}:`, error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const attempts = Math.max(...items.map(({ delivery }) => delivery.attempts)) + 1;
+      const deactivated = await this.deactivateUnavailableChannel(
+        guildId,
+        channelId,
+        attempts,
+        error,
+      );
+      outcomes = items.map(({ delivery }) =>
+        deactivated ? delivery.markDead(message) : this.getFailedDelivery(delivery, message),
+      );
+    }
+
+    for (const updated of outcomes) {
+      await this.deliveryRepository.save(updated);
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * Send a single delivery and record the outcome in the outbox
+   */
+  private async deliver(delivery: Delivery, issue: Issue | null): Promise<Delivery> {
+    let updated: Delivery;
+
+    try {
+      if (!issue) {
+        throw new Error(`Issue with ID ${delivery.issueId} not found`);
+      }
+
+      // Don't post to a channel that unsubscribed after the delivery was queued
+      const subscription = await this.guildSubscriptionRepository.getById(delivery.subscriptionId);
+      if (!subscription || !subscription.active) {
+        updated = delivery.markDead('Subscription is no longer active');
+        await this.deliveryRepository.save(updated);
+        return updated;
+      }
+
+      console.log(`Posting to channel ${delivery.channelId} (guild: ${delivery.guildId})`);
+      const newsletter = await this.newsletterRepository.getById(issue.newsletterId);
+      const url = await this.getIssueUrl(issue, delivery.guildId);
+      const authorName = issue.senderName || newsletter?.name;
+      const messageId = await this.discordClient.postToChannel({
+        channelId: delivery.channelId,
+        title: issue.title,
+        url,
+        description: [issue.summary, `Sent ${this.formatTimestamp(issue.receivedAt, 'f')}`]
+          .filter(Boolean)
+          .join('\n\n'),
+        imageUrl: issue.imageUrl,
+        author: authorName ? { name: authorName, url: newsletter?.url } : undefined,
+        color: newsletter?.color,
+        timestamp: new Date(),
+        nonce: delivery.nonce,
+        ...(delivery.backfill ? { allowedMentions: { parse: [] } } : this.getMention(subscription)),
+        forumTag: newsletter?.name,
+        createThread: subscription.createThread,
+        crosspost: subscription.crosspost,
+      });
+
+      console.log(`Successfully posted to channel ${delivery.channelId}`);
+      updated = delivery.markSent(messageId);
+    } catch (error) {
+      console.error(`Error posting to channel ${delivery.channelId}:`, error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const deactivated = await this.deactivateUnavailableChannel(
+        delivery.guildId,
+        delivery.channelId,
+        delivery.attempts + 1,
+        error,
+      );
+      updated = deactivated
+        ? delivery.markDead(message)
+        : this.getFailedDelivery(delivery, message);
+    }
+
+    await this.deliveryRepository.save(updated);
+    return updated;
+  }
+
+  /**
+   * Get a guild's settings, falling back to the default timezone for guilds without any
+   */
+  private async getGuildSettings(guildId: string): Promise<GuildSettings> {
+    const settings = await this.guildSettingsRepository.getByGuildId(guildId);
+    return settings ?? GuildSettings.create({ guildId, timezone: this.defaultTimezone });
+  }
+
+  /**
+   * Discord timestamp markup, which each reader sees in their own timezone and language.
+   * Embed footers show it as raw text, so it goes in the description or fields instead.
+   */
+  private formatTimestamp(date: Date, style: 'f' | 'R'): string {
+    return `<t:${Math.floor(date.getTime() / 1000)}:${style}>`;
+  }
+
+  /**
+   * Deactivate a channel's subscriptions when posting keeps failing because the channel was
+   * deleted or the bot lost access to it, so the outbox stops retrying it
+   * @returns Whether the subscriptions were deactivated
+   */
+  private async deactivateUnavailableChannel(
+    guildId: string,
+    channelId: string,
+    attempts: number,
+    error: unknown,
+  ): Promise<boolean> {
+    if (
+      !this.discordClient.isChannelUnavailableError(error) ||
+      attempts < Math.min(this.retryPolicy.channelFailureThreshold, this.retryPolicy.maxAttempts)
+    ) {
+      return false;
+    }
+
+    try {
+      await this.subscriptionCleanupService.deactivateChannel(
+        guildId,
+        channelId,
+        'channel_unavailable',
+        error instanceof Error ? error.message : undefined,
+      );
+      return true;
+    } catch (cleanupError) {
+      console.error(`Error deactivating subscriptions in channel ${channelId}:`, cleanupError);
+      return false;
+    }
+  }
+
+  /**
+   * Record a failed attempt, giving up once the retry budget is spent
+   */
+  private getFailedDelivery(delivery: Delivery, message: string): Delivery {
+    const attempts = delivery.attempts + 1;
+
+    if (attempts >= this.retryPolicy.maxAttempts) {
+      console.warn(
+        `Giving up on delivery ${delivery.id} to channel ${delivery.channelId} after ${attempts} attempts`,
+      );
+      return delivery.markDead(message);
+    }
+
+    return delivery.markFailed(message, this.getNextAttemptAt(attempts));
+  }
+
+  /**
+   * Message content and allowed mentions that ping exactly the subscription's role or @here
+   */
+  private getMention(subscription: GuildSubscription): {
+    content?: string;
+    allowedMentions: { parse: Array<'everyone'>; roles?: string[] };
+  } {
+    if (!subscription.mention) {
+      return { allowedMentions: { parse: [] } };
+    }
+
+    if (subscription.mention === MENTION_HERE) {
+      // Discord gates @here behind the same switch as @everyone
+      return { content: '@here', allowedMentions: { parse: ['everyone'] } };
+    }
+
+    return {
+      content: `<@&${subscription.mention}>`,
+      allowedMentions: { parse: [], roles: [subscription.mention] },
+    };
+  }
+
+  /**
+   * Combine the mentions of every subscription in a digest into one message
+   */
+  private getDigestMention(subscriptions: GuildSubscription[]): {
+    content?: string;
+    allowedMentions: { parse: Array<'everyone'>; roles?: string[] };
+  } {
+    const mentions = subscriptions.map((subscription) => this.getMention(subscription));
+    const contents = [...new Set(mentions.map(({ content }) => content).filter(Boolean))];
+    const roles = [
+      ...new Set(mentions.flatMap(({ allowedMentions }) => allowedMentions.roles ?? [])),
+    ];
+    const parse = mentions.some(({ allowedMentions }) => allowedMentions.parse.length > 0)
+      ? (['everyone'] as Array<'everyone'>)
+      : [];
+
+    return {
+      content: contents.length > 0 ? contents.join(' ') : undefined,
+      allowedMentions: roles.length > 0 ? { parse, roles } : { parse },
+    };
+  }
+
+  /**
+   * Exponential backoff: the base delay after the first failure, doubling up to the maximum
+   */
+  private getNextAttemptAt(attempts: number): Date {
+    const { baseDelayMs, maxDelayMs } = this.retryPolicy;
+    const delay = Math.min(baseDelayMs * 2 ** (attempts - 1), maxDelayMs);
+    return new Date(Date.now() + delay);
+  }
+
+  /**
+   * Get the URL to post for an issue, rewritten through a per-guild tracked link when enabled
+   */
+  private async getIssueUrl(issue: Issue, guildId: string): Promise<string> {
+    if (!this.linkTracking) {
+      return issue.webUrl;
+    }
+
+    const { trackedLinkRepository, baseUrl } = this.linkTracking;
+
+    try {
+      // Reuse the link from an earlier run so re-dispatching doesn't create duplicates
+      const existing = await trackedLinkRepository.getByUrlAndIssue(
+        issue.webUrl,
+        issue.id,
+        guildId,
+      );
+      if (existing) {
+        return existing.getTrackingUrl(baseUrl);
+      }
+
+      const trackedLink = TrackedLink.create({
+        originalUrl: issue.webUrl,
+        issueId: issue.id,
+        newsletterId: issue.newsletterId,
+        guildId,
+      });
+      await trackedLinkRepository.save(trackedLink);
+
+      return trackedLink.getTrackingUrl(baseUrl);
+    } catch (error) {
+      // Fall back to the original link rather than skipping the post
+      console.error(`Error creating tracked link for issue ${issue.id}:`, error);
+      return issue.webUrl;
+    }
+  }
 }
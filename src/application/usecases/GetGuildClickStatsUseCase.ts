@@ -0,0 +1,100 @@
+import { ILinkClickRepository } from '../ports/ILinkClickRepository';
+import { IGuildSubscriptionRepository } from '../ports/IGuildSubscriptionRepository';
+import { INewsletterRepository } from '../ports/INewsletterRepository';
+import { IIssueRepository } from '../ports/IIssueRepository';
+
+export interface GuildClickStats {
+  periods: number[];
+  newsletters: Array<{
+    newsletterId: string;
+    newsletterName: string;
+    clicksByPeriod: Record<number, number>;
+  }>;
+  topIssues: Array<{
+    issueId: string;
+    title: string;
+    newsletterName: string;
+    webUrl?: string;
+    clicks: number;
+  }>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class GetGuildClickStatsUseCase {
+  constructor(
+    private readonly linkClickRepository: ILinkClickRepository,
+    private readonly guildSubscriptionRepository: IGuildSubscriptionRepository,
+    private readonly newsletterRepository: INewsletterRepository,
+    private readonly issueRepository: IIssueRepository,
+  ) {}
+
+  /**
+   * Get click counts per subscribed newsletter and the most clicked issues for a guild
+   * @param periods Look-back windows in days, e.g. [7, 30, 90]
+   * @param topIssueLimit How many issues to include in the top list
+   */
+  async execute(
+    guildId: string,
+    periods: number[] = [7, 30, 90],
+    topIssueLimit: number = 5,
+  ): Promise<GuildClickStats> {
+    const now = new Date();
+    const longestPeriod = Math.max(...periods);
+
+    // Only report on newsletters the guild has subscribed to
+    const subscriptions = await this.guildSubscriptionRepository.getByGuildId(guildId);
+    const newsletterIds = [...new Set(subscriptions.map((sub) => sub.newsletterId))];
+
+    const newsletters = await Promise.all(
+      newsletterIds.map(async (newsletterId) => {
+        const newsletter = await this.newsletterRepository.getById(newsletterId);
+        const clicksByPeriod: Record<number, number> = {};
+
+        for (const days of periods) {
+          const startDate = new Date(now.getTime() - days * DAY_MS);
+          clicksByPeriod[days] = await this.linkClickRepository.countByNewsletterIdAndDateRange(
+            newsletterId,
+            startDate,
+            now,
+            guildId,
+          );
+        }
+
+        return {
+          newsletterId,
+          newsletterName: newsletter ? newsletter.name : 'Unknown Newsletter',
+          clicksByPeriod,
+        };
+      }),
+    );
+
+    // Most clicked first over the longest window
+    newsletters.sort((a, b) => b.clicksByPeriod[longestPeriod] - a.clicksByPeriod[longestPeriod]);
+
+    const issueCounts = await this.linkClickRepository.countByIssueAndDateRange(
+      new Date(now.getTime() - longestPeriod * DAY_MS),
+      now,
+      { guildId, limit: topIssueLimit },
+    );
+
+    const topIssues = await Promise.all(
+      issueCounts.map(async ({ issueId, clicks }) => {
+        const issue = await this.issueRepository.getById(issueId);
+        const newsletter = issue
+          ? await this.newsletterRepository.getById(issue.newsletterId)
+          : null;
+
+        return {
+          issueId,
+          title: issue ? issue.title : 'Unknown Issue',
+          newsletterName: newsletter ? newsletter.name : 'Unknown Newsletter',
+          webUrl: issue?.webUrl,
+          clicks,
+        };
+      }),
+    );
+
+    return { periods, newsletters, topIssues };
+  }
+}
@@ -0,0 +1,40 @@
+import { IIssueRepository } from '../ports/IIssueRepository';
+import { INewsletterRepository } from '../ports/INewsletterRepository';
+import { Issue } from '../../domain/entities/Issue';
+import { sanitizeNewsletterHtml } from '../../shared/utils/sanitizeHtml';
+
+export interface IssueArchivePage {
+  issue: Issue;
+  content: string;
+  newsletterName: string;
+  newsletterUrl?: string;
+}
+
+export class GetIssueArchiveUseCase {
+  constructor(
+    private readonly issueRepository: IIssueRepository,
+    private readonly newsletterRepository: INewsletterRepository,
+  ) {}
+
+  /**
+   * Get an archived issue for its hosted page
+   * @returns null if the issue is unknown or has no stored content
+   */
+  async execute(issueId: string): Promise<IssueArchivePage | null> {
+    const issue = await this.issueRepository.getById(issueId);
+    if (!issue || !issue.content) {
+      return null;
+    }
+
+    const newsletter = await this.newsletterRepository.getById(issue.newsletterId);
+
+    // Sanitize again when serving, so issues stored under older rules don't leak
+    // subscriber-specific links either
+    return {
+      issue,
+      content: sanitizeNewsletterHtml(issue.content),
+      newsletterName: newsletter ? newsletter.name : issue.senderName || 'Newsletter',
+      newsletterUrl: newsletter?.url,
+    };
+  }
+}
@@ -0,0 +1,65 @@
+import { IIssueRepository } from '../ports/IIssueRepository';
+import { INewsletterRepository } from '../ports/INewsletterRepository';
+import { Issue } from '../../domain/entities/Issue';
+import { Newsletter } from '../../domain/entities/Newsletter';
+
+export interface NewsletterIssuesPage {
+  newsletter: Newsletter;
+  /** Newest first */
+  issues: Issue[];
+  /** Zero-based, clamped to the last page */
+  page: number;
+  totalPages: number;
+  /** Issues across all pages, at most the requested limit */
+  total: number;
+}
+
+export class GetNewsletterIssuesUseCase {
+  constructor(
+    private readonly issueRepository: IIssueRepository,
+    private readonly newsletterRepository: INewsletterRepository,
+  ) {}
+
+  /**
+   * Get one page of a newsletter's most recent issues, newest first
+   * @param limit How many recent issues to page through in total
+   * @returns null if the newsletter is unknown
+   */
+  async execute(
+    newsletterId: string,
+    options: { limit?: number; page?: number; pageSize?: number } = {},
+  ): Promise<NewsletterIssuesPage | null> {
+    const { limit = 10, pageSize = 10 } = options;
+
+    const newsletter = await this.newsletterRepository.getById(newsletterId);
+    if (!newsletter) {
+      return null;
+    }
+
+    const issues = (await this.issueRepository.getByNewsletterId(newsletterId))
+      .sort((a, b) => b.receivedAt.getTime() - a.receivedAt.getTime())
+      .slice(0, limit);
+
+    const totalPages = Math.max(1, Math.ceil(issues.length / pageSize));
+    const page = Math.min(Math.max(options.page ?? 0, 0), totalPages - 1);
+
+    return {
+      newsletter,
+      issues: issues.slice(page * pageSize, (page + 1) * pageSize),
+      page,
+      totalPages,
+      total: issues.length,
+    };
+  }
+
+  /**
+   * Get a newsletter's newest issue
+   * @returns null if the newsletter is unknown
+   */
+  async getLatest(
+    newsletterId: string,
+  ): Promise<{ newsletter: Newsletter; issue: Issue | null } | null> {
+    const result = await this.execute(newsletterId, { limit: 1 });
+    return result ? { newsletter: result.newsletter, issue: result.issues[0] ?? null } : null;
+  }
+}
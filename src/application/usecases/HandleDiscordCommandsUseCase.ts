@@ -1,31 +1,52 @@
 import { IGuildSubscriptionRepository } from '../ports/IGuildSubscriptionRepository';
 import { INewsletterRepository } from '../ports/INewsletterRepository';
-import { GuildSubscription } from '../../domain/entities/GuildSubscription';
+import { IGuildSettingsRepository } from '../ports/IGuildSettingsRepository';
+import { IDeliveryRepository } from '../ports/IDeliveryRepository';
+import {
+  GuildSubscription,
+  KeywordFilterType,
+  PostingOptions,
+} from '../../domain/entities/GuildSubscription';
+import { Newsletter } from '../../domain/entities/Newsletter';
+import { GuildSettings } from '../../domain/entities/GuildSettings';
+import { DateTime } from 'luxon';
 
 export class HandleDiscordCommandsUseCase {
   constructor(
     private readonly guildSubscriptionRepository: IGuildSubscriptionRepository,
     private readonly newsletterRepository: INewsletterRepository,
+    private readonly guildSettingsRepository: IGuildSettingsRepository,
+    private readonly deliveryRepository: IDeliveryRepository,
+    private readonly defaultTimezone: string,
   ) {}
 
   /**
-   * List newsletter subscriptions for a channel
+   * List newsletter subscriptions for a channel, or for every channel in the guild
+   * when no channel is given
    */
   async listNewsletters(
     guildId: string,
-    channelId: string,
+    channelId?: string,
   ): Promise<{
     subscriptions: Array<{
       id: string;
+      channelId: string;
       newsletterId: string;
       newsletterName: string;
+      includeKeywords: string[];
+      excludeKeywords: string[];
+      active: boolean;
+      paused: boolean;
+      pausedUntil?: Date;
     }>;
   }> {
     // Get all subscriptions for this guild
     const allSubscriptions = await this.guildSubscriptionRepository.getByGuildId(guildId);
 
     // Filter by channel ID
-    const channelSubscriptions = allSubscriptions.filter((sub) => sub.channelId === channelId);
+    const channelSubscriptions = channelId
+      ? allSubscriptions.filter((sub) => sub.channelId === channelId)
+      : allSubscriptions;
 
     // Get newsletter details for each subscription
     const result = await Promise.all(
@@ -33,8 +54,14 @@ export class HandleDiscordCommandsUseCase {
         const newsletter = await this.newsletterRepository.getById(subscription.newsletterId);
         return {
           id: subscription.id,
+          channelId: subscription.channelId,
           newsletterId: subscription.newsletterId,
           newsletterName: newsletter ? newsletter.name : 'Unknown Newsletter',
+          includeKeywords: subscription.includeKeywords,
+          excludeKeywords: subscription.excludeKeywords,
+          active: subscription.active,
+          paused: subscription.paused,
+          pausedUntil: subscription.pausedUntil,
         };
       }),
     );
@@ -66,6 +93,7 @@ export class HandleDiscordCommandsUseCase {
     guildId: string,
     channelId: string,
     newsletterId: string,
+    postingOptions: PostingOptions = {},
   ): Promise<{
     success: boolean;
     message: string;
@@ -83,39 +111,67 @@ export class HandleDiscordCommandsUseCase {
       };
     }
 
-    // Check if already subscribed
-    const existingSubscription = await this.guildSubscriptionRepository.getByGuildAndNewsletter(
-      guildId,
-      newsletterId,
-    );
+    // Check if this channel is already subscribed; other channels in the guild may be too
+    const existingSubscription =
+      await this.guildSubscriptionRepository.getByGuildChannelAndNewsletter(
+        guildId,
+        channelId,
+        newsletterId,
+      );
+
+    const hasPostingOptions = Object.values(postingOptions).some((value) => value !== undefined);
+
+    if (existingSubscription && existingSubscription.active) {
+      // Subscribing again with posting options changes them on the existing subscription
+      if (hasPostingOptions) {
+        let updated: GuildSubscription;
+        try {
+          updated = existingSubscription.updatePostingOptions(postingOptions);
+        } catch (error) {
+          return {
+            success: false,
+            message: error instanceof Error ? error.message : 'Invalid posting options',
+          };
+        }
+
+        await this.guildSubscriptionRepository.save(updated);
 
-    if (existingSubscription) {
-      if (existingSubscription.channelId === channelId) {
-        return {
-          success: false,
-          message: `This channel is already subscribed to "${newsletter.name}"`,
-        };
-      } else {
         return {
-          success: false,
-          message: `Already subscribed to "${newsletter.name}" in another channel`,
+          success: true,
+          message: `Updated posting options for "${newsletter.name}"${await this.describeSchedule(updated)}`,
+          subscription: {
+            id: updated.id,
+            newsletterName: newsletter.name,
+          },
         };
       }
+
+      return {
+        success: false,
+        message: `This channel is already subscribed to "${newsletter.name}"`,
+      };
     }
 
-    // Create new subscription
-    const subscription = GuildSubscription.create({
-      guildId,
-      channelId,
-      newsletterId,
-      active: true,
-    });
+    // Reactivate a deactivated subscription rather than adding a duplicate row
+    let subscription: GuildSubscription;
+    try {
+      subscription = (
+        existingSubscription
+          ? existingSubscription.activate()
+          : GuildSubscription.create({ guildId, channelId, newsletterId, active: true })
+      ).updatePostingOptions(postingOptions);
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Invalid posting options',
+      };
+    }
 
     await this.guildSubscriptionRepository.save(subscription);
 
     return {
       success: true,
-      message: `Successfully subscribed to "${newsletter.name}"`,
+      message: `Successfully subscribed to "${newsletter.name}"${await this.describeSchedule(subscription)}`,
       subscription: {
         id: subscription.id,
         newsletterName: newsletter.name,
@@ -143,32 +199,400 @@ export class HandleDiscordCommandsUseCase {
       };
     }
 
-    // Check if subscribed
-    const existingSubscription = await this.guildSubscriptionRepository.getByGuildAndNewsletter(
+    // Check if subscribed in this channel
+    const existingSubscription =
+      await this.guildSubscriptionRepository.getByGuildChannelAndNewsletter(
+        guildId,
+        channelId,
+        newsletterId,
+      );
+
+    if (!existingSubscription) {
+      const otherSubscriptions = await this.guildSubscriptionRepository.getByGuildAndNewsletter(
+        guildId,
+        newsletterId,
+      );
+
+      if (otherSubscriptions.length > 0) {
+        const channels = otherSubscriptions.map((sub) => `<#${sub.channelId}>`).join(', ');
+        return {
+          success: false,
+          message: `<#${channelId}> is not subscribed to "${newsletter.name}" (it is posted in ${channels})`,
+        };
+      }
+
+      return {
+        success: false,
+        message: `Not subscribed to "${newsletter.name}"`,
+      };
+    }
+
+    // Delete subscription
+    await this.guildSubscriptionRepository.delete(existingSubscription.id);
+
+    return {
+      success: true,
+      message: `Successfully unsubscribed <#${channelId}> from "${newsletter.name}"`,
+    };
+  }
+
+  /**
+   * Pause a channel's subscription without deleting it
+   * @param until When it resumes on its own, as `YYYY-MM-DD` or `YYYY-MM-DD HH:MM` in the
+   * guild's timezone; without it the subscription stays paused until /resume
+   */
+  async pauseSubscription(
+    guildId: string,
+    channelId: string,
+    newsletterId: string,
+    until?: string,
+  ): Promise<{ success: boolean; message: string }> {
+    const found = await this.getChannelSubscription(guildId, channelId, newsletterId);
+    if ('error' in found) {
+      return { success: false, message: found.error };
+    }
+
+    const { newsletter, subscription } = found;
+
+    if (!subscription.active) {
+      return { success: false, message: this.describeDeactivated(newsletter, channelId) };
+    }
+
+    let resumeAt: Date | undefined;
+    if (until) {
+      const { timezone } = await this.getGuildSettings(guildId);
+      const parsed = DateTime.fromISO(until.trim().replace(' ', 'T'), { zone: timezone });
+      if (!parsed.isValid) {
+        return {
+          success: false,
+          message: 'Give the end of the pause as a date such as 2026-11-01 or 2026-11-01 09:00',
+        };
+      }
+      resumeAt = parsed.toJSDate();
+    }
+
+    let paused: GuildSubscription;
+    try {
+      paused = subscription.pause(resumeAt);
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Invalid pause',
+      };
+    }
+
+    await this.guildSubscriptionRepository.save(paused);
+
+    return {
+      success: true,
+      message: resumeAt
+        ? `Paused "${newsletter.name}" in <#${channelId}> until <t:${Math.floor(resumeAt.getTime() / 1000)}:f>`
+        : `Paused "${newsletter.name}" in <#${channelId}>; use /resume to start posting again`,
+    };
+  }
+
+  /**
+   * Resume a channel's paused subscription
+   */
+  async resumeSubscription(
+    guildId: string,
+    channelId: string,
+    newsletterId: string,
+  ): Promise<{ success: boolean; message: string }> {
+    const found = await this.getChannelSubscription(guildId, channelId, newsletterId);
+    if ('error' in found) {
+      return { success: false, message: found.error };
+    }
+
+    const { newsletter, subscription } = found;
+
+    if (!subscription.active) {
+      return { success: false, message: this.describeDeactivated(newsletter, channelId) };
+    }
+
+    if (!subscription.paused) {
+      return { success: false, message: `"${newsletter.name}" is not paused in <#${channelId}>` };
+    }
+
+    await this.guildSubscriptionRepository.save(subscription.resume());
+
+    return {
+      success: true,
+      message: `Resumed "${newsletter.name}" in <#${channelId}>`,
+    };
+  }
+
+  /**
+   * Move a subscription to another channel, keeping its settings, history and queued issues
+   */
+  async moveSubscription(
+    guildId: string,
+    fromChannelId: string,
+    toChannelId: string,
+    newsletterId: string,
+  ): Promise<{ success: boolean; message: string }> {
+    const found = await this.getChannelSubscription(guildId, fromChannelId, newsletterId);
+    if ('error' in found) {
+      return { success: false, message: found.error };
+    }
+
+    const { newsletter, subscription } = found;
+
+    if (fromChannelId === toChannelId) {
+      return {
+        success: false,
+        message: `"${newsletter.name}" is already posted in <#${toChannelId}>`,
+      };
+    }
+
+    const conflicting = await this.guildSubscriptionRepository.existsByGuildChannelAndNewsletter(
       guildId,
+      toChannelId,
       newsletterId,
     );
+    if (conflicting) {
+      return {
+        success: false,
+        message: `<#${toChannelId}> already has a subscription to "${newsletter.name}"; unsubscribe it first`,
+      };
+    }
 
-    if (!existingSubscription) {
+    await this.guildSubscriptionRepository.save(subscription.updateChannel(toChannelId));
+
+    // Issues waiting in the outbox, such as the next digest, follow the subscription
+    const queued = [
+      ...(await this.deliveryRepository.getByStatus('pending')),
+      ...(await this.deliveryRepository.getByStatus('failed')),
+    ].filter((delivery) => delivery.subscriptionId === subscription.id);
+
+    for (const delivery of queued) {
+      const delivered = await this.deliveryRepository.getByIssueAndChannel(
+        delivery.issueId,
+        toChannelId,
+      );
+      await this.deliveryRepository.save(
+        delivered
+          ? delivery.markDead(`Already delivered to channel ${toChannelId}`)
+          : delivery.moveToChannel(toChannelId),
+      );
+    }
+
+    return {
+      success: true,
+      message: `Moved "${newsletter.name}" from <#${fromChannelId}> to <#${toChannelId}>`,
+    };
+  }
+
+  /**
+   * Add an include or exclude keyword filter to a channel's subscription
+   */
+  async addKeywordFilter(
+    guildId: string,
+    channelId: string,
+    newsletterId: string,
+    type: KeywordFilterType,
+    rule: string,
+  ): Promise<{
+    success: boolean;
+    message: string;
+  }> {
+    const found = await this.getChannelSubscription(guildId, channelId, newsletterId);
+    if ('error' in found) {
+      return { success: false, message: found.error };
+    }
+
+    const { newsletter, subscription } = found;
+    const trimmed = rule.trim();
+    const existing =
+      type === 'include' ? subscription.includeKeywords : subscription.excludeKeywords;
+
+    if (existing.includes(trimmed)) {
       return {
         success: false,
-        message: `Not subscribed to "${newsletter.name}"`,
+        message: `"${trimmed}" is already an ${type} filter for "${newsletter.name}"`,
       };
     }
 
-    if (existingSubscription.channelId !== channelId) {
+    let updated: GuildSubscription;
+    try {
+      updated = subscription.addKeywordFilter(type, trimmed);
+    } catch (error) {
       return {
         success: false,
-        message: `Subscribed to "${newsletter.name}" in another channel`,
+        message: error instanceof Error ? error.message : 'Invalid filter',
       };
     }
 
-    // Delete subscription
-    await this.guildSubscriptionRepository.delete(existingSubscription.id);
+    await this.guildSubscriptionRepository.save(updated);
+
+    return {
+      success: true,
+      message: `Added ${type} filter "${trimmed}" to "${newsletter.name}"`,
+    };
+  }
+
+  /**
+   * Remove an include or exclude keyword filter from a channel's subscription
+   */
+  async removeKeywordFilter(
+    guildId: string,
+    channelId: string,
+    newsletterId: string,
+    type: KeywordFilterType,
+    rule: string,
+  ): Promise<{
+    success: boolean;
+    message: string;
+  }> {
+    const found = await this.getChannelSubscription(guildId, channelId, newsletterId);
+    if ('error' in found) {
+      return { success: false, message: found.error };
+    }
+
+    const { newsletter, subscription } = found;
+    const trimmed = rule.trim();
+    const existing =
+      type === 'include' ? subscription.includeKeywords : subscription.excludeKeywords;
+
+    if (!existing.includes(trimmed)) {
+      return {
+        success: false,
+        message: `"${trimmed}" is not an ${type} filter for "${newsletter.name}"`,
+      };
+    }
+
+    await this.guildSubscriptionRepository.save(subscription.removeKeywordFilter(type, trimmed));
+
+    return {
+      success: true,
+      message: `Removed ${type} filter "${trimmed}" from "${newsletter.name}"`,
+    };
+  }
+
+  /**
+   * Remove every keyword filter from a channel's subscription
+   */
+  async clearKeywordFilters(
+    guildId: string,
+    channelId: string,
+    newsletterId: string,
+  ): Promise<{
+    success: boolean;
+    message: string;
+  }> {
+    const found = await this.getChannelSubscription(guildId, channelId, newsletterId);
+    if ('error' in found) {
+      return { success: false, message: found.error };
+    }
+
+    const { newsletter, subscription } = found;
+    await this.guildSubscriptionRepository.save(subscription.clearKeywordFilters());
+
+    return {
+      success: true,
+      message: `Cleared all filters for "${newsletter.name}"; every issue will be posted`,
+    };
+  }
+
+  /**
+   * Get a guild's settings, falling back to the defaults for guilds that haven't set any
+   */
+  async getGuildSettings(guildId: string): Promise<GuildSettings> {
+    const settings = await this.guildSettingsRepository.getByGuildId(guildId);
+    return settings ?? GuildSettings.create({ guildId, timezone: this.defaultTimezone });
+  }
+
+  /**
+   * Change a guild's timezone, locale and/or newsletter manager role
+   */
+  async updateGuildSettings(
+    guildId: string,
+    changes: { timezone?: string; locale?: string; managerRoleId?: string | null },
+  ): Promise<{
+    success: boolean;
+    message: string;
+    settings?: GuildSettings;
+  }> {
+    const current = await this.getGuildSettings(guildId);
+
+    let settings: GuildSettings;
+    try {
+      settings = current.update(changes);
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Invalid settings',
+      };
+    }
+
+    await this.guildSettingsRepository.save(settings);
+
+    const managerRole = settings.managerRoleId ? `<@&${settings.managerRoleId}>` : 'none';
 
     return {
       success: true,
-      message: `Successfully unsubscribed from "${newsletter.name}"`,
+      message: `Timezone is now ${settings.timezone}, locale is ${settings.locale} and the manager role is ${managerRole}`,
+      settings,
     };
   }
+
+  /**
+   * Check whether a member may manage the guild's subscriptions: anyone with Manage Channels,
+   * plus members holding the guild's newsletter manager role
+   */
+  async canManageSubscriptions(
+    guildId: string,
+    member: { canManageChannels: boolean; roleIds: string[] },
+  ): Promise<boolean> {
+    if (member.canManageChannels) {
+      return true;
+    }
+
+    const settings = await this.guildSettingsRepository.getByGuildId(guildId);
+    return !!settings && settings.isManager(member.roleIds);
+  }
+
+  /**
+   * Describe when a digest subscription posts, e.g. ` (daily digest at 09:00 Europe/Berlin)`
+   */
+  private async describeSchedule(subscription: GuildSubscription): Promise<string> {
+    if (!subscription.isDigest) {
+      return '';
+    }
+
+    const { timezone } = await this.getGuildSettings(subscription.guildId);
+    return ` (${subscription.deliveryMode} digest at ${subscription.digestTime} ${timezone})`;
+  }
+
+  /**
+   * Explain why a deactivated subscription can't be paused or resumed
+   */
+  private describeDeactivated(newsletter: Newsletter, channelId: string): string {
+    return `"${newsletter.name}" was deactivated in <#${channelId}>; use /subscribe there to reactivate it`;
+  }
+
+  /**
+   * Look up a newsletter and this channel's subscription to it
+   */
+  private async getChannelSubscription(
+    guildId: string,
+    channelId: string,
+    newsletterId: string,
+  ): Promise<{ newsletter: Newsletter; subscription: GuildSubscription } | { error: string }> {
+    const newsletter = await this.newsletterRepository.getById(newsletterId);
+    if (!newsletter) {
+      return { error: 'Newsletter not found' };
+    }
+
+    const subscription = await this.guildSubscriptionRepository.getByGuildChannelAndNewsletter(
+      guildId,
+      channelId,
+      newsletterId,
+    );
+    if (!subscription) {
+      return { error: `<#${channelId}> is not subscribed to "${newsletter.name}"` };
+    }
+
+    return { newsletter, subscription };
+  }
 }
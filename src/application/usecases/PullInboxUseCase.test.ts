@@ -0,0 +1,100 @@
+import { PullInboxUseCase } from './PullInboxUseCase';
+import { EmailMessage, IMailService } from '../ports/IMailService';
+import { INewsletterRepository } from '../ports/INewsletterRepository';
+import { IIssueRepository } from '../ports/IIssueRepository';
+import { WebUrlExtractionService } from '../services/WebUrlExtractionService';
+import { Issue } from '../../domain/entities/Issue';
+import { Newsletter } from '../../domain/entities/Newsletter';
+
+const ARCHIVE_BASE_URL = 'https://bot.example.com';
+const WEB_URL = 'https://gardenclub.org/news/spring-planting';
+
+const newsletter = Newsletter.create({
+  name: 'Garden Club',
+  url: 'https://gardenclub.org',
+  senderEmail: 'news@gardenclub.org',
+  useArchiveLink: true,
+});
+
+function email(html: string): EmailMessage {
+  return {
+    id: '1',
+    messageId: '<spring-planting@gardenclub.org>',
+    from: 'Garden Club <news@gardenclub.org>',
+    subject: 'Spring planting',
+    receivedAt: new Date('2026-05-01T09:00:00Z'),
+    body: '',
+    html,
+  };
+}
+
+/**
+ * Pull one email into fake repositories that can store content up to a length
+ * @returns The saved issue, if any
+ */
+async function pull(message: EmailMessage, maxContentLength = Infinity) {
+  const saved: Issue[] = [];
+
+  const useCase = new PullInboxUseCase(
+    {
+      connect: async () => {},
+      disconnect: async () => {},
+      fetchNewEmails: async () => [message],
+      markAsProcessed: async () => {},
+    } as IMailService,
+    { getBySenderEmail: async () => newsletter } as unknown as INewsletterRepository,
+    {
+      save: async (issue: Issue) => {
+        saved.push(issue);
+      },
+      canStoreContent: (content: string) => content.length <= maxContentLength,
+    } as unknown as IIssueRepository,
+    new WebUrlExtractionService(),
+    ARCHIVE_BASE_URL,
+  );
+
+  const result = await useCase.execute();
+  return { result, issue: saved[0] };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('PullInboxUseCase archive links', () => {
+  const html = `<a href="${WEB_URL}">View in browser</a><p>The beds are ready.</p>`;
+
+  it('links the archive page when the content is stored', async () => {
+    const { issue } = await pull(email(html));
+
+    expect(issue.webUrl).toBe(Issue.getArchiveUrl(ARCHIVE_BASE_URL, issue.id));
+    expect(issue.extractor).toBe('archive');
+    expect(issue.content).toContain('The beds are ready.');
+  });
+
+  it('uses the web URL when the content is too long for the repository', async () => {
+    const { issue } = await pull(email(html), 10);
+
+    expect(issue).toMatchObject({ webUrl: WEB_URL, extractor: 'generic' });
+  });
+
+  it('uses the web URL when there is no content to archive', async () => {
+    const { issue } = await pull(email(`<!-- View in browser: ${WEB_URL} -->`));
+
+    expect(issue).toMatchObject({ webUrl: WEB_URL, content: undefined });
+    expect(issue.extractor).not.toBe('archive');
+  });
+
+  it('skips the email rather than link an empty archive page when nothing else is found', async () => {
+    const { result, issue } = await pull(email('<!-- nothing to see -->'));
+
+    expect(issue).toBeUndefined();
+    expect(result.errors).toEqual([
+      { subject: 'Spring planting', error: 'Failed to extract web URL' },
+    ]);
+  });
+});
@@ -1,7 +1,12 @@
-import { IMailService } from '../ports/IMailService';
+import { randomUUID } from 'crypto';
+import { IMailService, EmailMessage } from '../ports/IMailService';
 import { INewsletterRepository } from '../ports/INewsletterRepository';
 import { IIssueRepository } from '../ports/IIssueRepository';
+import { WebUrlExtraction } from '../ports/IWebUrlExtractor';
+import { WebUrlExtractionService } from '../services/WebUrlExtractionService';
 import { Issue } from '../../domain/entities/Issue';
+import { extractEmailPreview } from '../../shared/utils/emailPreview';
+import { sanitizeNewsletterHtml, textToHtml } from '../../shared/utils/sanitizeHtml';
 
 export interface PullInboxResult {
   totalEmails: number;
@@ -15,6 +20,8 @@ export class PullInboxUseCase {
     private readonly mailService: IMailService,
     private readonly newsletterRepository: INewsletterRepository,
     private readonly issueRepository: IIssueRepository,
+    private readonly webUrlExtractionService: WebUrlExtractionService,
+    private readonly archiveBaseUrl?: string,
   ) {}
 
   /**
@@ -54,20 +61,52 @@ export class PullInboxUseCase {
             console.log(`Matched newsletter: ${newsletter.name}`);
             result.matchedNewsletters++;
 
-            // Extract web view link
-            console.log('Attempting to extract web URL...');
-            const webUrl = this.extractWebUrl(email, newsletter);
+            // Post the hosted archive page when the newsletter's own link can't be shared,
+            // or when no web view link can be found. The page needs the email's content, so
+            // it is only linked when there is some and the repository keeps it.
+            const issueId = randomUUID();
+            const content = this.getArchiveContent(email);
+            const archiveUrl =
+              this.archiveBaseUrl && content && this.issueRepository.canStoreContent(content)
+                ? Issue.getArchiveUrl(this.archiveBaseUrl, issueId)
+                : null;
+            let extraction: WebUrlExtraction | null = null;
+
+            if (newsletter.useArchiveLink && this.archiveBaseUrl && !archiveUrl) {
+              console.log(`No archived content for ${newsletter.name}, using its web URL instead`);
+            }
 
-            if (webUrl) {
-              console.log(`Extracted web URL: ${webUrl}`);
+            if (newsletter.useArchiveLink && archiveUrl) {
+              console.log(`Using archive link for ${newsletter.name}: ${archiveUrl}`);
+              extraction = { url: archiveUrl, confidence: 1, extractor: 'archive' };
+            } else {
+              // Extract web view link
+              console.log('Attempting to extract web URL...');
+              extraction = this.webUrlExtractionService.extract(email, newsletter);
 
-              // Create issue
+              if (!extraction && archiveUrl) {
+                console.log(`No web URL found, using archive link: ${archiveUrl}`);
+                extraction = { url: archiveUrl, confidence: 1, extractor: 'archive' };
+              }
+            }
+
+            if (extraction) {
+              console.log(
+                `Extracted web URL with ${extraction.extractor} (confidence ${extraction.confidence}): ${extraction.url}`,
+              );
+
+              // Create issue, with a preview for the Discord embed and the archived content
               const issue = Issue.create({
+                id: issueId,
                 newsletterId: newsletter.id,
                 title: email.subject,
-                webUrl,
+                webUrl: extraction.url,
                 receivedAt: email.receivedAt,
                 messageId: email.messageId,
+                content,
+                extractor: extraction.extractor,
+                extractionConfidence: extraction.confidence,
+                ...extractEmailPreview(email),
               });
 
               // Save the issue to repository
@@ -115,203 +154,17 @@ export class PullInboxUseCase {
     return result;
   }
 
-  // Enhanced extractWebUrl method for PullInboxUseCase.ts
-  private extractWebUrl(email: any, newsletter: any): string | null {
-    console.log('Starting URL extraction process...');
-
-    // Try custom extraction pattern first if defined
-    if (newsletter.extractionPattern) {
-      try {
-        console.log(`Using custom pattern: ${newsletter.extractionPattern}`);
-        const regex = new RegExp(newsletter.extractionPattern);
-        const match = regex.exec(email.html || email.body);
-
-        if (match && match[1]) {
-          console.log(`Found URL using custom pattern: ${match[1]}`);
-          return match[1];
-        } else {
-          console.log('Custom pattern did not match');
-        }
-      } catch (error) {
-        console.error(`Error using custom extraction pattern:`, error);
-      }
-    }
-
-    const content = email.html || email.body;
-
-    // Check specifically for BeehiivCDN newsletters first
-    if (content.includes('beehiiv.com')) {
-      console.log('Detected BeehiivCDN newsletter, applying specific extraction');
-      // Look for Read Online link pattern
-      const beehiivReadOnlinePattern =
-        /href="(https:\/\/link\.mail\.beehiiv\.com\/ss\/c\/[^"]+)"[^>]*>(?:[^<]*(?:read\s+online|view\s+online)[^<]*)<\/a>/i;
-      const match = beehiivReadOnlinePattern.exec(content);
-      if (match && match[1]) {
-        console.log(`Found BeehiivCDN Read Online URL: ${match[1]}`);
-        return match[1];
-      }
-
-      // Alternative pattern for Beehiiv links
-      const beehiivLinkPattern = /href="(https:\/\/link\.mail\.beehiiv\.com\/ss\/c\/[^"]+)"/i;
-      const altMatch = beehiivLinkPattern.exec(content);
-      if (altMatch && altMatch[1]) {
-        console.log(`Found BeehiivCDN URL: ${altMatch[1]}`);
-        return altMatch[1];
-      }
-    }
-
-    // Define all common "view in browser" variations
-    // This comprehensive set of patterns will catch most newsletter providers
-    const viewBrowserVariations = [
-      // Common phrases
-      /view\s+(?:in|on)\s+(?:browser|web)/i,
-      /read\s+(?:in|on|)?\s*(?:browser|web|online)/i, // Added "read online"
-      /web\s+(?:view|version)/i,
-      /online\s+(?:view|version)/i,
-      /view\s+(?:as\s+)?(?:web)?page/i,
-      /open\s+(?:in|on)\s+browser/i,
-      /email\s+(?:not|doesn't)\s+display\s+(?:correctly|properly)/i,
-      /(?:can't|cannot)\s+(?:see|view|read)\s+(?:this|the)\s+email/i,
-      /view\s+(?:this|the)\s+(?:email|newsletter)\s+(?:in|on)\s+(?:your|a)\s+browser/i,
-      /read\s+online/i, // Simple explicit "read online" pattern
-
-      // Common adjacent characters/phrases
-      /(?:\||→|&gt;|&bull;|•|\/|\[|\()\s*(?:view|read)(?:\s+(?:in|on|online|web))?\s*(?:browser|web|webpage|online)/i,
-      /(?:view|read)(?:\s+(?:in|on|online|web))?\s*(?:browser|web|webpage|online)\s*(?:\||→|&gt;|&bull;|•|\/|\]|\))/i,
-
-      // Provider-specific patterns
-      /(?:Got\s+this\s+from\s+a\s+friend|Forward|Share)\s*(?:\||→|&gt;|&bull;|•|\/|\[|\()?\s*(?:view|read)(?:\s+(?:in|on|online|web))?\s*(?:browser|web|webpage|online)/i,
-    ];
-
-    // First try to find the phrases and then look for nearby links
-    for (const pattern of viewBrowserVariations) {
-      const match = pattern.exec(content);
-      if (match) {
-        console.log(`Found "${match[0]}" at position ${match.index}`);
-
-        // Look for URLs or links near the match
-        const searchRadius = 300; // Increase search radius (was 150)
-        const startPos = Math.max(0, match.index - searchRadius);
-        const endPos = Math.min(content.length, match.index + match[0].length + searchRadius);
-        const nearbyText = content.substring(startPos, endPos);
-
-        // Look for HTML links first
-        const linkRegex = /<a[^>]*href=["']([^"']+)["'][^>]*>/gi;
-        const links = [...nearbyText.matchAll(linkRegex)];
-
-        if (links.length > 0) {
-          // Find closest link to the match
-          let closestLink = links[0][1];
-          let minDistance = Infinity;
-
-          links.forEach((link) => {
-            const linkPos = nearbyText.indexOf(link[0]);
-            const distance = Math.abs(linkPos - (match.index - startPos));
-            if (distance < minDistance) {
-              minDistance = distance;
-              closestLink = link[1];
-            }
-          });
-
-          console.log(`Found nearby link: ${closestLink}`);
-          return closestLink;
-        }
-
-        // If no HTML links, look for plain URLs
-        const urlRegex = /(https?:\/\/[^\s"'<>]+)/g;
-        const urls = [...nearbyText.matchAll(urlRegex)];
-
-        if (urls.length > 0) {
-          console.log(`Found nearby URL: ${urls[0][1]}`);
-          return urls[0][1];
-        }
-      }
-    }
-
-    // If no view-in-browser phrases found, try standard HTML patterns
-    const commonHtmlPatterns = [
-      // HTML link with view/read in text
-      /<a[^>]*href=["']([^"']+)["'][^>]*>(?:[^<]*(?:view|read)[^<]*(?:in|on|online)[^<]*(?:browser|web|webpage|online)[^<]*)<\/a>/i,
-      /<a[^>]*href=["']([^"']+)["'][^>]*>(?:[^<]*(?:web|online)[^<]*(?:view|version)[^<]*)<\/a>/i,
-      /<a[^>]*href=["']([^"']+)["'][^>]*>(?:[^<]*(?:read\s+online)[^<]*)<\/a>/i, // Added explicit read online pattern
-
-      // Links with newsletter-related attributes
-      /<a[^>]*(?:id|class|data)=["'](?:view|browser|web-version|online|view-online)[^"']*["'][^>]*href=["']([^"']+)["'][^>]*>/i,
-
-      // Email client targeting
-      /<a[^>]*href=["']([^"']+)["'][^>]*>(?:[^<]*(?:email|newsletter)[^<]*(?:not)[^<]*(?:display|view|showing)[^<]*)<\/a>/i,
-
-      // BeehiivCDN specific patterns (more relaxed)
-      /<a[^>]*href=["'](https:\/\/link\.mail\.beehiiv\.com\/ss\/[^"']+)["'][^>]*>/i,
-    ];
-
-    for (const pattern of commonHtmlPatterns) {
-      const match = pattern.exec(content);
-      if (match && match[1]) {
-        console.log(`Found link using HTML pattern: ${match[1]}`);
-        return match[1];
-      }
-    }
-
-    // Try to extract any URL from mail.beehiiv.com
-    const beehiivUrlPattern = /https:\/\/link\.mail\.beehiiv\.com\/ss\/[^\s"'<>]+/;
-    const beehiivMatch = beehiivUrlPattern.exec(content);
-    if (beehiivMatch) {
-      console.log(`Found beehiiv URL: ${beehiivMatch[0]}`);
-      return beehiivMatch[0];
-    }
-
-    // FALLBACK: If all else fails, extract all URLs and try to find a relevant one
-    console.log('Using fallback: extract any relevant URL from content');
-    const urlRegex = /(https?:\/\/[^\s<>"']+)/g;
-    const allUrls = [...content.matchAll(urlRegex)].map((match) => match[1]);
-
-    if (allUrls.length > 0) {
-      // Filter out common non-useful URLs
-      const nonUsefulDomains = [
-        'w3.org',
-        'w3schools.com',
-        'xmlns.com',
-        'schema.org',
-        'google-analytics.com',
-        'doubleclick.net',
-      ];
-
-      // Filter URLs that don't contain non-useful domains
-      const filteredUrls = allUrls.filter((url) => {
-        return !nonUsefulDomains.some((domain) => url.includes(domain));
-      });
-
-      // Look for URLs with newsletter-related keywords
-      const keywordsList = [
-        'newsletter',
-        'browser',
-        'view',
-        'read',
-        'online',
-        'web-version',
-        'campaign',
-        'email',
-        'mail',
-        'beehiiv',
-        newsletter.name.toLowerCase().split(' ')[0],
-      ];
-
-      const keywordUrls = filteredUrls.filter((url) => {
-        const lowerUrl = url.toLowerCase();
-        return keywordsList.some((keyword) => lowerUrl.includes(keyword));
-      });
-
-      if (keywordUrls.length > 0) {
-        console.log(`Found relevant URL with keywords: ${keywordUrls[0]}`);
-        return keywordUrls[0];
-      } else if (filteredUrls.length > 0) {
-        console.log(`Using first filtered URL: ${filteredUrls[0]}`);
-        return filteredUrls[0];
-      }
+  /**
+   * Get the sanitized HTML to archive for an email
+   */
+  private getArchiveContent(email: EmailMessage): string | undefined {
+    try {
+      const content = email.html ? sanitizeNewsletterHtml(email.html) : textToHtml(email.body);
+      return content.trim().length > 0 ? content : undefined;
+    } catch (error) {
+      // The issue can still be posted without an archived copy
+      console.error(`Error sanitizing content of email ${email.subject}:`, error);
+      return undefined;
     }
-
-    console.log('No suitable URLs found in email content');
-    return null;
   }
 }
@@ -0,0 +1,56 @@
+import { createHash } from 'crypto';
+import { ITrackedLinkRepository } from '../ports/ITrackedLinkRepository';
+import { ILinkClickRepository } from '../ports/ILinkClickRepository';
+import { LinkClick } from '../../domain/entities/LinkClick';
+
+export class RecordLinkClickUseCase {
+  constructor(
+    private readonly trackedLinkRepository: ITrackedLinkRepository,
+    private readonly linkClickRepository: ILinkClickRepository,
+    private readonly ipHashSalt: string,
+  ) {}
+
+  /**
+   * Resolve a tracking ID and record the click
+   * @param params.recordClick Set to false to only resolve the link, e.g. for a HEAD request
+   * @returns The URL to redirect to, or null if the tracking ID is unknown
+   */
+  async execute(params: {
+    trackingId: string;
+    ipAddress?: string;
+    userAgent?: string;
+    recordClick?: boolean;
+  }): Promise<{ originalUrl: string } | null> {
+    const trackedLink = await this.trackedLinkRepository.getByTrackingId(params.trackingId);
+    if (!trackedLink) {
+      return null;
+    }
+
+    if (params.recordClick === false) {
+      return { originalUrl: trackedLink.originalUrl };
+    }
+
+    // A failure to record the click should never keep the reader from the newsletter
+    try {
+      const click = LinkClick.create({
+        trackedLinkId: trackedLink.id,
+        userAgent: params.userAgent,
+        ipHash: params.ipAddress ? this.hashIp(params.ipAddress) : undefined,
+        guildId: trackedLink.guildId,
+      });
+
+      await this.linkClickRepository.save(click);
+    } catch (error) {
+      console.error(`Error recording click for tracking ID ${params.trackingId}:`, error);
+    }
+
+    return { originalUrl: trackedLink.originalUrl };
+  }
+
+  /**
+   * Hash an IP address with the configured salt so raw addresses are never stored
+   */
+  private hashIp(ipAddress: string): string {
+    return createHash('sha256').update(`${this.ipHashSalt}:${ipAddress}`).digest('hex');
+  }
+}
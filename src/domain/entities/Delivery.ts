@@ -0,0 +1,247 @@
+import { randomUUID } from 'crypto';
+
+export type DeliveryStatus = 'pending' | 'sent' | 'failed' | 'dead';
+
+export const DELIVERY_STATUSES: DeliveryStatus[] = ['pending', 'sent', 'failed', 'dead'];
+
+/**
+ * One outbox row per issue and channel, tracking whether the post reached Discord
+ */
+export class Delivery {
+  private constructor(
+    public readonly id: string,
+    public readonly issueId: string,
+    public readonly subscriptionId: string,
+    public readonly guildId: string,
+    public readonly channelId: string,
+    public readonly status: DeliveryStatus,
+    public readonly attempts: number,
+    public readonly nextAttemptAt: Date,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+    public readonly lastError?: string,
+    public readonly discordMessageId?: string,
+    public readonly sentAt?: Date,
+    /** Posted by `/subscribe backfill:` for an earlier issue, so it pings nobody */
+    public readonly backfill: boolean = false,
+  ) {}
+
+  /**
+   * Create a new Delivery
+   */
+  public static create(params: {
+    issueId: string;
+    subscriptionId: string;
+    guildId: string;
+    channelId: string;
+    status?: DeliveryStatus;
+    attempts?: number;
+    nextAttemptAt?: Date;
+    lastError?: string;
+    discordMessageId?: string;
+    sentAt?: Date;
+    backfill?: boolean;
+    id?: string;
+    createdAt?: Date;
+    updatedAt?: Date;
+  }): Delivery {
+    const {
+      issueId,
+      subscriptionId,
+      guildId,
+      channelId,
+      status = 'pending',
+      attempts = 0,
+      nextAttemptAt = new Date(),
+      lastError,
+      discordMessageId,
+      sentAt,
+      backfill = false,
+      id = randomUUID(),
+      createdAt = new Date(),
+      updatedAt = new Date(),
+    } = params;
+
+    // Validation
+    if (!issueId || issueId.trim().length === 0) {
+      throw new Error('Issue ID is required');
+    }
+
+    if (!subscriptionId || subscriptionId.trim().length === 0) {
+      throw new Error('Subscription ID is required');
+    }
+
+    if (!guildId || guildId.trim().length === 0) {
+      throw new Error('Guild ID is required');
+    }
+
+    if (!channelId || channelId.trim().length === 0) {
+      throw new Error('Channel ID is required');
+    }
+
+    if (!DELIVERY_STATUSES.includes(status)) {
+      throw new Error(`Invalid delivery status: ${status}`);
+    }
+
+    if (!Number.isInteger(attempts) || attempts < 0) {
+      throw new Error('Attempts must be a non-negative integer');
+    }
+
+    return new Delivery(
+      id,
+      issueId,
+      subscriptionId,
+      guildId,
+      channelId,
+      status,
+      attempts,
+      nextAttemptAt,
+      createdAt,
+      updatedAt,
+      lastError,
+      discordMessageId,
+      sentAt,
+      backfill,
+    );
+  }
+
+  /**
+   * Nonce sent with the Discord message so a resend after a crash is deduplicated
+   * (Discord accepts nonces of up to 25 characters)
+   */
+  public get nonce(): string {
+    return this.id.replace(/-/g, '').substring(0, 25);
+  }
+
+  /**
+   * Check whether this delivery still needs to be sent
+   */
+  public isDue(now: Date = new Date()): boolean {
+    return (
+      (this.status === 'pending' || this.status === 'failed') &&
+      this.nextAttemptAt.getTime() <= now.getTime()
+    );
+  }
+
+  /**
+   * Mark this delivery as sent
+   */
+  public markSent(discordMessageId: string): Delivery {
+    const now = new Date();
+
+    return new Delivery(
+      this.id,
+      this.issueId,
+      this.subscriptionId,
+      this.guildId,
+      this.channelId,
+      'sent',
+      this.attempts + 1,
+      this.nextAttemptAt,
+      this.createdAt,
+      now,
+      undefined,
+      discordMessageId,
+      now,
+      this.backfill,
+    );
+  }
+
+  /**
+   * Record a failed attempt, to be retried at the given time
+   */
+  public markFailed(error: string, nextAttemptAt: Date = new Date()): Delivery {
+    return new Delivery(
+      this.id,
+      this.issueId,
+      this.subscriptionId,
+      this.guildId,
+      this.channelId,
+      'failed',
+      this.attempts + 1,
+      nextAttemptAt,
+      this.createdAt,
+      new Date(),
+      error,
+      this.discordMessageId,
+      this.sentAt,
+      this.backfill,
+    );
+  }
+
+  /**
+   * Give up on this delivery after a failed attempt
+   */
+  public markDead(error: string): Delivery {
+    return new Delivery(
+      this.id,
+      this.issueId,
+      this.subscriptionId,
+      this.guildId,
+      this.channelId,
+      'dead',
+      this.attempts + 1,
+      this.nextAttemptAt,
+      this.createdAt,
+      new Date(),
+      error,
+      this.discordMessageId,
+      this.sentAt,
+      this.backfill,
+    );
+  }
+
+  /**
+   * Send this delivery to another channel when its subscription moves, keeping its schedule
+   */
+  public moveToChannel(channelId: string): Delivery {
+    if (this.status === 'sent') {
+      throw new Error('A sent delivery cannot be moved');
+    }
+
+    return new Delivery(
+      this.id,
+      this.issueId,
+      this.subscriptionId,
+      this.guildId,
+      channelId,
+      this.status,
+      this.attempts,
+      this.nextAttemptAt,
+      this.createdAt,
+      new Date(),
+      this.lastError,
+      this.discordMessageId,
+      this.sentAt,
+      this.backfill,
+    );
+  }
+
+  /**
+   * Put a failed or dead delivery back in the queue with a fresh attempt budget
+   */
+  public requeue(): Delivery {
+    if (this.status === 'sent') {
+      throw new Error('A sent delivery cannot be requeued');
+    }
+
+    const now = new Date();
+
+    return new Delivery(
+      this.id,
+      this.issueId,
+      this.subscriptionId,
+      this.guildId,
+      this.channelId,
+      'pending',
+      0,
+      now,
+      this.createdAt,
+      now,
+      this.lastError,
+      this.discordMessageId,
+      this.sentAt,
+      this.backfill,
+    );
+  }
+}
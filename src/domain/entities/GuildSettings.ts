@@ -0,0 +1,119 @@
+export const DEFAULT_GUILD_TIMEZONE = 'UTC';
+export const DEFAULT_GUILD_LOCALE = 'en-US';
+
+/**
+ * Per-guild preferences: the timezone digest schedules are read in, the locale used
+ * for dates the bot writes out itself and the role allowed to manage subscriptions
+ */
+export class GuildSettings {
+  private constructor(
+    public readonly guildId: string,
+    public readonly timezone: string,
+    public readonly locale: string,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+    public readonly managerRoleId?: string,
+  ) {}
+
+  /**
+   * Create settings for a guild
+   */
+  public static create(params: {
+    guildId: string;
+    timezone?: string;
+    locale?: string;
+    managerRoleId?: string;
+    createdAt?: Date;
+    updatedAt?: Date;
+  }): GuildSettings {
+    const {
+      guildId,
+      timezone = DEFAULT_GUILD_TIMEZONE,
+      locale = DEFAULT_GUILD_LOCALE,
+      managerRoleId,
+      createdAt = new Date(),
+      updatedAt = new Date(),
+    } = params;
+
+    // Validation
+    if (!guildId || guildId.trim().length === 0) {
+      throw new Error('Guild ID is required');
+    }
+
+    // Discord IDs are snowflakes - numeric strings
+    if (!/^\d{17,20}$/.test(guildId)) {
+      throw new Error('Invalid Guild ID format');
+    }
+
+    if (managerRoleId !== undefined && !/^\d{17,20}$/.test(managerRoleId)) {
+      throw new Error('Invalid manager role ID format');
+    }
+
+    return new GuildSettings(
+      guildId,
+      GuildSettings.normalizeTimezone(timezone),
+      GuildSettings.normalizeLocale(locale),
+      createdAt,
+      updatedAt,
+      managerRoleId,
+    );
+  }
+
+  /**
+   * Change the timezone, locale and/or manager role; a `null` manager role removes it
+   */
+  public update(params: {
+    timezone?: string;
+    locale?: string;
+    managerRoleId?: string | null;
+  }): GuildSettings {
+    const { managerRoleId } = params;
+
+    if (managerRoleId && !/^\d{17,20}$/.test(managerRoleId)) {
+      throw new Error('Invalid manager role ID format');
+    }
+
+    return new GuildSettings(
+      this.guildId,
+      params.timezone ? GuildSettings.normalizeTimezone(params.timezone) : this.timezone,
+      params.locale ? GuildSettings.normalizeLocale(params.locale) : this.locale,
+      this.createdAt,
+      new Date(),
+      managerRoleId === undefined ? this.managerRoleId : (managerRoleId ?? undefined),
+    );
+  }
+
+  /**
+   * Check whether a member with these roles is the guild's newsletter manager
+   */
+  public isManager(roleIds: string[]): boolean {
+    return !!this.managerRoleId && roleIds.includes(this.managerRoleId);
+  }
+
+  /**
+   * Check an IANA timezone such as `Europe/Berlin`, returning its canonical spelling
+   */
+  public static normalizeTimezone(timezone: string): string {
+    try {
+      return new Intl.DateTimeFormat('en-US', { timeZone: timezone.trim() }).resolvedOptions()
+        .timeZone;
+    } catch {
+      throw new Error(`Invalid timezone: ${timezone}`);
+    }
+  }
+
+  /**
+   * Check a BCP 47 locale such as `de-DE`, returning its canonical spelling
+   */
+  public static normalizeLocale(locale: string): string {
+    try {
+      const [canonical] = Intl.getCanonicalLocales(locale.trim());
+      if (!canonical) {
+        throw new Error('Empty locale');
+      }
+      return canonical;
+    } catch {
+      throw new Error(`Invalid locale: ${locale}`);
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import { GuildSubscription } from './GuildSubscription';
+
+const GUILD_ID = '123456789012345678';
+const CHANNEL_ID = '234567890123456789';
+
+function subscription(includeKeywords: string[] = [], excludeKeywords: string[] = []) {
+  return GuildSubscription.create({
+    guildId: GUILD_ID,
+    channelId: CHANNEL_ID,
+    newsletterId: 'newsletter-1',
+    includeKeywords,
+    excludeKeywords,
+  });
+}
+
+describe('GuildSubscription keyword filters', () => {
+  it('posts everything without filters', () => {
+    expect(subscription().hasKeywordFilters).toBe(false);
+    expect(subscription().matchesKeywords('Anything at all')).toBe(true);
+  });
+
+  it('matches plain keywords as whole words, ignoring case', () => {
+    const sub = subscription(['AI']);
+
+    expect(sub.matchesKeywords('This week in ai research')).toBe(true);
+    expect(sub.matchesKeywords('She said it was fine')).toBe(false);
+    expect(sub.matchesKeywords('Notes on AI.')).toBe(true);
+  });
+
+  it('treats regex characters in keywords literally', () => {
+    const sub = subscription(['c++']);
+
+    expect(sub.matchesKeywords('Modern C++ tips')).toBe(true);
+    expect(sub.matchesKeywords('Modern ccc tips')).toBe(false);
+  });
+
+  it('requires an include match and no exclude match', () => {
+    const sub = subscription(['rust', 'go'], ['sponsored']);
+
+    expect(sub.matchesKeywords('Rust 2.0 released')).toBe(true);
+    expect(sub.matchesKeywords('Go generics deep dive, sponsored')).toBe(false);
+    expect(sub.matchesKeywords('Python news')).toBe(false);
+  });
+
+  it('matches /pattern/flags rules as regular expressions', () => {
+    const sub = subscription(['/release v\\d+/i'], ['/^ad:/m']);
+
+    expect(sub.matchesKeywords('Big RELEASE V12 today')).toBe(true);
+    expect(sub.matchesKeywords('release notes')).toBe(false);
+    expect(sub.matchesKeywords('Release v3\nad: buy now')).toBe(false);
+  });
+
+  it('matches patterns that backtrack catastrophically in linear time', () => {
+    const sub = subscription(['/(.*a){12}x/']);
+    const text = 'Lorem ipsum dolor sit amet, a newsletter about all sorts of data. '.repeat(10);
+
+    const started = Date.now();
+    expect(sub.matchesKeywords(text)).toBe(false);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('rejects invalid or unsupported regexes when adding them', () => {
+    const sub = subscription();
+
+    expect(() => sub.addKeywordFilter('include', '/(unclosed/')).toThrow(
+      'Invalid regular expression',
+    );
+    expect(() => sub.addKeywordFilter('include', '/(?<=a)b/')).toThrow(
+      'Invalid regular expression',
+    );
+    expect(() => sub.addKeywordFilter('include', '/(a)\\1/')).toThrow('Invalid regular expression');
+    expect(() => sub.addKeywordFilter('include', '/abc/x')).toThrow('Invalid regular expression');
+  });
+
+  it('loads stored regexes RE2 cannot run, but never matches them', () => {
+    const sub = subscription([], ['/(?<=a)b/']);
+
+    expect(sub.excludeKeywords).toEqual(['/(?<=a)b/']);
+    expect(sub.matchesKeywords('ab')).toBe(true);
+  });
+
+  it('trims, deduplicates and limits rules', () => {
+    const sub = subscription()
+      .addKeywordFilter('include', '  rust ')
+      .addKeywordFilter('include', 'rust');
+
+    expect(sub.includeKeywords).toEqual(['rust']);
+    expect(() => sub.addKeywordFilter('exclude', 'x'.repeat(201))).toThrow('at most 200');
+    expect(() => subscription(Array.from({ length: 21 }, (_, index) => `keyword${index}`))).toThrow(
+      'at most 20 include filters',
+    );
+  });
+
+  it('removes and clears rules', () => {
+    const sub = subscription(['rust', 'go'], ['sponsored']);
+
+    expect(sub.removeKeywordFilter('include', ' go ').includeKeywords).toEqual(['rust']);
+    expect(sub.clearKeywordFilters().hasKeywordFilters).toBe(false);
+  });
+});
+
+describe('GuildSubscription digest options', () => {
+  it('posts immediately by default', () => {
+    const sub = subscription();
+
+    expect(sub.deliveryMode).toBe('immediate');
+    expect(sub.isDigest).toBe(false);
+  });
+
+  it('switches to a digest and keeps the other posting options', () => {
+    const sub = subscription()
+      .updatePostingOptions({ createThread: true })
+      .updatePostingOptions({ deliveryMode: 'weekly', digestTime: '18:30', digestDay: 5 });
+
+    expect(sub.isDigest).toBe(true);
+    expect(sub).toMatchObject({
+      deliveryMode: 'weekly',
+      digestTime: '18:30',
+      digestDay: 5,
+      createThread: true,
+    });
+  });
+
+  it('rejects invalid send times and days', () => {
+    const sub = subscription();
+
+    expect(() => sub.updatePostingOptions({ digestTime: '9:00' })).toThrow('24-hour time');
+    expect(() => sub.updatePostingOptions({ digestTime: '24:00' })).toThrow('24-hour time');
+    expect(() => sub.updatePostingOptions({ digestDay: 0 })).toThrow('Digest day');
+    expect(() => sub.updatePostingOptions({ digestDay: 8 })).toThrow('Digest day');
+  });
+});
+
+describe('GuildSubscription pausing', () => {
+  const future = new Date(Date.now() + 86_400_000);
+
+  it('pauses and resumes without touching the active flag', () => {
+    const paused = subscription().pause(future);
+
+    expect(paused).toMatchObject({ active: true, paused: true, pausedUntil: future });
+    expect(paused.isPosting).toBe(false);
+    expect(paused.resume()).toMatchObject({ active: true, paused: false, pausedUntil: undefined });
+  });
+
+  it('keeps deactivation separate from a pause', () => {
+    const deactivated = subscription().deactivate();
+
+    expect(deactivated).toMatchObject({ active: false, paused: false });
+    expect(() => deactivated.pause()).toThrow('deactivated');
+    expect(subscription().pause(future).deactivate().activate()).toMatchObject({
+      active: true,
+      paused: true,
+      pausedUntil: future,
+    });
+  });
+
+  it('only resumes active subscriptions on their own once the pause has ended', () => {
+    const paused = subscription().pause(future);
+    const later = new Date(future.getTime() + 1000);
+
+    expect(paused.isDueToResume()).toBe(false);
+    expect(paused.isDueToResume(later)).toBe(true);
+    expect(paused.deactivate().isDueToResume(later)).toBe(false);
+    expect(subscription().deactivate().isDueToResume(later)).toBe(false);
+  });
+});
@@ -1,4 +1,131 @@
 import { randomUUID } from 'crypto';
+import { RE2JS } from 're2js';
+
+export type KeywordFilterType = 'include' | 'exclude';
+
+export type DeliveryMode = 'immediate' | 'daily' | 'weekly';
+
+export const DELIVERY_MODES: DeliveryMode[] = ['immediate', 'daily', 'weekly'];
+
+// Keeps per-issue matching cheap and the rules readable in a Discord embed
+export const MAX_KEYWORD_FILTERS = 20;
+const MAX_KEYWORD_RULE_LENGTH = 200;
+
+// JavaScript flags that RE2 supports; `g`, `u` and `y` change nothing for a yes/no match
+const REGEX_FLAGS: Record<string, number> = {
+  i: RE2JS.CASE_INSENSITIVE,
+  m: RE2JS.MULTILINE,
+  s: RE2JS.DOTALL,
+  g: 0,
+  u: 0,
+  y: 0,
+};
+
+/**
+ * Compile a filter rule. `/pattern/flags` is a regular expression, run with RE2 so matching
+ * takes linear time whatever the pattern (no backreferences or lookarounds); anything else is
+ * a case-insensitive keyword that must appear as a whole word (so "AI" doesn't match "said")
+ */
+function compileKeywordRule(rule: string): { test(text: string): boolean } {
+  const regexMatch = /^\/(.+)\/([a-z]*)$/.exec(rule);
+  if (regexMatch) {
+    const [, pattern, flags] = regexMatch;
+    try {
+      const flagBits = [...flags].reduce((bits, flag) => {
+        if (!(flag in REGEX_FLAGS)) {
+          throw new Error(`Unsupported flag ${flag}`);
+        }
+        return bits | REGEX_FLAGS[flag];
+      }, 0);
+      return RE2JS.compile(pattern, flagBits);
+    } catch {
+      throw new Error(`Invalid regular expression: ${rule}`);
+    }
+  }
+
+  const escaped = rule.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])`, 'iu');
+}
+
+/**
+ * Compile a stored filter rule. Regexes saved before matching moved to RE2 may use syntax it
+ * lacks; those never match rather than making the subscription unloadable.
+ */
+function compileStoredKeywordRule(rule: string): { test(text: string): boolean } {
+  try {
+    return compileKeywordRule(rule);
+  } catch {
+    return { test: () => false };
+  }
+}
+
+/**
+ * Trim, validate and deduplicate a list of filter rules
+ */
+function normalizeKeywordRules(rules: string[], type: KeywordFilterType, compile = true): string[] {
+  const normalized = [...new Set(rules.map((rule) => rule.trim()).filter((rule) => rule))];
+
+  if (normalized.length > MAX_KEYWORD_FILTERS) {
+    throw new Error(`A subscription can have at most ${MAX_KEYWORD_FILTERS} ${type} filters`);
+  }
+
+  for (const rule of normalized) {
+    if (rule.length > MAX_KEYWORD_RULE_LENGTH) {
+      throw new Error(`Filter rules can be at most ${MAX_KEYWORD_RULE_LENGTH} characters`);
+    }
+    if (compile) {
+      compileKeywordRule(rule);
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * How and when a subscription's issues are posted; unset fields are left unchanged
+ */
+export interface PostingOptions {
+  createThread?: boolean;
+  crosspost?: boolean;
+  /** A role ID or `here`; `null` stops pinging */
+  mention?: string | null;
+  deliveryMode?: DeliveryMode;
+  digestTime?: string;
+  digestDay?: number;
+}
+
+// Value of `mention` that pings everyone currently online in the channel
+export const MENTION_HERE = 'here';
+
+/**
+ * Check a digest schedule: a 24-hour `HH:MM` time and an ISO weekday (1 = Monday, 7 = Sunday)
+ */
+function validateDigestSchedule(
+  deliveryMode: DeliveryMode,
+  digestTime: string,
+  digestDay: number,
+): void {
+  if (!DELIVERY_MODES.includes(deliveryMode)) {
+    throw new Error(`Invalid delivery mode: ${deliveryMode}`);
+  }
+
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(digestTime)) {
+    throw new Error('Digest time must be a 24-hour time such as 09:00');
+  }
+
+  if (!Number.isInteger(digestDay) || digestDay < 1 || digestDay > 7) {
+    throw new Error('Digest day must be a weekday from 1 (Monday) to 7 (Sunday)');
+  }
+}
+
+/**
+ * A mention is either a role ID or `here`
+ */
+function validateMention(mention: string | undefined): void {
+  if (mention && mention !== MENTION_HERE && !/^\d{17,20}$/.test(mention)) {
+    throw new Error('Invalid mention: expected a role ID or "here"');
+  }
+}
 
 export class GuildSubscription {
   private constructor(
@@ -9,6 +136,18 @@ export class GuildSubscription {
     public readonly active: boolean,
     public readonly createdAt: Date,
     public readonly updatedAt: Date,
+    public readonly includeKeywords: string[] = [],
+    public readonly excludeKeywords: string[] = [],
+    public readonly createThread: boolean = false,
+    public readonly crosspost: boolean = false,
+    public readonly mention?: string,
+    public readonly deliveryMode: DeliveryMode = 'immediate',
+    public readonly digestTime: string = '09:00',
+    public readonly digestDay: number = 1,
+    /** Paused with /pause; unlike deactivation this is the guild's choice */
+    public readonly paused: boolean = false,
+    /** Set on a paused subscription that resumes on its own */
+    public readonly pausedUntil?: Date,
   ) {}
 
   /**
@@ -22,6 +161,16 @@ export class GuildSubscription {
     id?: string;
     createdAt?: Date;
     updatedAt?: Date;
+    includeKeywords?: string[];
+    excludeKeywords?: string[];
+    createThread?: boolean;
+    crosspost?: boolean;
+    mention?: string;
+    deliveryMode?: DeliveryMode;
+    digestTime?: string;
+    digestDay?: number;
+    paused?: boolean;
+    pausedUntil?: Date;
   }): GuildSubscription {
     const {
       guildId,
@@ -31,6 +180,16 @@ export class GuildSubscription {
       id = randomUUID(),
       createdAt = new Date(),
       updatedAt = new Date(),
+      includeKeywords = [],
+      excludeKeywords = [],
+      createThread = false,
+      crosspost = false,
+      mention,
+      deliveryMode = 'immediate',
+      digestTime = '09:00',
+      digestDay = 1,
+      paused = false,
+      pausedUntil,
     } = params;
 
     // Validation
@@ -56,6 +215,9 @@ export class GuildSubscription {
       throw new Error('Invalid Channel ID format');
     }
 
+    validateMention(mention);
+    validateDigestSchedule(deliveryMode, digestTime, digestDay);
+
     return new GuildSubscription(
       id,
       guildId,
@@ -64,40 +226,251 @@ export class GuildSubscription {
       active,
       createdAt,
       updatedAt,
+      normalizeKeywordRules(includeKeywords, 'include', false),
+      normalizeKeywordRules(excludeKeywords, 'exclude', false),
+      createThread,
+      crosspost,
+      mention || undefined,
+      deliveryMode,
+      digestTime,
+      digestDay,
+      paused,
+      paused ? pausedUntil : undefined,
     );
   }
 
   /**
-   * Activate this subscription
+   * Change how issues are posted: a discussion thread under each post in a text channel,
+   * crossposting to following servers in an announcement channel, who gets pinged
+   * (pass `mention: null` to stop pinging) and whether issues are batched into a digest
    */
-  public activate(): GuildSubscription {
-    if (this.active) return this;
+  public updatePostingOptions(options: PostingOptions): GuildSubscription {
+    const mention = options.mention === undefined ? this.mention : options.mention || undefined;
+    const deliveryMode = options.deliveryMode ?? this.deliveryMode;
+    const digestTime = options.digestTime ?? this.digestTime;
+    const digestDay = options.digestDay ?? this.digestDay;
+    validateMention(mention);
+    validateDigestSchedule(deliveryMode, digestTime, digestDay);
 
     return new GuildSubscription(
       this.id,
       this.guildId,
       this.channelId,
       this.newsletterId,
-      true,
+      this.active,
       this.createdAt,
       new Date(),
+      this.includeKeywords,
+      this.excludeKeywords,
+      options.createThread ?? this.createThread,
+      options.crosspost ?? this.crosspost,
+      mention,
+      deliveryMode,
+      digestTime,
+      digestDay,
+      this.paused,
+      this.pausedUntil,
     );
   }
 
+  /**
+   * Check whether issues are batched into a daily or weekly digest
+   */
+  public get isDigest(): boolean {
+    return this.deliveryMode !== 'immediate';
+  }
+
+  /**
+   * Check whether this subscription has any keyword filters
+   */
+  public get hasKeywordFilters(): boolean {
+    return this.includeKeywords.length > 0 || this.excludeKeywords.length > 0;
+  }
+
+  /**
+   * Check whether an issue's text passes the keyword filters: it must match at least one
+   * include rule (when there are any) and none of the exclude rules
+   */
+  public matchesKeywords(text: string): boolean {
+    const matches = (rule: string) => compileStoredKeywordRule(rule).test(text);
+
+    if (this.includeKeywords.length > 0 && !this.includeKeywords.some(matches)) {
+      return false;
+    }
+
+    return !this.excludeKeywords.some(matches);
+  }
+
+  /**
+   * Add an include or exclude filter rule
+   */
+  public addKeywordFilter(type: KeywordFilterType, rule: string): GuildSubscription {
+    const includeKeywords =
+      type === 'include' ? [...this.includeKeywords, rule] : this.includeKeywords;
+    const excludeKeywords =
+      type === 'exclude' ? [...this.excludeKeywords, rule] : this.excludeKeywords;
+
+    return new GuildSubscription(
+      this.id,
+      this.guildId,
+      this.channelId,
+      this.newsletterId,
+      this.active,
+      this.createdAt,
+      new Date(),
+      normalizeKeywordRules(includeKeywords, 'include'),
+      normalizeKeywordRules(excludeKeywords, 'exclude'),
+      this.createThread,
+      this.crosspost,
+      this.mention,
+      this.deliveryMode,
+      this.digestTime,
+      this.digestDay,
+      this.paused,
+      this.pausedUntil,
+    );
+  }
+
+  /**
+   * Remove an include or exclude filter rule
+   */
+  public removeKeywordFilter(type: KeywordFilterType, rule: string): GuildSubscription {
+    const trimmed = rule.trim();
+
+    return new GuildSubscription(
+      this.id,
+      this.guildId,
+      this.channelId,
+      this.newsletterId,
+      this.active,
+      this.createdAt,
+      new Date(),
+      type === 'include'
+        ? this.includeKeywords.filter((keyword) => keyword !== trimmed)
+        : this.includeKeywords,
+      type === 'exclude'
+        ? this.excludeKeywords.filter((keyword) => keyword !== trimmed)
+        : this.excludeKeywords,
+      this.createThread,
+      this.crosspost,
+      this.mention,
+      this.deliveryMode,
+      this.digestTime,
+      this.digestDay,
+      this.paused,
+      this.pausedUntil,
+    );
+  }
+
+  /**
+   * Remove every filter rule, so all issues are posted again
+   */
+  public clearKeywordFilters(): GuildSubscription {
+    return new GuildSubscription(
+      this.id,
+      this.guildId,
+      this.channelId,
+      this.newsletterId,
+      this.active,
+      this.createdAt,
+      new Date(),
+      [],
+      [],
+      this.createThread,
+      this.crosspost,
+      this.mention,
+      this.deliveryMode,
+      this.digestTime,
+      this.digestDay,
+      this.paused,
+      this.pausedUntil,
+    );
+  }
+
+  /**
+   * Activate this subscription. A pause is kept; only /resume ends it.
+   */
+  public activate(): GuildSubscription {
+    if (this.active) return this;
+
+    return this.withState(true, this.paused, this.pausedUntil);
+  }
+
   /**
    * Deactivate this subscription
    */
   public deactivate(): GuildSubscription {
     if (!this.active) return this;
 
+    return this.withState(false, this.paused, this.pausedUntil);
+  }
+
+  /**
+   * Stop posting this subscription's issues, optionally until a time when it resumes on its own.
+   * Pausing a paused subscription changes or clears when it resumes.
+   */
+  public pause(until?: Date): GuildSubscription {
+    if (!this.active) {
+      throw new Error('A deactivated subscription cannot be paused');
+    }
+
+    if (until && until.getTime() <= Date.now()) {
+      throw new Error('A pause must end in the future');
+    }
+
+    return this.withState(true, true, until);
+  }
+
+  /**
+   * End a pause
+   */
+  public resume(): GuildSubscription {
+    if (!this.paused) return this;
+
+    return this.withState(this.active, false, undefined);
+  }
+
+  /**
+   * Check whether issues are posted: the subscription is neither deactivated nor paused
+   */
+  public get isPosting(): boolean {
+    return this.active && !this.paused;
+  }
+
+  /**
+   * Check whether a timed pause has ended. Deactivated subscriptions never resume on their own.
+   */
+  public isDueToResume(now: Date = new Date()): boolean {
+    return (
+      this.active &&
+      this.paused &&
+      !!this.pausedUntil &&
+      this.pausedUntil.getTime() <= now.getTime()
+    );
+  }
+
+  /**
+   * Copy this subscription with a different active and pause state
+   */
+  private withState(active: boolean, paused: boolean, pausedUntil?: Date): GuildSubscription {
     return new GuildSubscription(
       this.id,
       this.guildId,
       this.channelId,
       this.newsletterId,
-      false,
+      active,
       this.createdAt,
       new Date(),
+      this.includeKeywords,
+      this.excludeKeywords,
+      this.createThread,
+      this.crosspost,
+      this.mention,
+      this.deliveryMode,
+      this.digestTime,
+      this.digestDay,
+      paused,
+      paused ? pausedUntil : undefined,
     );
   }
 
@@ -122,6 +495,16 @@ export class GuildSubscription {
       this.active,
       this.createdAt,
       new Date(),
+      this.includeKeywords,
+      this.excludeKeywords,
+      this.createThread,
+      this.crosspost,
+      this.mention,
+      this.deliveryMode,
+      this.digestTime,
+      this.digestDay,
+      this.paused,
+      this.pausedUntil,
     );
   }
 }
@@ -10,6 +10,11 @@ export class Issue {
     public readonly content?: string,
     public readonly messageId?: string,
     public readonly processed: boolean = false,
+    public readonly summary?: string,
+    public readonly imageUrl?: string,
+    public readonly senderName?: string,
+    public readonly extractor?: string,
+    public readonly extractionConfidence?: number,
   ) {}
 
   /**
@@ -24,6 +29,11 @@ export class Issue {
     messageId?: string;
     id?: string;
     processed?: boolean;
+    summary?: string;
+    imageUrl?: string;
+    senderName?: string;
+    extractor?: string;
+    extractionConfidence?: number;
   }): Issue {
     const {
       newsletterId,
@@ -34,6 +44,11 @@ export class Issue {
       messageId,
       id = randomUUID(),
       processed = false,
+      summary,
+      imageUrl,
+      senderName,
+      extractor,
+      extractionConfidence,
     } = params;
 
     // Validation
@@ -56,6 +71,23 @@ export class Issue {
       throw new Error('Invalid web URL format');
     }
 
+    if (
+      extractionConfidence !== undefined &&
+      (Number.isNaN(extractionConfidence) || extractionConfidence < 0 || extractionConfidence > 1)
+    ) {
+      throw new Error('Extraction confidence must be between 0 and 1');
+    }
+
+    // A broken image URL would make Discord reject the whole embed, so drop it instead
+    let validImageUrl: string | undefined;
+    if (imageUrl) {
+      try {
+        validImageUrl = new URL(imageUrl).protocol === 'https:' ? imageUrl : undefined;
+      } catch {
+        validImageUrl = undefined;
+      }
+    }
+
     return new Issue(
       id,
       newsletterId,
@@ -65,9 +97,24 @@ export class Issue {
       content,
       messageId,
       processed,
+      summary?.trim() || undefined,
+      validImageUrl,
+      senderName?.trim() || undefined,
+      extractor,
+      extractionConfidence,
     );
   }
 
+  /**
+   * URL of the hosted archive page for an issue
+   */
+  public static getArchiveUrl(baseUrl: string, issueId: string): string {
+    // Make sure the base URL doesn't end with a slash
+    const formattedBaseUrl = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
+
+    return `${formattedBaseUrl}/issues/${issueId}`;
+  }
+
   /**
    * Mark this issue as processed
    */
@@ -81,6 +128,11 @@ export class Issue {
       this.content,
       this.messageId,
       true,
+      this.summary,
+      this.imageUrl,
+      this.senderName,
+      this.extractor,
+      this.extractionConfidence,
     );
   }
 
@@ -97,6 +149,11 @@ export class Issue {
       params.content ?? this.content,
       params.messageId ?? this.messageId,
       params.processed ?? this.processed,
+      params.summary ?? this.summary,
+      params.imageUrl ?? this.imageUrl,
+      params.senderName ?? this.senderName,
+      params.extractor ?? this.extractor,
+      params.extractionConfidence ?? this.extractionConfidence,
     );
   }
 }
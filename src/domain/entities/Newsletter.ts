@@ -1,5 +1,9 @@
 import { randomUUID } from 'crypto';
 
+// Lengths that fit an embed field in the /browse catalog
+export const MAX_NEWSLETTER_DESCRIPTION_LENGTH = 300;
+export const MAX_NEWSLETTER_CATEGORY_LENGTH = 50;
+
 export class Newsletter {
   private constructor(
     public readonly id: string,
@@ -9,6 +13,11 @@ export class Newsletter {
     public readonly createdAt: Date,
     public readonly updatedAt: Date,
     public readonly extractionPattern?: string,
+    public readonly color?: number,
+    public readonly useArchiveLink: boolean = false,
+    public readonly description?: string,
+    public readonly category?: string,
+    public readonly iconUrl?: string,
   ) {}
 
   /**
@@ -19,6 +28,11 @@ export class Newsletter {
     url: string;
     senderEmail: string;
     extractionPattern?: string;
+    color?: number;
+    useArchiveLink?: boolean;
+    description?: string;
+    category?: string;
+    iconUrl?: string;
     id?: string;
     createdAt?: Date;
     updatedAt?: Date;
@@ -28,6 +42,8 @@ export class Newsletter {
       url,
       senderEmail,
       extractionPattern,
+      color,
+      useArchiveLink = false,
       id = randomUUID(),
       createdAt = new Date(),
       updatedAt = new Date(),
@@ -59,6 +75,30 @@ export class Newsletter {
       throw new Error('Invalid newsletter URL format');
     }
 
+    if (color !== undefined && (!Number.isInteger(color) || color < 0 || color > 0xffffff)) {
+      throw new Error('Newsletter color must be an RGB value between 0x000000 and 0xFFFFFF');
+    }
+
+    const description = params.description?.trim() || undefined;
+    if (description && description.length > MAX_NEWSLETTER_DESCRIPTION_LENGTH) {
+      throw new Error(
+        `Newsletter description must be at most ${MAX_NEWSLETTER_DESCRIPTION_LENGTH} characters`,
+      );
+    }
+
+    const category = params.category?.trim() || undefined;
+    if (category && category.length > MAX_NEWSLETTER_CATEGORY_LENGTH) {
+      throw new Error(
+        `Newsletter category must be at most ${MAX_NEWSLETTER_CATEGORY_LENGTH} characters`,
+      );
+    }
+
+    // Discord only shows embed thumbnails served over HTTPS
+    const iconUrl = params.iconUrl?.trim() || undefined;
+    if (iconUrl && !/^https:\/\/\S+$/i.test(iconUrl)) {
+      throw new Error('Newsletter icon must be an https:// image URL');
+    }
+
     return new Newsletter(
       id,
       name.trim(),
@@ -66,10 +106,54 @@ export class Newsletter {
       senderEmail.trim().toLowerCase(),
       createdAt,
       updatedAt,
-      extractionPattern,
+      extractionPattern?.trim() || undefined,
+      color,
+      useArchiveLink,
+      description,
+      category,
+      iconUrl,
     );
   }
 
+  /**
+   * Check that an extraction pattern is a regular expression with a capture group for the URL
+   */
+  public static validateExtractionPattern(pattern: string): void {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern);
+    } catch {
+      throw new Error(`Invalid extraction pattern: ${pattern}`);
+    }
+
+    // Adding an empty alternative makes it match "", which reveals how many groups it has
+    if (new RegExp(`${regex.source}|`).exec('')!.length < 2) {
+      throw new Error('Extraction pattern needs a capture group around the URL');
+    }
+  }
+
+  /**
+   * Parse an accent color written as `#5865F2`, `5865F2` or `0x5865F2`
+   */
+  public static parseColor(value: string): number {
+    const hex = value.trim().replace(/^(#|0x)/i, '');
+
+    if (!/^[0-9a-f]{6}$/i.test(hex)) {
+      throw new Error(`Invalid newsletter color: ${value}`);
+    }
+
+    return parseInt(hex, 16);
+  }
+
+  /**
+   * Accent color formatted as `#RRGGBB`
+   */
+  public get colorHex(): string | undefined {
+    return this.color === undefined
+      ? undefined
+      : `#${this.color.toString(16).padStart(6, '0').toUpperCase()}`;
+  }
+
   /**
    * Check if an email comes from this newsletter
    */
@@ -0,0 +1,110 @@
+import { randomUUID } from 'crypto';
+
+export type DeactivationReason = 'guild_removed' | 'channel_deleted' | 'channel_unavailable';
+
+export const DEACTIVATION_REASONS: DeactivationReason[] = [
+  'guild_removed',
+  'channel_deleted',
+  'channel_unavailable',
+];
+
+/**
+ * Audit record of a subscription the bot deactivated on its own, kept so it can be restored
+ */
+export class SubscriptionDeactivation {
+  private constructor(
+    public readonly id: string,
+    public readonly subscriptionId: string,
+    public readonly guildId: string,
+    public readonly channelId: string,
+    public readonly newsletterId: string,
+    public readonly reason: DeactivationReason,
+    public readonly deactivatedAt: Date,
+    public readonly detail?: string,
+    public readonly restoredAt?: Date,
+  ) {}
+
+  /**
+   * Create a new SubscriptionDeactivation
+   */
+  public static create(params: {
+    subscriptionId: string;
+    guildId: string;
+    channelId: string;
+    newsletterId: string;
+    reason: DeactivationReason;
+    detail?: string;
+    id?: string;
+    deactivatedAt?: Date;
+    restoredAt?: Date;
+  }): SubscriptionDeactivation {
+    const {
+      subscriptionId,
+      guildId,
+      channelId,
+      newsletterId,
+      reason,
+      detail,
+      id = randomUUID(),
+      deactivatedAt = new Date(),
+      restoredAt,
+    } = params;
+
+    // Validation
+    if (!subscriptionId || subscriptionId.trim().length === 0) {
+      throw new Error('Subscription ID is required');
+    }
+
+    if (!guildId || guildId.trim().length === 0) {
+      throw new Error('Guild ID is required');
+    }
+
+    if (!channelId || channelId.trim().length === 0) {
+      throw new Error('Channel ID is required');
+    }
+
+    if (!newsletterId || newsletterId.trim().length === 0) {
+      throw new Error('Newsletter ID is required');
+    }
+
+    if (!DEACTIVATION_REASONS.includes(reason)) {
+      throw new Error(`Invalid deactivation reason: ${reason}`);
+    }
+
+    return new SubscriptionDeactivation(
+      id,
+      subscriptionId,
+      guildId,
+      channelId,
+      newsletterId,
+      reason,
+      deactivatedAt,
+      detail || undefined,
+      restoredAt,
+    );
+  }
+
+  /**
+   * Check whether the subscription has been reactivated since
+   */
+  public get isRestored(): boolean {
+    return this.restoredAt !== undefined;
+  }
+
+  /**
+   * Record that the subscription was reactivated
+   */
+  public markRestored(): SubscriptionDeactivation {
+    return new SubscriptionDeactivation(
+      this.id,
+      this.subscriptionId,
+      this.guildId,
+      this.channelId,
+      this.newsletterId,
+      this.reason,
+      this.deactivatedAt,
+      this.detail,
+      new Date(),
+    );
+  }
+}
@@ -8,6 +8,7 @@ export class TrackedLink {
     public readonly issueId: string,
     public readonly newsletterId: string,
     public readonly createdAt: Date,
+    public readonly guildId?: string,
   ) {}
 
   /**
@@ -17,6 +18,7 @@ export class TrackedLink {
     originalUrl: string;
     issueId: string;
     newsletterId: string;
+    guildId?: string;
     trackingId?: string;
     id?: string;
     createdAt?: Date;
@@ -25,6 +27,7 @@ export class TrackedLink {
       originalUrl,
       issueId,
       newsletterId,
+      guildId,
       trackingId = randomUUID().substring(0, 8),
       id = randomUUID(),
       createdAt = new Date(),
@@ -50,7 +53,15 @@ export class TrackedLink {
       throw new Error('Invalid original URL format');
     }
 
-    return new TrackedLink(id, originalUrl.trim(), trackingId, issueId, newsletterId, createdAt);
+    return new TrackedLink(
+      id,
+      originalUrl.trim(),
+      trackingId,
+      issueId,
+      newsletterId,
+      createdAt,
+      guildId,
+    );
   }
 
   /**
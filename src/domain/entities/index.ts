@@ -3,3 +3,6 @@ export * from './Issue';
 export * from './GuildSubscription';
 export * from './TrackedLink';
 export * from './LinkClick';
+export * from './Delivery';
+export * from './GuildSettings';
+export * from './SubscriptionDeactivation';
@@ -1,4 +1,5 @@
 import { RepositoryFactory } from './infrastructure/factories/repositoryFactory';
+import webConfig from './infrastructure/config/web';
 import { CronJob } from 'cron';
 import dotenv from 'dotenv';
 
@@ -13,6 +14,12 @@ async function main() {
     const discordClient = await RepositoryFactory.getDiscordClient();
     console.log('Discord client initialized');
 
+    // Start the web server for tracked link redirects
+    const webServer = webConfig.enabled ? await RepositoryFactory.getWebServer() : null;
+    if (webServer) {
+      await webServer.start();
+    }
+
     // Set up cron job for checking newsletters
     const checkNewslettersJob = new CronJob(
       '*/1 * * * *',
@@ -25,40 +32,41 @@ async function main() {
           console.log(
             `Processed ${pullResult.totalEmails} emails, found ${pullResult.extractedIssues} new issues`,
           );
+        } catch (error) {
+          console.error('Error pulling newsletters from the inbox:', error);
+        }
 
-          // Dispatch issues to Discord
-          if (pullResult.extractedIssues > 0) {
-            console.log('Dispatching issues to Discord...');
-            const dispatchUseCase = await RepositoryFactory.getDispatchIssueUseCase();
-
-            // Check for unprocessed issues
-            const issueRepo = await RepositoryFactory.getIssueRepository();
-            const unprocessedIssues = await issueRepo.getUnprocessed();
-            console.log(`Found ${unprocessedIssues.length} unprocessed issues to dispatch`);
+        // The outbox doesn't depend on the mail server, so retries, digests and issues saved
+        // before a crash still go out while the pull is failing
+        try {
+          // Resume timed pauses first, so their channels get this run's issues
+          const subscriptionService = await RepositoryFactory.getGuildSubscriptionService();
+          const resumed = await subscriptionService.resumeDueSubscriptions();
+          if (resumed > 0) {
+            console.log(`Resumed ${resumed} paused subscriptions`);
+          }
 
-            // Check subscriptions for each issue
-            for (const issue of unprocessedIssues) {
-              const subRepo = await RepositoryFactory.getGuildSubscriptionRepository();
-              const subs = await subRepo.getActiveByNewsletterId(issue.newsletterId);
-              console.log(
-                `Newsletter ${issue.newsletterId} has ${subs.length} active subscriptions`,
-              );
-            }
+          // Queue every unprocessed issue, then drain the outbox: new posts, retries and
+          // digests that are due
+          const dispatchUseCase = await RepositoryFactory.getDispatchIssueUseCase();
+          const dispatchResult = await dispatchUseCase.dispatchUnprocessedIssues();
+          if (dispatchResult.totalIssues > 0 || dispatchResult.totalChannels > 0) {
+            console.log(
+              `Queued ${dispatchResult.successfulIssues} of ${dispatchResult.totalIssues} issues, made ${dispatchResult.totalChannels} posts`,
+            );
+          }
 
-            const dispatchResult = await dispatchUseCase.dispatchUnprocessedIssues();
-            console.log(`Dispatch result:`, dispatchResult);
+          if (dispatchResult.deferredDeliveries > 0) {
             console.log(
-              `Dispatched ${dispatchResult.successfulIssues} issues to Discord (${dispatchResult.totalChannels} channels)`,
+              `Another run is still delivering; deferred ${dispatchResult.deferredDeliveries} deliveries`,
             );
+          }
 
-            if (dispatchResult.errors.length > 0) {
-              console.error('Dispatch errors:', dispatchResult.errors);
-            }
-          } else {
-            console.log('No new issues to dispatch');
+          if (dispatchResult.errors.length > 0) {
+            console.error('Dispatch errors:', dispatchResult.errors);
           }
         } catch (error) {
-          console.error('Error in scheduled newsletter check:', error);
+          console.error('Error dispatching issues:', error);
         }
       },
       null,
@@ -72,6 +80,9 @@ async function main() {
     process.on('SIGINT', async () => {
       console.log('Shutting down...');
       checkNewslettersJob.stop();
+      if (webServer) {
+        await webServer.stop();
+      }
       process.exit(0);
     });
 
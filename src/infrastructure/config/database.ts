@@ -0,0 +1,48 @@
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+export type StorageBackend = 'googlesheets' | 'postgres';
+
+export const databaseConfig = {
+  backend: (process.env.STORAGE_BACKEND || 'googlesheets').toLowerCase() as StorageBackend,
+  host: process.env.DB_HOST || 'localhost',
+  port: parseInt(process.env.DB_PORT || '5432', 10),
+  user: process.env.DB_USER || '',
+  password: process.env.DB_PASSWORD || '',
+  database: process.env.DB_NAME || '',
+  ssl: process.env.DB_SSL === 'true',
+  /** Server certificates are verified unless explicitly turned off */
+  sslRejectUnauthorized: process.env.DB_SSL_REJECT_UNAUTHORIZED !== 'false',
+  /** Path to a PEM file with the CA that signed the server certificate */
+  sslCaPath: process.env.DB_SSL_CA || '',
+  maxConnections: parseInt(process.env.DB_POOL_SIZE || '10', 10),
+};
+
+// Validate the configuration
+export function validateDatabaseConfig(): void {
+  if (databaseConfig.backend !== 'googlesheets' && databaseConfig.backend !== 'postgres') {
+    throw new Error(
+      `STORAGE_BACKEND must be "googlesheets" or "postgres", got "${databaseConfig.backend}"`,
+    );
+  }
+
+  // Connection settings only matter when Postgres is the selected backend
+  if (databaseConfig.backend !== 'postgres') {
+    return;
+  }
+
+  if (!databaseConfig.user) {
+    throw new Error('DB_USER is required when STORAGE_BACKEND is "postgres"');
+  }
+
+  if (!databaseConfig.database) {
+    throw new Error('DB_NAME is required when STORAGE_BACKEND is "postgres"');
+  }
+}
+
+// Validate on import
+validateDatabaseConfig();
+
+export default databaseConfig;
@@ -7,6 +7,11 @@ export const discordConfig = {
   botToken: process.env.DISCORD_BOT_TOKEN || '',
   clientId: process.env.DISCORD_CLIENT_ID || '',
   guildId: process.env.DISCORD_GUILD_ID || '', // For testing or specific guild commands
+  // Users allowed to run /newsletter; defaults to the application's owner or team
+  ownerIds: (process.env.DISCORD_OWNER_IDS || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter((id) => id.length > 0),
 };
 
 // Validate the configuration
@@ -18,6 +23,11 @@ export function validateDiscordConfig(): void {
   if (!discordConfig.clientId) {
     throw new Error('DISCORD_CLIENT_ID is required in .env file');
   }
+
+  const invalidOwnerId = discordConfig.ownerIds.find((id) => !/^\d{17,20}$/.test(id));
+  if (invalidOwnerId) {
+    throw new Error(`DISCORD_OWNER_IDS contains an invalid user ID: ${invalidOwnerId}`);
+  }
 }
 
 // Validate on import
@@ -0,0 +1,49 @@
+import dotenv from 'dotenv';
+import { IANAZone } from 'luxon';
+
+// Load environment variables
+dotenv.config();
+
+export const dispatchConfig = {
+  maxAttempts: parseInt(process.env.DISPATCH_MAX_ATTEMPTS || '5', 10),
+  retryBaseDelayMs: parseInt(process.env.DISPATCH_RETRY_BASE_DELAY_MS || '60000', 10),
+  retryMaxDelayMs: parseInt(process.env.DISPATCH_RETRY_MAX_DELAY_MS || '21600000', 10),
+  // Subscriptions are deactivated once a channel has been missing or off-limits this many times
+  channelFailureThreshold: parseInt(process.env.DISPATCH_CHANNEL_FAILURE_THRESHOLD || '3', 10),
+  // Digest send times are read in this timezone for servers that haven't set one with /settings
+  digestTimezone: process.env.DIGEST_TIMEZONE || 'UTC',
+};
+
+// Validate the configuration
+export function validateDispatchConfig(): void {
+  if (!Number.isInteger(dispatchConfig.maxAttempts) || dispatchConfig.maxAttempts < 1) {
+    throw new Error('DISPATCH_MAX_ATTEMPTS must be a positive integer');
+  }
+
+  if (Number.isNaN(dispatchConfig.retryBaseDelayMs) || dispatchConfig.retryBaseDelayMs < 0) {
+    throw new Error('DISPATCH_RETRY_BASE_DELAY_MS must be a non-negative number');
+  }
+
+  if (
+    Number.isNaN(dispatchConfig.retryMaxDelayMs) ||
+    dispatchConfig.retryMaxDelayMs < dispatchConfig.retryBaseDelayMs
+  ) {
+    throw new Error('DISPATCH_RETRY_MAX_DELAY_MS must be at least DISPATCH_RETRY_BASE_DELAY_MS');
+  }
+
+  if (
+    !Number.isInteger(dispatchConfig.channelFailureThreshold) ||
+    dispatchConfig.channelFailureThreshold < 1
+  ) {
+    throw new Error('DISPATCH_CHANNEL_FAILURE_THRESHOLD must be a positive integer');
+  }
+
+  if (!IANAZone.isValidZone(dispatchConfig.digestTimezone)) {
+    throw new Error('DIGEST_TIMEZONE must be an IANA timezone such as Europe/Berlin');
+  }
+}
+
+// Validate on import
+validateDispatchConfig();
+
+export default dispatchConfig;
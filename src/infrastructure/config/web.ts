@@ -0,0 +1,55 @@
+import dotenv from 'dotenv';
+import databaseConfig from './database';
+
+// Load environment variables
+dotenv.config();
+
+export const webConfig = {
+  enabled: process.env.WEB_SERVER_ENABLED === 'true',
+  port: parseInt(process.env.WEB_SERVER_PORT || '3000', 10),
+  publicBaseUrl: process.env.PUBLIC_BASE_URL || '',
+  ipHashSalt: process.env.TRACKING_IP_SALT || '',
+  trustProxy: process.env.WEB_TRUST_PROXY === 'true',
+  linkTrackingEnabled: process.env.LINK_TRACKING_ENABLED === 'true',
+  archiveLinksEnabled: process.env.ARCHIVE_LINKS_ENABLED === 'true',
+};
+
+// Validate the configuration
+export function validateWebConfig(): void {
+  if (webConfig.linkTrackingEnabled || webConfig.archiveLinksEnabled) {
+    if (!webConfig.publicBaseUrl) {
+      throw new Error(
+        'PUBLIC_BASE_URL is required when LINK_TRACKING_ENABLED or ARCHIVE_LINKS_ENABLED is true',
+      );
+    }
+
+    try {
+      new URL(webConfig.publicBaseUrl);
+    } catch {
+      throw new Error('PUBLIC_BASE_URL must be a valid URL');
+    }
+  }
+
+  // Tracked links are stored in PostgreSQL; failing here beats failing every dispatch
+  if (webConfig.linkTrackingEnabled && databaseConfig.backend !== 'postgres') {
+    throw new Error('LINK_TRACKING_ENABLED=true requires STORAGE_BACKEND=postgres');
+  }
+
+  if (!webConfig.enabled) {
+    return;
+  }
+
+  // Click tracking is only served with the PostgreSQL backend
+  if (!webConfig.ipHashSalt && databaseConfig.backend === 'postgres') {
+    throw new Error('TRACKING_IP_SALT is required when WEB_SERVER_ENABLED is true');
+  }
+
+  if (Number.isNaN(webConfig.port)) {
+    throw new Error('WEB_SERVER_PORT must be a number');
+  }
+}
+
+// Validate on import
+validateWebConfig();
+
+export default webConfig;
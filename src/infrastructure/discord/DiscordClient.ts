@@ -2,16 +2,17 @@ import {
   Client,
   GatewayIntentBits,
   TextChannel,
+  NewsChannel,
+  ForumChannel,
   EmbedBuilder,
-  GuildChannel,
   ChannelType,
-  Collection,
-  Message,
   Colors,
-  REST,
-  Routes,
-  APIEmbed,
   Interaction,
+  MessageMentionOptions,
+  DiscordAPIError,
+  RESTJSONErrorCodes,
+  PermissionFlagsBits,
+  PermissionsBitField,
 } from 'discord.js';
 import { SlashCommandManager } from './SlashCommands';
 import { HandleDiscordCommandsUseCase } from '../../application/usecases/HandleDiscordCommandsUseCase';
@@ -19,12 +20,44 @@ import { RepositoryFactory } from '../factories/repositoryFactory';
 interface PostOptions {
   channelId: string;
   title: string;
-  url: string;
+  url?: string;
   description?: string;
+  fields?: Array<{ name: string; value: string }>;
   color?: number;
   timestamp?: Date;
   footer?: string;
   thumbnailUrl?: string;
+  imageUrl?: string;
+  author?: { name: string; url?: string };
+  nonce?: string;
+  /** Plain message text sent above the embed, e.g. a role mention */
+  content?: string;
+  /** Who the content may ping; defaults to nobody */
+  allowedMentions?: MessageMentionOptions;
+  /** Tag applied to the post in a forum channel, created if the forum doesn't have it yet */
+  forumTag?: string;
+  /** Start a discussion thread under the post in a text or announcement channel */
+  createThread?: boolean;
+  /** Publish the post to servers following an announcement channel */
+  crosspost?: boolean;
+}
+
+// Discord limits for thread names, forum tag names and tags per forum
+const MAX_THREAD_NAME_LENGTH = 100;
+const MAX_FORUM_TAG_NAME_LENGTH = 20;
+const MAX_FORUM_TAGS = 20;
+
+// What the bot needs in a channel to post newsletters there
+const REQUIRED_CHANNEL_PERMISSIONS = [
+  PermissionFlagsBits.ViewChannel,
+  PermissionFlagsBits.SendMessages,
+  PermissionFlagsBits.EmbedLinks,
+];
+
+interface QueuedPost {
+  options: PostOptions;
+  resolve: (messageId: string) => void;
+  reject: (error: unknown) => void;
 }
 
 export class DiscordClient {
@@ -32,7 +65,7 @@ export class DiscordClient {
   private token: string;
   private clientId: string;
   private isReady: boolean = false;
-  private rateLimitQueue: Map<string, PostOptions[]> = new Map();
+  private rateLimitQueue: Map<string, QueuedPost[]> = new Map();
   private processingQueue: boolean = false;
   private commandManager: SlashCommandManager;
   private commandUseCase: HandleDiscordCommandsUseCase | null = null;
@@ -121,11 +154,41 @@ export class DiscordClient {
       this.deployCommandsToGuild(guild.id).catch((error) =>
         console.error(`Failed to deploy commands to guild ${guild.id}:`, error),
       );
+      // Bring back the subscriptions it had before it was removed
+      RepositoryFactory.getSubscriptionCleanupService()
+        .then((cleanup) => cleanup.restoreGuild(guild.id))
+        .then((restored) => {
+          if (restored > 0) {
+            console.log(`Restored ${restored} subscriptions in guild ${guild.id}`);
+          }
+        })
+        .catch((error) =>
+          console.error(`Failed to restore subscriptions in guild ${guild.id}:`, error),
+        );
     });
 
-    // Guild leave event - fires when the bot leaves a server
+    // Guild leave event - fires when the bot is kicked or the server is deleted
+    // (outages emit guildUnavailable instead)
     this.client.on('guildDelete', (guild) => {
       console.log(`Bot left a guild: ${guild.name} (${guild.id})`);
+      RepositoryFactory.getSubscriptionCleanupService()
+        .then((cleanup) => cleanup.deactivateGuild(guild.id))
+        .catch((error) =>
+          console.error(`Failed to deactivate subscriptions in guild ${guild.id}:`, error),
+        );
+    });
+
+    // Channel delete event - fires when a channel the bot can see is deleted
+    this.client.on('channelDelete', (channel) => {
+      if (channel.isDMBased()) return;
+
+      RepositoryFactory.getSubscriptionCleanupService()
+        .then((cleanup) =>
+          cleanup.deactivateChannel(channel.guildId, channel.id, 'channel_deleted'),
+        )
+        .catch((error) =>
+          console.error(`Failed to deactivate subscriptions in channel ${channel.id}:`, error),
+        );
     });
 
     // Interaction event - fires when a user uses a slash command
@@ -135,6 +198,15 @@ export class DiscordClient {
       if (interaction.isCommand()) {
         console.log(`Handling command: ${interaction.commandName}`);
         await this.commandManager.handleInteraction(interaction);
+      } else if (interaction.isButton()) {
+        await this.commandManager
+          .handleButton(interaction)
+          .catch((error) => console.error('Error handling button:', error));
+      } else if (interaction.isModalSubmit()) {
+        console.log(`Handling modal submit: ${interaction.customId}`);
+        await this.commandManager
+          .handleModalSubmit(interaction)
+          .catch((error) => console.error('Error handling modal submit:', error));
       } else if (interaction.isAutocomplete()) {
         console.log(`Handling autocomplete for: ${interaction.commandName}`);
         await this.handleAutocomplete(interaction);
@@ -146,10 +218,16 @@ export class DiscordClient {
     if (!interaction.isAutocomplete()) return;
 
     try {
-      if (interaction.commandName === 'subscribe') {
+      if (['subscribe', 'newsletter', 'latest', 'issues'].includes(interaction.commandName)) {
         await this.handleNewsletterAutocomplete(interaction);
-      } else if (interaction.commandName === 'unsubscribe') {
+      } else if (['unsubscribe', 'filter', 'pause', 'resume'].includes(interaction.commandName)) {
         await this.handleSubscribedNewsletterAutocomplete(interaction);
+      } else if (interaction.commandName === 'move') {
+        await this.handleSubscribedNewsletterAutocomplete(interaction, 'from');
+      } else if (interaction.commandName === 'settings') {
+        await this.handleTimezoneAutocomplete(interaction);
+      } else if (interaction.commandName === 'browse') {
+        await this.handleCategoryAutocomplete(interaction);
       }
     } catch (error) {
       console.error('Error handling autocomplete:', error);
@@ -177,13 +255,19 @@ export class DiscordClient {
     }
   }
 
-  private async handleSubscribedNewsletterAutocomplete(interaction: any): Promise<void> {
+  private async handleSubscribedNewsletterAutocomplete(
+    interaction: any,
+    channelOption: string = 'channel',
+  ): Promise<void> {
     try {
       const useCase = await this.getCommandUseCase();
-      const result = await useCase.listNewsletters(interaction.guildId, interaction.channelId);
+      // Channel options arrive unresolved during autocomplete, so read the raw ID
+      const channelId = interaction.options.get(channelOption)?.value ?? interaction.channelId;
+      const result = await useCase.listNewsletters(interaction.guildId, channelId);
 
       const focusedValue = interaction.options.getFocused().toLowerCase();
       const filtered = result.subscriptions
+        .filter((sub) => interaction.commandName !== 'resume' || (sub.active && sub.paused))
         .filter((sub) => sub.newsletterName.toLowerCase().includes(focusedValue))
         .slice(0, 25); // Discord has a limit of 25 choices
 
@@ -199,25 +283,59 @@ export class DiscordClient {
     }
   }
 
+  private async handleCategoryAutocomplete(interaction: any): Promise<void> {
+    try {
+      const useCase = await RepositoryFactory.getBrowseNewslettersUseCase();
+      const categories = await useCase.getCategories();
+
+      const focusedValue = interaction.options.getFocused().toLowerCase();
+      const filtered = categories
+        .filter((category) => category.toLowerCase().includes(focusedValue))
+        .slice(0, 25); // Discord has a limit of 25 choices
+
+      await interaction.respond(filtered.map((category) => ({ name: category, value: category })));
+    } catch (error) {
+      console.error('Error handling category autocomplete:', error);
+      await interaction.respond([]);
+    }
+  }
+
+  private async handleTimezoneAutocomplete(interaction: any): Promise<void> {
+    try {
+      const focusedValue = interaction.options.getFocused().toLowerCase().replace(/ /g, '_');
+      const filtered = Intl.supportedValuesOf('timeZone')
+        .filter((timezone) => timezone.toLowerCase().includes(focusedValue))
+        .slice(0, 25); // Discord has a limit of 25 choices
+
+      await interaction.respond(filtered.map((timezone) => ({ name: timezone, value: timezone })));
+    } catch (error) {
+      console.error('Error handling timezone autocomplete:', error);
+      await interaction.respond([]);
+    }
+  }
+
   /**
    * Post a newsletter to a Discord channel
+   * @returns The ID of the Discord message, once it has actually been sent
    */
-  async postToChannel(options: PostOptions): Promise<void> {
+  async postToChannel(options: PostOptions): Promise<string> {
     if (!this.isReady) {
       throw new Error('Discord client is not ready. Call initialize() first');
     }
 
-    // Add to rate limit queue for the channel
-    if (!this.rateLimitQueue.has(options.channelId)) {
-      this.rateLimitQueue.set(options.channelId, []);
-    }
+    return new Promise<string>((resolve, reject) => {
+      // Add to rate limit queue for the channel
+      if (!this.rateLimitQueue.has(options.channelId)) {
+        this.rateLimitQueue.set(options.channelId, []);
+      }
 
-    this.rateLimitQueue.get(options.channelId)?.push(options);
+      this.rateLimitQueue.get(options.channelId)?.push({ options, resolve, reject });
 
-    // Start queue processing if not already running
-    if (!this.processingQueue) {
-      this.processRateLimitQueue();
-    }
+      // Start queue processing if not already running
+      if (!this.processingQueue) {
+        this.processRateLimitQueue();
+      }
+    });
   }
 
   /**
@@ -238,13 +356,14 @@ export class DiscordClient {
         }
 
         // Get the next item from the queue
-        const postOptions = queue.shift();
-        if (!postOptions) {
+        const post = queue.shift();
+        if (!post) {
           continue;
         }
 
         try {
-          await this.sendMessageToChannel(postOptions);
+          const messageId = await this.sendMessageToChannel(post.options);
+          post.resolve(messageId);
 
           // Rate limit: Wait 1 second between messages to same channel
           await new Promise((resolve) => setTimeout(resolve, 1000));
@@ -253,10 +372,12 @@ export class DiscordClient {
 
           if (this.isRateLimitError(error)) {
             // If rate limited, push back to front of queue and wait
-            queue.unshift(postOptions);
+            queue.unshift(post);
             const retryAfter = this.getRetryAfterTime(error) || 5000;
             console.log(`Rate limited. Retrying after ${retryAfter}ms`);
             await new Promise((resolve) => setTimeout(resolve, retryAfter));
+          } else {
+            post.reject(error);
           }
         }
       }
@@ -269,56 +390,227 @@ export class DiscordClient {
       }
 
       // If there are still items in the queue, continue processing
+      this.processingQueue = false;
       if (this.rateLimitQueue.size > 0) {
         setTimeout(() => this.processRateLimitQueue(), 100);
-      } else {
-        this.processingQueue = false;
       }
     }
   }
 
   /**
    * Send an actual message to a Discord channel
+   * @returns The ID of the sent message
    */
-  private async sendMessageToChannel(options: PostOptions): Promise<void> {
+  private async sendMessageToChannel(options: PostOptions): Promise<string> {
     try {
       // Try to fetch the channel
       const channel = await this.client.channels.fetch(options.channelId);
 
-      if (!channel || channel.type !== ChannelType.GuildText) {
-        throw new Error(`Channel ${options.channelId} is not a text channel`);
+      if (!channel) {
+        throw new Error(`Channel ${options.channelId} not found`);
       }
 
-      const textChannel = channel as TextChannel;
+      const embed = this.buildEmbed(options);
 
-      // Create the embed
-      const embed = new EmbedBuilder()
-        .setTitle(options.title)
-        .setURL(options.url)
-        .setColor(options.color || Colors.Blue)
-        .setTimestamp(options.timestamp || new Date());
+      if (channel.type === ChannelType.GuildForum) {
+        return await this.postToForum(channel as ForumChannel, options, embed);
+      }
 
-      if (options.description) {
-        embed.setDescription(options.description);
+      if (
+        channel.type !== ChannelType.GuildText &&
+        channel.type !== ChannelType.GuildAnnouncement
+      ) {
+        throw new Error(
+          `Channel ${options.channelId} is not a text, announcement or forum channel`,
+        );
       }
 
-      if (options.footer) {
-        embed.setFooter({ text: options.footer });
+      const textChannel = channel as TextChannel | NewsChannel;
+
+      // Send the message; an enforced nonce makes Discord drop a duplicate resend
+      const message = await textChannel.send({
+        content: options.content,
+        embeds: [embed],
+        allowedMentions: options.allowedMentions ?? { parse: [] },
+        ...(options.nonce ? { nonce: options.nonce, enforceNonce: true } : {}),
+      });
+      console.log(`Posted newsletter to channel ${options.channelId}`);
+
+      // The post is already out, so follow-up failures are logged rather than retried
+      if (options.createThread) {
+        await message
+          .startThread({ name: this.getThreadName(options.title) })
+          .catch((error) =>
+            console.error(`Error starting thread in channel ${options.channelId}:`, error),
+          );
       }
 
-      if (options.thumbnailUrl) {
-        embed.setThumbnail(options.thumbnailUrl);
+      if (options.crosspost && channel.type === ChannelType.GuildAnnouncement) {
+        await message
+          .crosspost()
+          .catch((error) =>
+            console.error(`Error crossposting message in channel ${options.channelId}:`, error),
+          );
       }
 
-      // Send the message
-      await textChannel.send({ embeds: [embed] });
-      console.log(`Posted newsletter to channel ${options.channelId}`);
+      return message.id;
     } catch (error) {
       console.error(`Error sending message to channel ${options.channelId}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Open a forum post for an issue, titled after the issue and tagged with the newsletter
+   * @returns The ID of the post's starter message, which is also the thread ID
+   */
+  private async postToForum(
+    channel: ForumChannel,
+    options: PostOptions,
+    embed: EmbedBuilder,
+  ): Promise<string> {
+    const appliedTags = options.forumTag
+      ? await this.getForumTagIds(channel, options.forumTag)
+      : [];
+
+    // Forum posts don't accept a nonce, so look for the post a crash may have left behind
+    const name = this.getThreadName(options.title);
+    const existingId = await this.findForumPost(channel, name, embed);
+    if (existingId) {
+      console.log(`Forum post already exists in channel ${options.channelId}, not posting again`);
+      return existingId;
+    }
+
+    const thread = await channel.threads.create({
+      name,
+      message: {
+        content: options.content,
+        embeds: [embed],
+        allowedMentions: options.allowedMentions ?? { parse: [] },
+      },
+      appliedTags,
+    });
+    console.log(`Opened forum post in channel ${options.channelId}`);
+
+    return thread.id;
+  }
+
+  /**
+   * Find an open forum post by the bot with the given name whose starter message carries the
+   * same embed, i.e. the post was made but the bot crashed before recording it
+   * @returns The thread ID, or null if there is no such post
+   */
+  private async findForumPost(
+    channel: ForumChannel,
+    name: string,
+    embed: EmbedBuilder,
+  ): Promise<string | null> {
+    try {
+      const { threads } = await channel.threads.fetchActive();
+
+      for (const thread of threads.values()) {
+        if (thread.ownerId !== this.client.user?.id || thread.name !== name) {
+          continue;
+        }
+
+        const starter = await thread.fetchStarterMessage().catch(() => null);
+        const posted = starter?.embeds[0];
+        if (
+          posted &&
+          posted.title === (embed.data.title ?? null) &&
+          posted.url === (embed.data.url ?? null) &&
+          posted.description === (embed.data.description ?? null) &&
+          JSON.stringify(posted.fields.map((field) => [field.name, field.value])) ===
+            JSON.stringify((embed.data.fields ?? []).map((field) => [field.name, field.value]))
+        ) {
+          return thread.id;
+        }
+      }
+    } catch (error) {
+      // Posting a possible duplicate beats not posting at all
+      console.warn(`Could not check forum ${channel.id} for an existing post:`, error);
+    }
+
+    return null;
+  }
+
+  /**
+   * Find a forum tag by name, creating it when the bot is allowed to
+   */
+  private async getForumTagIds(channel: ForumChannel, name: string): Promise<string[]> {
+    const tagName = name.substring(0, MAX_FORUM_TAG_NAME_LENGTH);
+    const existing = channel.availableTags.find(
+      (tag) => tag.name.toLowerCase() === tagName.toLowerCase(),
+    );
+    if (existing) {
+      return [existing.id];
+    }
+
+    if (channel.availableTags.length >= MAX_FORUM_TAGS) {
+      console.warn(`Forum ${channel.id} has no room for a "${tagName}" tag`);
+      return [];
+    }
+
+    try {
+      const updated = await channel.setAvailableTags([...channel.availableTags, { name: tagName }]);
+      const created = updated.availableTags.find((tag) => tag.name === tagName);
+      return created ? [created.id] : [];
+    } catch (error) {
+      // Usually a missing Manage Channels permission; post untagged instead
+      console.warn(`Could not create tag "${tagName}" in forum ${channel.id}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Build the embed for a newsletter post
+   */
+  private buildEmbed(options: PostOptions): EmbedBuilder {
+    const embed = new EmbedBuilder()
+      .setTitle(options.title)
+      .setColor(options.color ?? Colors.Blue)
+      .setTimestamp(options.timestamp || new Date());
+
+    if (options.url) {
+      embed.setURL(options.url);
+    }
+
+    if (options.description) {
+      embed.setDescription(options.description);
+    }
+
+    if (options.fields) {
+      embed.addFields(options.fields);
+    }
+
+    if (options.footer) {
+      embed.setFooter({ text: options.footer });
+    }
+
+    if (options.thumbnailUrl) {
+      embed.setThumbnail(options.thumbnailUrl);
+    }
+
+    if (options.imageUrl) {
+      embed.setImage(options.imageUrl);
+    }
+
+    if (options.author) {
+      embed.setAuthor(options.author);
+    }
+
+    return embed;
+  }
+
+  /**
+   * Shorten an issue title to fit a thread name
+   */
+  private getThreadName(title: string): string {
+    return title.length > MAX_THREAD_NAME_LENGTH
+      ? `${title.substring(0, MAX_THREAD_NAME_LENGTH - 1)}…`
+      : title;
+  }
+
   /**
    * Check if a guild (server) exists
    */
@@ -326,7 +618,7 @@ export class DiscordClient {
     try {
       const guild = await this.client.guilds.fetch(guildId);
       return !!guild;
-    } catch (error) {
+    } catch {
       return false;
     }
   }
@@ -339,13 +631,63 @@ export class DiscordClient {
       const guild = await this.client.guilds.fetch(guildId);
       const channel = await guild.channels.fetch(channelId);
       return !!channel;
-    } catch (error) {
+    } catch {
       return false;
     }
   }
 
   /**
-   * Get available text channels in a guild
+   * Check whether the bot can post newsletters in a channel
+   * @returns null if the guild or channel is gone, otherwise the names of the
+   * permissions the bot is missing there (e.g. `SendMessages`)
+   * @throws When Discord can't be asked, e.g. during an outage; that says nothing about the channel
+   */
+  async getMissingChannelPermissions(guildId: string, channelId: string): Promise<string[] | null> {
+    let guild;
+    try {
+      guild = await this.client.guilds.fetch(guildId);
+    } catch (error) {
+      if (this.isGuildUnavailableError(error)) {
+        return null;
+      }
+      throw error;
+    }
+
+    // Listing a guild's channels also returns the ones the bot can't view
+    const channels = await guild.channels.fetch();
+    const channel = channels.get(channelId);
+    if (!channel) {
+      return null;
+    }
+
+    const me = await guild.members.fetchMe();
+    const permissions = channel.permissionsFor(me);
+
+    return new PermissionsBitField(REQUIRED_CHANNEL_PERMISSIONS)
+      .remove(permissions)
+      .toArray()
+      .map(String);
+  }
+
+  /**
+   * Allow the bot to view, post and embed links in a channel with a permission overwrite.
+   * The bot needs the Manage Roles permission for this.
+   */
+  async grantChannelPermissions(guildId: string, channelId: string): Promise<void> {
+    const guild = await this.client.guilds.fetch(guildId);
+    const channel = await guild.channels.fetch(channelId);
+    if (!channel || channel.isThread()) {
+      throw new Error(`Channel ${channelId} not found`);
+    }
+
+    const overwrite = Object.fromEntries(
+      new PermissionsBitField(REQUIRED_CHANNEL_PERMISSIONS).toArray().map((name) => [name, true]),
+    );
+    await channel.permissionOverwrites.edit(await guild.members.fetchMe(), overwrite);
+  }
+
+  /**
+   * Get the channels in a guild that newsletters can be posted to
    */
   async getGuildTextChannels(guildId: string): Promise<{ id: string; name: string }[]> {
     try {
@@ -353,7 +695,12 @@ export class DiscordClient {
       const channels = await guild.channels.fetch();
 
       return channels
-        .filter((channel) => channel?.type === ChannelType.GuildText)
+        .filter(
+          (channel) =>
+            channel?.type === ChannelType.GuildText ||
+            channel?.type === ChannelType.GuildAnnouncement ||
+            channel?.type === ChannelType.GuildForum,
+        )
         .map((channel) => ({
           id: channel.id,
           name: channel.name,
@@ -371,6 +718,28 @@ export class DiscordClient {
     return error.httpStatus === 429 || (error.message && error.message.includes('rate limit'));
   }
 
+  /**
+   * Check whether an error means the channel no longer exists or the bot can't see it
+   */
+  isChannelUnavailableError(error: unknown): boolean {
+    return (
+      error instanceof DiscordAPIError &&
+      (error.code === RESTJSONErrorCodes.UnknownChannel ||
+        error.code === RESTJSONErrorCodes.MissingAccess)
+    );
+  }
+
+  /**
+   * Whether an error means the guild is gone or the bot is no longer in it
+   */
+  private isGuildUnavailableError(error: unknown): boolean {
+    return (
+      error instanceof DiscordAPIError &&
+      (error.code === RESTJSONErrorCodes.UnknownGuild ||
+        error.code === RESTJSONErrorCodes.MissingAccess)
+    );
+  }
+
   /**
    * Extract retry-after time from a rate limit error
    */
@@ -9,6 +9,7 @@ export class OAuthHelper {
     // - Embed Links (for rich embeds)
     // - Attach Files (for potential future attachments)
     // - Use Slash Commands (for command registration)
+    // - Create Public Threads and Send Messages in Threads (for forum posts and discussion threads)
 
     const permissions = [
       '268435456', // View Channels
@@ -16,6 +17,8 @@ export class OAuthHelper {
       '16384', // Embed Links
       '32768', // Attach Files
       '2147483648', // Use Slash Commands
+      '34359738368', // Create Public Threads
+      '274877906944', // Send Messages in Threads
     ].reduce((a, b) => (BigInt(a) + BigInt(b)).toString());
 
     const scopes = ['bot', 'applications.commands'].join('%20');
@@ -1,21 +1,69 @@
-import { EmbedBuilder, SlashCommandBuilder } from '@discordjs/builders';
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  EmbedBuilder,
+  LabelBuilder,
+  ModalBuilder,
+  SlashCommandBuilder,
+  SlashCommandSubcommandBuilder,
+  TextInputBuilder,
+} from '@discordjs/builders';
 import { REST } from '@discordjs/rest';
 import { Routes } from 'discord-api-types/v9';
 import { HandleDiscordCommandsUseCase } from '../../application/usecases/HandleDiscordCommandsUseCase';
 import { RepositoryFactory } from '../factories/repositoryFactory';
-import { Colors } from 'discord.js';
+import { MENTION_HERE } from '../../domain/entities/GuildSubscription';
+import { Issue } from '../../domain/entities/Issue';
+import { SubscriptionProblem } from '../../application/usecases/CheckSubscriptionHealthUseCase';
+import {
+  MAX_NEWSLETTER_CATEGORY_LENGTH,
+  MAX_NEWSLETTER_DESCRIPTION_LENGTH,
+  Newsletter,
+} from '../../domain/entities/Newsletter';
+import discordConfig from '../config/discord';
+import { ButtonStyle, ChannelType, Colors, PermissionFlagsBits, TextInputStyle } from 'discord.js';
 
 export interface SlashCommand {
   data: SlashCommandBuilder;
   execute: (interaction: any) => Promise<void>;
+  /** Only members with Manage Channels or the guild's newsletter manager role may run it */
+  requiresManager?: boolean;
+  /** Only the bot's owners may run it */
+  ownerOnly?: boolean;
 }
 
+// Modal custom IDs are `newsletter:<action>` or `newsletter:<action>:<newsletter ID>`
+const NEWSLETTER_MODAL_PREFIX = 'newsletter';
+
+// Button custom IDs are `browse:page:<page>:<category>` or `browse:subscribe:<newsletter ID>`
+const BROWSE_BUTTON_PREFIX = 'browse';
+
+// Button custom IDs are `issues:page:<newsletter ID>:<limit>:<page>`
+const ISSUES_BUTTON_PREFIX = 'issues';
+const ISSUES_PAGE_SIZE = 10;
+const MAX_ISSUES_LIMIT = 50;
+
+// Posting is rate limited per channel, so keep backfills short enough to finish in the reply
+const MAX_BACKFILL_ISSUES = 10;
+
+// Button custom IDs are `doctor:<fix|remove>:<subscription ID>`
+const DOCTOR_BUTTON_PREFIX = 'doctor';
+// One row of buttons per problem, and a message holds at most 5 rows
+const MAX_DOCTOR_PROBLEMS = 5;
+
+// Embed titles are capped at 256 characters
+const MAX_EMBED_TITLE_LENGTH = 256;
+
+// Button labels are capped at 80 characters
+const MAX_BUTTON_LABEL_LENGTH = 80;
+
 export class SlashCommandManager {
   private commands: SlashCommand[] = [];
   private rest: REST;
   private clientId: string;
   private token: string;
   private commandUseCase: HandleDiscordCommandsUseCase | null = null;
+  private ownerIds: string[] | null = null;
 
   constructor(token: string, clientId: string) {
     this.token = token;
@@ -28,13 +76,7 @@ export class SlashCommandManager {
 
   private async getCommandUseCase(): Promise<HandleDiscordCommandsUseCase> {
     if (!this.commandUseCase) {
-      const guildSubscriptionRepository = await RepositoryFactory.getGuildSubscriptionRepository();
-      const newsletterRepository = await RepositoryFactory.getNewsletterRepository();
-
-      this.commandUseCase = new HandleDiscordCommandsUseCase(
-        guildSubscriptionRepository,
-        newsletterRepository,
-      );
+      this.commandUseCase = await RepositoryFactory.getHandleDiscordCommandsUseCase();
     }
 
     return this.commandUseCase;
@@ -47,32 +89,103 @@ export class SlashCommandManager {
     const listCommand = {
       data: new SlashCommandBuilder()
         .setName('newsletters')
-        .setDescription('List all newsletter subscriptions for this channel'),
+        .setDescription('List all newsletter subscriptions for this channel')
+        .addBooleanOption((option) =>
+          option
+            .setName('all')
+            .setDescription('List subscriptions in every channel of this server')
+            .setRequired(false),
+        ),
       execute: async (interaction: any) => {
         await interaction.deferReply();
 
         try {
           const useCase = await this.getCommandUseCase();
-          const result = await useCase.listNewsletters(interaction.guildId, interaction.channelId);
+          const allChannels = interaction.options.getBoolean('all') ?? false;
+          const result = await useCase.listNewsletters(
+            interaction.guildId,
+            allChannels ? undefined : interaction.channelId,
+          );
 
           if (result.subscriptions.length === 0) {
-            await interaction.editReply('This channel is not subscribed to any newsletters.');
+            await interaction.editReply(
+              allChannels
+                ? 'This server is not subscribed to any newsletters.'
+                : 'This channel is not subscribed to any newsletters.',
+            );
             return;
           }
 
-          const embed = new EmbedBuilder()
-            .setTitle('Newsletter Subscriptions')
-            .setDescription('This channel is subscribed to the following newsletters:')
-            .setColor(Colors.Blue);
+          const active = result.subscriptions.filter((sub) => sub.active && !sub.paused);
+          const paused = result.subscriptions.filter((sub) => sub.active && sub.paused);
+          const deactivated = result.subscriptions.filter((sub) => !sub.active);
+          const embeds: EmbedBuilder[] = [];
 
-          result.subscriptions.forEach((sub) => {
-            embed.addFields({
-              name: sub.newsletterName,
-              value: `ID: ${sub.newsletterId}`,
+          if (active.length > 0) {
+            const embed = new EmbedBuilder()
+              .setTitle('Newsletter Subscriptions')
+              .setDescription(
+                allChannels
+                  ? 'This server is subscribed to the following newsletters:'
+                  : 'This channel is subscribed to the following newsletters:',
+              )
+              .setColor(Colors.Blue);
+
+            // Embeds allow 25 fields
+            active.slice(0, 25).forEach((sub) => {
+              embed.addFields({
+                name: sub.newsletterName,
+                value: allChannels
+                  ? `<#${sub.channelId}> · ID: ${sub.newsletterId}`
+                  : `ID: ${sub.newsletterId}`,
+              });
             });
-          });
 
-          await interaction.editReply({ embeds: [embed] });
+            embeds.push(embed);
+          }
+
+          if (paused.length > 0) {
+            const embed = new EmbedBuilder()
+              .setTitle('Paused')
+              .setDescription('Nothing is posted for these until they are resumed with /resume.')
+              .setColor(Colors.Grey);
+
+            paused.slice(0, 25).forEach((sub) => {
+              const until = sub.pausedUntil
+                ? `Until <t:${Math.floor(sub.pausedUntil.getTime() / 1000)}:f>`
+                : 'Until resumed';
+              embed.addFields({
+                name: sub.newsletterName,
+                value: allChannels
+                  ? `<#${sub.channelId}> · ${until} · ID: ${sub.newsletterId}`
+                  : `${until} · ID: ${sub.newsletterId}`,
+              });
+            });
+
+            embeds.push(embed);
+          }
+
+          if (deactivated.length > 0) {
+            const embed = new EmbedBuilder()
+              .setTitle('Deactivated')
+              .setDescription(
+                'The bot lost access to these channels or was removed. Use /subscribe to reactivate one.',
+              )
+              .setColor(Colors.DarkGrey);
+
+            deactivated.slice(0, 25).forEach((sub) => {
+              embed.addFields({
+                name: sub.newsletterName,
+                value: allChannels
+                  ? `<#${sub.channelId}> · ID: ${sub.newsletterId}`
+                  : `ID: ${sub.newsletterId}`,
+              });
+            });
+
+            embeds.push(embed);
+          }
+
+          await interaction.editReply({ embeds });
         } catch (error) {
           console.error('Error listing newsletters:', error);
           await interaction.editReply('An error occurred while fetching subscriptions.');
@@ -82,15 +195,94 @@ export class SlashCommandManager {
 
     // Subscribe command - subscribe a channel to a newsletter
     const subscribeCommand = {
+      requiresManager: true,
       data: new SlashCommandBuilder()
         .setName('subscribe')
         .setDescription('Subscribe this channel to a newsletter')
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
         .addStringOption((option) =>
           option
             .setName('newsletter')
             .setDescription('The newsletter to subscribe to')
             .setRequired(true)
             .setAutocomplete(true),
+        )
+        .addChannelOption((option) =>
+          option
+            .setName('channel')
+            .setDescription('The text, announcement or forum channel (defaults to this channel)')
+            .addChannelTypes(
+              ChannelType.GuildText,
+              ChannelType.GuildAnnouncement,
+              ChannelType.GuildForum,
+            )
+            .setRequired(false),
+        )
+        .addBooleanOption((option) =>
+          option
+            .setName('thread')
+            .setDescription('Start a discussion thread under each post (text channels)')
+            .setRequired(false),
+        )
+        .addBooleanOption((option) =>
+          option
+            .setName('crosspost')
+            .setDescription('Publish each post to following servers (announcement channels)')
+            .setRequired(false),
+        )
+        .addRoleOption((option) =>
+          option
+            .setName('ping_role')
+            .setDescription('Role to mention with each post')
+            .setRequired(false),
+        )
+        .addStringOption((option) =>
+          option
+            .setName('ping')
+            .setDescription('Mention @here with each post, or stop mentioning anyone')
+            .setRequired(false)
+            .addChoices({ name: '@here', value: MENTION_HERE }, { name: 'nobody', value: 'none' }),
+        )
+        .addStringOption((option) =>
+          option
+            .setName('delivery')
+            .setDescription('Post each issue right away, or batch them into a digest')
+            .setRequired(false)
+            .addChoices(
+              { name: 'immediately', value: 'immediate' },
+              { name: 'daily digest', value: 'daily' },
+              { name: 'weekly digest', value: 'weekly' },
+            ),
+        )
+        .addStringOption((option) =>
+          option
+            .setName('digest_time')
+            .setDescription('When digests are sent, as a 24-hour time such as 09:00')
+            .setRequired(false)
+            .setMaxLength(5),
+        )
+        .addIntegerOption((option) =>
+          option
+            .setName('digest_day')
+            .setDescription('Which day weekly digests are sent')
+            .setRequired(false)
+            .addChoices(
+              { name: 'Monday', value: 1 },
+              { name: 'Tuesday', value: 2 },
+              { name: 'Wednesday', value: 3 },
+              { name: 'Thursday', value: 4 },
+              { name: 'Friday', value: 5 },
+              { name: 'Saturday', value: 6 },
+              { name: 'Sunday', value: 7 },
+            ),
+        )
+        .addIntegerOption((option) =>
+          option
+            .setName('backfill')
+            .setDescription('Also post this many recent issues right away')
+            .setRequired(false)
+            .setMinValue(1)
+            .setMaxValue(MAX_BACKFILL_ISSUES),
         ),
       execute: async (interaction: any) => {
         await interaction.deferReply();
@@ -98,17 +290,59 @@ export class SlashCommandManager {
         try {
           const useCase = await this.getCommandUseCase();
           const newsletterId = interaction.options.getString('newsletter');
+          const channel = interaction.options.getChannel('channel') ?? interaction.channel;
+          const createThread = interaction.options.getBoolean('thread') ?? undefined;
+          const crosspost = interaction.options.getBoolean('crosspost') ?? undefined;
+
+          const pingRole = interaction.options.getRole('ping_role');
+          const ping = interaction.options.getString('ping');
+
+          const optionError =
+            this.getPostingOptionError(channel?.type, createThread, crosspost) ??
+            this.getPingOptionError(interaction.guildId, pingRole?.id, ping);
+          if (optionError) {
+            const embed = new EmbedBuilder()
+              .setTitle('Subscription Failed')
+              .setDescription(optionError)
+              .setColor(Colors.Red);
+
+            await interaction.editReply({ embeds: [embed] });
+            return;
+          }
+
+          // Leave the mention unchanged unless asked; `ping:nobody` clears it
+          let mention: string | null | undefined;
+          if (pingRole) {
+            mention = pingRole.id;
+          } else if (ping) {
+            mention = ping === 'none' ? null : MENTION_HERE;
+          }
 
           const result = await useCase.subscribeToNewsletter(
             interaction.guildId,
-            interaction.channelId,
+            channel?.id ?? interaction.channelId,
             newsletterId,
+            {
+              createThread,
+              crosspost,
+              mention,
+              deliveryMode: interaction.options.getString('delivery') ?? undefined,
+              digestTime: interaction.options.getString('digest_time') ?? undefined,
+              digestDay: interaction.options.getInteger('digest_day') ?? undefined,
+            },
           );
 
           if (result.success) {
+            let message = result.message;
+
+            const backfill = interaction.options.getInteger('backfill');
+            if (backfill && result.subscription) {
+              message += `\n${await this.backfillSubscription(result.subscription.id, backfill)}`;
+            }
+
             const embed = new EmbedBuilder()
               .setTitle('Subscription Added')
-              .setDescription(result.message)
+              .setDescription(message)
               .setColor(Colors.Green);
 
             await interaction.editReply({ embeds: [embed] });
@@ -128,15 +362,28 @@ export class SlashCommandManager {
     };
     // Unsubscribe command - unsubscribe a channel from a newsletter
     const unsubscribeCommand = {
+      requiresManager: true,
       data: new SlashCommandBuilder()
         .setName('unsubscribe')
         .setDescription('Unsubscribe this channel from a newsletter')
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
         .addStringOption((option) =>
           option
             .setName('newsletter')
             .setDescription('The newsletter to unsubscribe from')
             .setRequired(true)
             .setAutocomplete(true),
+        )
+        .addChannelOption((option) =>
+          option
+            .setName('channel')
+            .setDescription('The channel to unsubscribe (defaults to this channel)')
+            .addChannelTypes(
+              ChannelType.GuildText,
+              ChannelType.GuildAnnouncement,
+              ChannelType.GuildForum,
+            )
+            .setRequired(false),
         ),
       execute: async (interaction: any) => {
         await interaction.deferReply();
@@ -144,10 +391,11 @@ export class SlashCommandManager {
         try {
           const useCase = await this.getCommandUseCase();
           const newsletterId = interaction.options.getString('newsletter');
+          const channel = interaction.options.getChannel('channel');
 
           const result = await useCase.unsubscribeFromNewsletter(
             interaction.guildId,
-            interaction.channelId,
+            channel?.id ?? interaction.channelId,
             newsletterId,
           );
 
@@ -173,76 +421,1590 @@ export class SlashCommandManager {
       },
     };
 
-    this.commands.push(listCommand as SlashCommand);
-    this.commands.push(subscribeCommand as SlashCommand);
-    this.commands.push(unsubscribeCommand as SlashCommand);
-  }
+    // Filter command - keyword rules deciding which issues a channel receives
+    const filterCommand = {
+      requiresManager: true,
+      data: new SlashCommandBuilder()
+        .setName('filter')
+        .setDescription('Only post issues that match keywords in this channel')
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
+        .addSubcommand((subcommand) =>
+          this.addFilterChannelOption(
+            subcommand
+              .setName('add')
+              .setDescription('Add a keyword or /regex/ filter to a subscription')
+              .addStringOption((option) =>
+                option
+                  .setName('newsletter')
+                  .setDescription('The subscribed newsletter')
+                  .setRequired(true)
+                  .setAutocomplete(true),
+              )
+              .addStringOption((option) =>
+                option
+                  .setName('type')
+                  .setDescription('Post only matching issues, or skip matching issues')
+                  .setRequired(true)
+                  .addChoices(
+                    { name: 'include', value: 'include' },
+                    { name: 'exclude', value: 'exclude' },
+                  ),
+              )
+              .addStringOption((option) =>
+                option
+                  .setName('rule')
+                  .setDescription('A keyword, or a regular expression written as /pattern/flags')
+                  .setRequired(true)
+                  .setMaxLength(200),
+              ),
+          ),
+        )
+        .addSubcommand((subcommand) =>
+          this.addFilterChannelOption(
+            subcommand
+              .setName('remove')
+              .setDescription('Remove a filter from a subscription')
+              .addStringOption((option) =>
+                option
+                  .setName('newsletter')
+                  .setDescription('The subscribed newsletter')
+                  .setRequired(true)
+                  .setAutocomplete(true),
+              )
+              .addStringOption((option) =>
+                option
+                  .setName('type')
+                  .setDescription('The kind of filter to remove')
+                  .setRequired(true)
+                  .addChoices(
+                    { name: 'include', value: 'include' },
+                    { name: 'exclude', value: 'exclude' },
+                  ),
+              )
+              .addStringOption((option) =>
+                option.setName('rule').setDescription('The rule to remove').setRequired(true),
+              ),
+          ),
+        )
+        .addSubcommand((subcommand) =>
+          this.addFilterChannelOption(
+            subcommand
+              .setName('clear')
+              .setDescription('Remove every filter from a subscription')
+              .addStringOption((option) =>
+                option
+                  .setName('newsletter')
+                  .setDescription('The subscribed newsletter')
+                  .setRequired(true)
+                  .setAutocomplete(true),
+              ),
+          ),
+        )
+        .addSubcommand((subcommand) =>
+          this.addFilterChannelOption(
+            subcommand.setName('list').setDescription('Show the filters on subscriptions'),
+          ),
+        ),
+      execute: async (interaction: any) => {
+        await interaction.deferReply();
 
-  /**
-   * Deploy commands to Discord
-   */
-  async deployCommands(guildId?: string): Promise<void> {
-    try {
-      const commandData = this.commands.map((command) => command.data.toJSON());
+        try {
+          const useCase = await this.getCommandUseCase();
+          const subcommand = interaction.options.getSubcommand();
+          const channel = interaction.options.getChannel('channel');
+          const channelId = channel?.id ?? interaction.channelId;
 
-      // Log what we're about to deploy
-      console.log(
-        `Preparing to deploy ${commandData.length} commands: ${commandData.map((c) => c.name).join(', ')}`,
-      );
+          if (subcommand === 'list') {
+            const result = await useCase.listNewsletters(interaction.guildId, channelId);
+            const filtered = result.subscriptions.filter(
+              (sub) => sub.includeKeywords.length > 0 || sub.excludeKeywords.length > 0,
+            );
 
-      if (guildId) {
-        // Guild-specific deployment (faster for testing)
-        console.log(`Started refreshing application (/) commands for guild ${guildId}`);
-        await this.rest.put(Routes.applicationGuildCommands(this.clientId, guildId), {
-          body: commandData,
-        });
-        console.log(`Successfully reloaded application (/) commands for guild ${guildId}`);
-      } else {
-        // Global deployment (can take up to an hour to propagate)
-        console.log('Started refreshing application (/) commands globally');
-        await this.rest.put(Routes.applicationCommands(this.clientId), { body: commandData });
-        console.log('Successfully reloaded application (/) commands globally');
-      }
-    } catch (error) {
-      console.error('Error deploying commands:', error);
-      throw error; // Rethrow to handle in the calling function
-    }
-  }
+            if (filtered.length === 0) {
+              await interaction.editReply(
+                `No filters are set in <#${channelId}>; every issue is posted.`,
+              );
+              return;
+            }
 
-  /**
-   * Handle an interaction (slash command)
-   */
-  async handleInteraction(interaction: any): Promise<void> {
-    if (!interaction.isCommand()) return;
+            const embed = new EmbedBuilder()
+              .setTitle('Keyword Filters')
+              .setDescription(`Filters on subscriptions in <#${channelId}>:`)
+              .setColor(Colors.Blue);
 
-    const command = this.commands.find((cmd) => cmd.data.name === interaction.commandName);
+            // Embeds allow 25 fields
+            filtered.slice(0, 25).forEach((sub) => {
+              const lines = [
+                sub.includeKeywords.length > 0
+                  ? `Include: ${sub.includeKeywords.map((rule) => `\`${rule}\``).join(', ')}`
+                  : null,
+                sub.excludeKeywords.length > 0
+                  ? `Exclude: ${sub.excludeKeywords.map((rule) => `\`${rule}\``).join(', ')}`
+                  : null,
+              ].filter((line): line is string => line !== null);
 
-    if (!command) {
-      console.error(`Command not found: ${interaction.commandName}`);
-      return;
-    }
+              embed.addFields({
+                name: sub.newsletterName,
+                // Field values are capped at 1024 characters
+                value: lines.join('\n').slice(0, 1024),
+              });
+            });
 
-    try {
-      console.log(`Executing command: ${interaction.commandName}`);
-      await command.execute(interaction);
-      console.log(`Command executed successfully: ${interaction.commandName}`);
-    } catch (error) {
-      console.error(`Error executing command ${interaction.commandName}:`, error);
+            await interaction.editReply({ embeds: [embed] });
+            return;
+          }
 
-      // Only try to reply if the interaction hasn't been replied to already
-      try {
-        if (!interaction.replied && !interaction.deferred) {
+          const newsletterId = interaction.options.getString('newsletter');
+          let result: { success: boolean; message: string };
+
+          if (subcommand === 'clear') {
+            result = await useCase.clearKeywordFilters(
+              interaction.guildId,
+              channelId,
+              newsletterId,
+            );
+          } else {
+            const type = interaction.options.getString('type');
+            const rule = interaction.options.getString('rule');
+
+            result =
+              subcommand === 'add'
+                ? await useCase.addKeywordFilter(
+                    interaction.guildId,
+                    channelId,
+                    newsletterId,
+                    type,
+                    rule,
+                  )
+                : await useCase.removeKeywordFilter(
+                    interaction.guildId,
+                    channelId,
+                    newsletterId,
+                    type,
+                    rule,
+                  );
+          }
+
+          const embed = new EmbedBuilder()
+            .setTitle(result.success ? 'Filters Updated' : 'Filter Update Failed')
+            .setDescription(result.message)
+            .setColor(result.success ? Colors.Green : Colors.Red);
+
+          await interaction.editReply({ embeds: [embed] });
+        } catch (error) {
+          console.error('Error updating filters:', error);
+          await interaction.editReply('An error occurred while updating filters.');
+        }
+      },
+    };
+
+    // Stats command - click analytics for this server
+    const statsCommand = {
+      data: new SlashCommandBuilder()
+        .setName('stats')
+        .setDescription('Show which newsletters members of this server click on'),
+      execute: async (interaction: any) => {
+        await interaction.deferReply();
+
+        try {
+          if (!RepositoryFactory.usesPostgres()) {
+            await interaction.editReply(
+              'Click analytics are not available: the bot is not using the PostgreSQL backend.',
+            );
+            return;
+          }
+
+          const useCase = await RepositoryFactory.getGuildClickStatsUseCase();
+          const stats = await useCase.execute(interaction.guildId);
+
+          if (stats.newsletters.length === 0) {
+            await interaction.editReply('This server is not subscribed to any newsletters.');
+            return;
+          }
+
+          const longestPeriod = Math.max(...stats.periods);
+          const embed = new EmbedBuilder()
+            .setTitle('Newsletter Click Stats')
+            .setDescription(
+              `Link clicks from this server over the last ${stats.periods.join(', ')} days`,
+            )
+            .setColor(Colors.Blue);
+
+          // Embeds allow 25 fields; keep one for the top issues
+          stats.newsletters.slice(0, 24).forEach((newsletter) => {
+            embed.addFields({
+              name: newsletter.newsletterName,
+              value: stats.periods
+                .map((days) => `${days}d: **${newsletter.clicksByPeriod[days]}**`)
+                .join(' · '),
+            });
+          });
+
+          const topIssuesValue =
+            stats.topIssues.length > 0
+              ? stats.topIssues
+                  .map((issue, index) => {
+                    const title = issue.webUrl ? `[${issue.title}](${issue.webUrl})` : issue.title;
+                    return `${index + 1}. ${title} (${issue.newsletterName}): **${issue.clicks}**`;
+                  })
+                  .join('\n')
+              : 'No clicks yet';
+
+          embed.addFields({
+            name: `Top issues (last ${longestPeriod} days)`,
+            // Field values are capped at 1024 characters
+            value: topIssuesValue.slice(0, 1024),
+          });
+
+          await interaction.editReply({ embeds: [embed] });
+        } catch (error) {
+          console.error('Error fetching click stats:', error);
+          await interaction.editReply('An error occurred while fetching click stats.');
+        }
+      },
+    };
+
+    // Settings command - timezone, locale and manager role for this server
+    const settingsCommand = {
+      data: new SlashCommandBuilder()
+        .setName('settings')
+        .setDescription('Show or change the newsletter settings for this server')
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+        .addStringOption((option) =>
+          option
+            .setName('timezone')
+            .setDescription('IANA timezone digests are scheduled in, e.g. Europe/Berlin')
+            .setRequired(false)
+            .setAutocomplete(true),
+        )
+        .addStringOption((option) =>
+          option
+            .setName('locale')
+            .setDescription('Language and region for dates the bot writes, e.g. en-GB or de-DE')
+            .setRequired(false)
+            .setMaxLength(35),
+        )
+        .addRoleOption((option) =>
+          option
+            .setName('manager_role')
+            .setDescription('Role that may manage subscriptions without Manage Channels')
+            .setRequired(false),
+        )
+        .addBooleanOption((option) =>
+          option
+            .setName('clear_manager_role')
+            .setDescription('Remove the newsletter manager role')
+            .setRequired(false),
+        ),
+      execute: async (interaction: any) => {
+        const timezone = interaction.options.getString('timezone') ?? undefined;
+        const locale = interaction.options.getString('locale') ?? undefined;
+        const managerRole = interaction.options.getRole('manager_role');
+        const clearManagerRole = interaction.options.getBoolean('clear_manager_role') ?? false;
+        const hasChanges = !!timezone || !!locale || !!managerRole || clearManagerRole;
+
+        // Server admins can open the command up to other roles, so check again here
+        if (hasChanges && !interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
           await interaction.reply({
-            content: 'There was an error executing this command.',
+            content: 'You need the Manage Server permission to change these settings.',
             ephemeral: true,
           });
-        } else if (interaction.deferred && !interaction.replied) {
-          await interaction.editReply('There was an error executing this command.');
+          return;
         }
-      } catch (e) {
-        console.error('Error sending error message:', e);
-      }
-    }
+
+        await interaction.deferReply();
+
+        try {
+          const useCase = await this.getCommandUseCase();
+
+          if (!hasChanges) {
+            const settings = await useCase.getGuildSettings(interaction.guildId);
+            const embed = new EmbedBuilder()
+              .setTitle('Server Settings')
+              .addFields(
+                { name: 'Timezone', value: settings.timezone, inline: true },
+                { name: 'Locale', value: settings.locale, inline: true },
+                {
+                  name: 'Manager role',
+                  value: settings.managerRoleId ? `<@&${settings.managerRoleId}>` : 'None',
+                  inline: true,
+                },
+              )
+              .setColor(Colors.Blue);
+
+            await interaction.editReply({ embeds: [embed] });
+            return;
+          }
+
+          if (managerRole && clearManagerRole) {
+            const embed = new EmbedBuilder()
+              .setTitle('Settings Not Changed')
+              .setDescription('Choose either a manager role or clear_manager_role, not both.')
+              .setColor(Colors.Red);
+
+            await interaction.editReply({ embeds: [embed] });
+            return;
+          }
+
+          let managerRoleId: string | null | undefined;
+          if (managerRole) {
+            managerRoleId = managerRole.id;
+          } else if (clearManagerRole) {
+            managerRoleId = null;
+          }
+
+          const result = await useCase.updateGuildSettings(interaction.guildId, {
+            timezone,
+            locale,
+            managerRoleId,
+          });
+
+          const embed = new EmbedBuilder()
+            .setTitle(result.success ? 'Settings Updated' : 'Settings Not Changed')
+            .setDescription(result.message)
+            .setColor(result.success ? Colors.Green : Colors.Red);
+
+          await interaction.editReply({ embeds: [embed] });
+        } catch (error) {
+          console.error('Error updating settings:', error);
+          await interaction.editReply('An error occurred while updating settings.');
+        }
+      },
+    };
+
+    // Newsletter command - add, edit and remove the newsletters the bot follows
+    const newsletterCommand = {
+      ownerOnly: true,
+      data: new SlashCommandBuilder()
+        .setName('newsletter')
+        .setDescription('Add, edit or remove newsletters (bot owners only)')
+        // Hidden from ordinary members; the owner check still decides who may use it
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+        .addSubcommand((subcommand) =>
+          subcommand.setName('add').setDescription('Add a newsletter for servers to subscribe to'),
+        )
+        .addSubcommand((subcommand) =>
+          subcommand
+            .setName('edit')
+            .setDescription('Change a newsletter')
+            .addStringOption((option) =>
+              option
+                .setName('newsletter')
+                .setDescription('The newsletter to change')
+                .setRequired(true)
+                .setAutocomplete(true),
+            ),
+        )
+        .addSubcommand((subcommand) =>
+          subcommand
+            .setName('details')
+            .setDescription('Change the description, category and icon shown in /browse')
+            .addStringOption((option) =>
+              option
+                .setName('newsletter')
+                .setDescription('The newsletter to describe')
+                .setRequired(true)
+                .setAutocomplete(true),
+            ),
+        )
+        .addSubcommand((subcommand) =>
+          subcommand
+            .setName('remove')
+            .setDescription('Remove a newsletter and every subscription to it')
+            .addStringOption((option) =>
+              option
+                .setName('newsletter')
+                .setDescription('The newsletter to remove')
+                .setRequired(true)
+                .setAutocomplete(true),
+            ),
+        ),
+      execute: async (interaction: any) => {
+        const subcommand = interaction.options.getSubcommand();
+
+        // Modals have to be the first response, so nothing is deferred here
+        if (subcommand === 'add') {
+          await interaction.showModal(this.buildNewsletterModal());
+          return;
+        }
+
+        const newsletterService = await RepositoryFactory.getNewsletterService();
+        const newsletter = await newsletterService.getNewsletterById(
+          interaction.options.getString('newsletter'),
+        );
+        if (!newsletter) {
+          await interaction.reply({ content: 'Newsletter not found.', ephemeral: true });
+          return;
+        }
+
+        if (subcommand === 'edit') {
+          await interaction.showModal(this.buildNewsletterModal(newsletter));
+        } else if (subcommand === 'details') {
+          await interaction.showModal(this.buildNewsletterDetailsModal(newsletter));
+        } else {
+          await interaction.showModal(this.buildRemoveNewsletterModal(newsletter));
+        }
+      },
+    };
+
+    // Browse command - page through every newsletter the bot follows
+    const browseCommand = {
+      data: new SlashCommandBuilder()
+        .setName('browse')
+        .setDescription('Browse the newsletters you can subscribe to')
+        .addStringOption((option) =>
+          option
+            .setName('category')
+            .setDescription('Only show newsletters in this category')
+            .setRequired(false)
+            .setAutocomplete(true)
+            .setMaxLength(MAX_NEWSLETTER_CATEGORY_LENGTH),
+        ),
+      execute: async (interaction: any) => {
+        await interaction.deferReply();
+
+        try {
+          const category = interaction.options.getString('category') ?? undefined;
+          await interaction.editReply(await this.buildCatalogMessage(interaction, category, 0));
+        } catch (error) {
+          console.error('Error browsing newsletters:', error);
+          await interaction.editReply('An error occurred while loading the newsletter catalog.');
+        }
+      },
+    };
+
+    // Latest command - show the newest issue of a newsletter to the member who asked
+    const latestCommand = {
+      data: new SlashCommandBuilder()
+        .setName('latest')
+        .setDescription('Show the newest issue of a newsletter (only you can see it)')
+        .addStringOption((option) =>
+          option
+            .setName('newsletter')
+            .setDescription('The newsletter to show')
+            .setRequired(true)
+            .setAutocomplete(true),
+        ),
+      execute: async (interaction: any) => {
+        await interaction.deferReply({ ephemeral: true });
+
+        try {
+          const useCase = await RepositoryFactory.getNewsletterIssuesUseCase();
+          const result = await useCase.getLatest(interaction.options.getString('newsletter'));
+
+          if (!result) {
+            await interaction.editReply('Newsletter not found.');
+            return;
+          }
+
+          if (!result.issue) {
+            await interaction.editReply(`"${result.newsletter.name}" has no issues yet.`);
+            return;
+          }
+
+          await interaction.editReply({
+            embeds: [this.buildIssueEmbed(result.issue, result.newsletter)],
+          });
+        } catch (error) {
+          console.error('Error fetching latest issue:', error);
+          await interaction.editReply('An error occurred while fetching the latest issue.');
+        }
+      },
+    };
+
+    // Issues command - page through a newsletter's recent issues
+    const issuesCommand = {
+      data: new SlashCommandBuilder()
+        .setName('issues')
+        .setDescription('List the recent issues of a newsletter (only you can see it)')
+        .addStringOption((option) =>
+          option
+            .setName('newsletter')
+            .setDescription('The newsletter to list')
+            .setRequired(true)
+            .setAutocomplete(true),
+        )
+        .addIntegerOption((option) =>
+          option
+            .setName('limit')
+            .setDescription(
+              `How many recent issues to list (default 10, up to ${MAX_ISSUES_LIMIT})`,
+            )
+            .setRequired(false)
+            .setMinValue(1)
+            .setMaxValue(MAX_ISSUES_LIMIT),
+        ),
+      execute: async (interaction: any) => {
+        await interaction.deferReply({ ephemeral: true });
+
+        try {
+          await interaction.editReply(
+            await this.buildIssuesMessage(
+              interaction.options.getString('newsletter'),
+              interaction.options.getInteger('limit') ?? 10,
+              0,
+            ),
+          );
+        } catch (error) {
+          console.error('Error listing issues:', error);
+          await interaction.editReply('An error occurred while listing issues.');
+        }
+      },
+    };
+
+    // Pause and resume commands - stop and restart posting without deleting the subscription
+    const pauseCommand = {
+      requiresManager: true,
+      data: new SlashCommandBuilder()
+        .setName('pause')
+        .setDescription('Stop posting a newsletter in this channel, keeping the subscription')
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
+        .addStringOption((option) =>
+          option
+            .setName('newsletter')
+            .setDescription('The newsletter to pause')
+            .setRequired(true)
+            .setAutocomplete(true),
+        )
+        .addStringOption((option) =>
+          option
+            .setName('until')
+            .setDescription(
+              "Resume on its own at this date, e.g. 2026-11-01 or 2026-11-01 09:00 (server's timezone)",
+            )
+            .setRequired(false)
+            .setMaxLength(16),
+        )
+        .addChannelOption((option) =>
+          option
+            .setName('channel')
+            .setDescription('The subscribed channel (defaults to this channel)')
+            .addChannelTypes(
+              ChannelType.GuildText,
+              ChannelType.GuildAnnouncement,
+              ChannelType.GuildForum,
+            )
+            .setRequired(false),
+        ),
+      execute: async (interaction: any) => {
+        await interaction.deferReply();
+
+        try {
+          const useCase = await this.getCommandUseCase();
+          const channel = interaction.options.getChannel('channel');
+          const result = await useCase.pauseSubscription(
+            interaction.guildId,
+            channel?.id ?? interaction.channelId,
+            interaction.options.getString('newsletter'),
+            interaction.options.getString('until') ?? undefined,
+          );
+
+          const embed = new EmbedBuilder()
+            .setTitle(result.success ? 'Subscription Paused' : 'Pause Failed')
+            .setDescription(result.message)
+            .setColor(result.success ? Colors.Green : Colors.Red);
+
+          await interaction.editReply({ embeds: [embed] });
+        } catch (error) {
+          console.error('Error pausing subscription:', error);
+          await interaction.editReply('An error occurred while pausing the subscription.');
+        }
+      },
+    };
+
+    const resumeCommand = {
+      requiresManager: true,
+      data: new SlashCommandBuilder()
+        .setName('resume')
+        .setDescription('Start posting a paused newsletter in this channel again')
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
+        .addStringOption((option) =>
+          option
+            .setName('newsletter')
+            .setDescription('The newsletter to resume')
+            .setRequired(true)
+            .setAutocomplete(true),
+        )
+        .addChannelOption((option) =>
+          option
+            .setName('channel')
+            .setDescription('The subscribed channel (defaults to this channel)')
+            .addChannelTypes(
+              ChannelType.GuildText,
+              ChannelType.GuildAnnouncement,
+              ChannelType.GuildForum,
+            )
+            .setRequired(false),
+        ),
+      execute: async (interaction: any) => {
+        await interaction.deferReply();
+
+        try {
+          const useCase = await this.getCommandUseCase();
+          const channel = interaction.options.getChannel('channel');
+          const result = await useCase.resumeSubscription(
+            interaction.guildId,
+            channel?.id ?? interaction.channelId,
+            interaction.options.getString('newsletter'),
+          );
+
+          const embed = new EmbedBuilder()
+            .setTitle(result.success ? 'Subscription Resumed' : 'Resume Failed')
+            .setDescription(result.message)
+            .setColor(result.success ? Colors.Green : Colors.Red);
+
+          await interaction.editReply({ embeds: [embed] });
+        } catch (error) {
+          console.error('Error resuming subscription:', error);
+          await interaction.editReply('An error occurred while resuming the subscription.');
+        }
+      },
+    };
+
+    // Move command - post a subscription in another channel, keeping its settings
+    const moveCommand = {
+      requiresManager: true,
+      data: new SlashCommandBuilder()
+        .setName('move')
+        .setDescription('Move a newsletter subscription to another channel')
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
+        .addStringOption((option) =>
+          option
+            .setName('newsletter')
+            .setDescription('The newsletter to move')
+            .setRequired(true)
+            .setAutocomplete(true),
+        )
+        .addChannelOption((option) =>
+          option
+            .setName('channel')
+            .setDescription('The text, announcement or forum channel to post it in from now on')
+            .addChannelTypes(
+              ChannelType.GuildText,
+              ChannelType.GuildAnnouncement,
+              ChannelType.GuildForum,
+            )
+            .setRequired(true),
+        )
+        .addChannelOption((option) =>
+          option
+            .setName('from')
+            .setDescription('The channel it is posted in now (defaults to this channel)')
+            .addChannelTypes(
+              ChannelType.GuildText,
+              ChannelType.GuildAnnouncement,
+              ChannelType.GuildForum,
+            )
+            .setRequired(false),
+        ),
+      execute: async (interaction: any) => {
+        await interaction.deferReply();
+
+        const fail = async (message: string) => {
+          const embed = new EmbedBuilder()
+            .setTitle('Move Failed')
+            .setDescription(message)
+            .setColor(Colors.Red);
+          await interaction.editReply({ embeds: [embed] });
+        };
+
+        try {
+          const target = interaction.options.getChannel('channel');
+          const from = interaction.options.getChannel('from') ?? interaction.channel;
+
+          const channelError = this.getPostingOptionError(target?.type);
+          if (channelError) {
+            await fail(channelError);
+            return;
+          }
+
+          // Check before moving, so issues don't pile up as failed deliveries
+          const discordClient = await RepositoryFactory.getDiscordClient();
+          const missingPermissions = await discordClient.getMissingChannelPermissions(
+            interaction.guildId,
+            target.id,
+          );
+          if (!missingPermissions) {
+            await fail(`<#${target.id}> could not be found.`);
+            return;
+          }
+          if (missingPermissions.length > 0) {
+            await fail(
+              `The bot can't post in <#${target.id}>: it is missing ${this.formatPermissions(missingPermissions)}.`,
+            );
+            return;
+          }
+
+          const useCase = await this.getCommandUseCase();
+          const result = await useCase.moveSubscription(
+            interaction.guildId,
+            from?.id ?? interaction.channelId,
+            target.id,
+            interaction.options.getString('newsletter'),
+          );
+
+          if (!result.success) {
+            await fail(result.message);
+            return;
+          }
+
+          const embed = new EmbedBuilder()
+            .setTitle('Subscription Moved')
+            .setDescription(result.message)
+            .setColor(Colors.Green);
+          await interaction.editReply({ embeds: [embed] });
+        } catch (error) {
+          console.error('Error moving subscription:', error);
+          await interaction.editReply('An error occurred while moving the subscription.');
+        }
+      },
+    };
+
+    // Doctor command - check this server's subscriptions and offer to repair them
+    const doctorCommand = {
+      data: new SlashCommandBuilder()
+        .setName('doctor')
+        .setDescription("Check this server's subscriptions for missing channels and permissions")
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels),
+      requiresManager: true,
+      execute: async (interaction: any) => {
+        await interaction.deferReply({ ephemeral: true });
+
+        try {
+          await interaction.editReply(await this.buildDoctorMessage(interaction.guildId));
+        } catch (error) {
+          console.error('Error checking subscriptions:', error);
+          await interaction.editReply('An error occurred while checking subscriptions.');
+        }
+      },
+    };
+
+    this.commands.push(listCommand as SlashCommand);
+    this.commands.push(subscribeCommand as SlashCommand);
+    this.commands.push(unsubscribeCommand as SlashCommand);
+    this.commands.push(filterCommand as SlashCommand);
+    this.commands.push(statsCommand as SlashCommand);
+    this.commands.push(settingsCommand as SlashCommand);
+    this.commands.push(newsletterCommand as SlashCommand);
+    this.commands.push(browseCommand as SlashCommand);
+    this.commands.push(latestCommand as SlashCommand);
+    this.commands.push(issuesCommand as SlashCommand);
+    this.commands.push(pauseCommand as SlashCommand);
+    this.commands.push(resumeCommand as SlashCommand);
+    this.commands.push(moveCommand as SlashCommand);
+    this.commands.push(doctorCommand as SlashCommand);
+  }
+
+  /**
+   * Build the /doctor report, with fix and remove buttons for the first few problems
+   * @param notice Outcome of the last button press, shown above the report
+   */
+  private async buildDoctorMessage(
+    guildId: string,
+    notice: string = '',
+  ): Promise<{ content: string; embeds: EmbedBuilder[]; components: ActionRowBuilder<any>[] }> {
+    const useCase = await RepositoryFactory.getCheckSubscriptionHealthUseCase();
+    const problems = await useCase.execute(guildId);
+
+    if (problems.length === 0) {
+      const embed = new EmbedBuilder()
+        .setTitle('Subscription health')
+        .setDescription("No problems found with this server's subscriptions.")
+        .setColor(Colors.Green);
+      return { content: notice, embeds: [embed], components: [] };
+    }
+
+    const shown = problems.slice(0, MAX_DOCTOR_PROBLEMS);
+    const lines = shown.map(
+      (problem, index) =>
+        `**${index + 1}.** ${problem.newsletterName ?? `Unknown newsletter \`${problem.subscription.newsletterId}\``} in <#${problem.subscription.channelId}>: ${this.describeProblem(problem)}`,
+    );
+    if (problems.length > shown.length) {
+      lines.push(
+        `…and ${problems.length - shown.length} more. Deal with these and run /doctor again.`,
+      );
+    }
+
+    const embed = new EmbedBuilder()
+      .setTitle('Subscription health')
+      .setDescription(lines.join('\n'))
+      .setFooter({
+        text: `${problems.length} ${problems.length === 1 ? 'problem' : 'problems'} found`,
+      })
+      .setColor(Colors.Orange);
+
+    const rows = shown.map((problem, index) => {
+      const row = new ActionRowBuilder<ButtonBuilder>();
+      if (problem.fixable) {
+        row.addComponents(
+          new ButtonBuilder()
+            .setCustomId(`${DOCTOR_BUTTON_PREFIX}:fix:${problem.subscription.id}`)
+            .setLabel(`Fix #${index + 1}`)
+            .setStyle(ButtonStyle.Primary),
+        );
+      }
+      if (problem.removable) {
+        row.addComponents(
+          new ButtonBuilder()
+            .setCustomId(`${DOCTOR_BUTTON_PREFIX}:remove:${problem.subscription.id}`)
+            .setLabel(`Remove #${index + 1}`)
+            .setStyle(ButtonStyle.Danger),
+        );
+      }
+      return row;
+    });
+
+    return {
+      content: notice,
+      embeds: [embed],
+      components: rows.filter((row) => row.components.length > 0),
+    };
+  }
+
+  /**
+   * List Discord permission names for display, e.g. `SendMessages` as **Send Messages**
+   */
+  private formatPermissions(names: string[]): string {
+    return names.map((name) => `**${name.replace(/([a-z])([A-Z])/g, '$1 $2')}**`).join(', ');
+  }
+
+  /**
+   * Explain a subscription problem in a sentence fragment
+   */
+  private describeProblem(problem: SubscriptionProblem): string {
+    switch (problem.kind) {
+      case 'orphaned_newsletter':
+        return 'the newsletter no longer exists';
+      case 'missing_channel':
+        return 'the channel no longer exists';
+      case 'missing_permissions':
+        return `the bot is missing ${this.formatPermissions(problem.missingPermissions)}`;
+      case 'check_failed':
+        return `the channel couldn't be checked (${problem.error}); run /doctor again later`;
+    }
+  }
+  /**
+   * Build an embed for one issue, laid out like the dispatched post
+   */
+  private buildIssueEmbed(issue: Issue, newsletter: Newsletter): EmbedBuilder {
+    const receivedAt = Math.floor(issue.receivedAt.getTime() / 1000);
+    const authorName = issue.senderName || newsletter.name;
+
+    const embed = new EmbedBuilder()
+      .setTitle(issue.title.substring(0, MAX_EMBED_TITLE_LENGTH))
+      .setURL(issue.webUrl)
+      .setDescription([issue.summary, `Sent <t:${receivedAt}:f>`].filter(Boolean).join('\n\n'))
+      .setAuthor({ name: authorName, url: newsletter.url })
+      .setColor(newsletter.color ?? Colors.Blue);
+
+    if (issue.imageUrl) {
+      embed.setImage(issue.imageUrl);
+    }
+
+    return embed;
+  }
+
+  /**
+   * Build one page of the /issues list, with previous/next buttons when there is more than one
+   */
+  private async buildIssuesMessage(
+    newsletterId: string,
+    limit: number,
+    page: number,
+  ): Promise<{ content: string; embeds: EmbedBuilder[]; components: ActionRowBuilder<any>[] }> {
+    const useCase = await RepositoryFactory.getNewsletterIssuesUseCase();
+    const result = await useCase.execute(newsletterId, {
+      limit,
+      page,
+      pageSize: ISSUES_PAGE_SIZE,
+    });
+
+    if (!result) {
+      return { content: 'Newsletter not found.', embeds: [], components: [] };
+    }
+
+    if (result.total === 0) {
+      return {
+        content: `"${result.newsletter.name}" has no issues yet.`,
+        embeds: [],
+        components: [],
+      };
+    }
+
+    const firstNumber = result.page * ISSUES_PAGE_SIZE + 1;
+    const lines = result.issues.map((issue, index) => {
+      const title = issue.title.replace(/[[\]]/g, '').substring(0, 150);
+      const receivedAt = Math.floor(issue.receivedAt.getTime() / 1000);
+      return `**${firstNumber + index}.** [${title}](${issue.webUrl}) · <t:${receivedAt}:d>`;
+    });
+
+    const embed = new EmbedBuilder()
+      .setTitle(`${result.newsletter.name} · recent issues`.substring(0, MAX_EMBED_TITLE_LENGTH))
+      .setURL(result.newsletter.url)
+      .setDescription(lines.join('\n'))
+      .setFooter({ text: `Page ${result.page + 1} of ${result.totalPages}` })
+      .setColor(result.newsletter.color ?? Colors.Blue);
+
+    if (result.newsletter.iconUrl) {
+      embed.setThumbnail(result.newsletter.iconUrl);
+    }
+
+    if (result.totalPages === 1) {
+      return { content: '', embeds: [embed], components: [] };
+    }
+
+    const pageCustomId = (target: number) =>
+      `${ISSUES_BUTTON_PREFIX}:page:${newsletterId}:${limit}:${target}`;
+    const pageRow = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(pageCustomId(result.page - 1))
+        .setLabel('Newer')
+        .setStyle(ButtonStyle.Secondary)
+        .setDisabled(result.page === 0),
+      new ButtonBuilder()
+        .setCustomId(pageCustomId(result.page + 1))
+        .setLabel('Older')
+        .setStyle(ButtonStyle.Secondary)
+        .setDisabled(result.page >= result.totalPages - 1),
+    );
+
+    return { content: '', embeds: [embed], components: [pageRow] };
+  }
+
+  /**
+   * Build one page of the /browse catalog: an embed per newsletter, a Subscribe button for
+   * each and previous/next buttons
+   */
+  private async buildCatalogMessage(
+    interaction: any,
+    category: string | undefined,
+    page: number,
+  ): Promise<{ content: string; embeds: EmbedBuilder[]; components: ActionRowBuilder<any>[] }> {
+    const useCase = await RepositoryFactory.getBrowseNewslettersUseCase();
+    const catalog = await useCase.execute({
+      guildId: interaction.guildId ?? undefined,
+      channelId: interaction.channelId,
+      category,
+      page,
+    });
+
+    if (catalog.total === 0) {
+      return {
+        content: catalog.category
+          ? `There are no newsletters in the "${catalog.category}" category.`
+          : 'There are no newsletters yet.',
+        embeds: [],
+        components: [],
+      };
+    }
+
+    const embeds = catalog.newsletters.map(({ newsletter, recentIssues, subscribed }) => {
+      const details = [
+        newsletter.category ? `**Category:** ${newsletter.category}` : undefined,
+        `**Issues in the last ${catalog.recentDays} days:** ${recentIssues}`,
+        subscribed ? 'Already posted in this channel' : undefined,
+      ].filter(Boolean);
+
+      const embed = new EmbedBuilder()
+        .setTitle(newsletter.name)
+        .setURL(newsletter.url)
+        .setDescription(
+          [newsletter.description ?? '*No description yet*', details.join('\n')].join('\n\n'),
+        )
+        .setColor(newsletter.color ?? Colors.Blue);
+
+      if (newsletter.iconUrl) {
+        embed.setThumbnail(newsletter.iconUrl);
+      }
+
+      return embed;
+    });
+
+    const subscribeRow = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      catalog.newsletters.map(({ newsletter, subscribed }) =>
+        new ButtonBuilder()
+          .setCustomId(`${BROWSE_BUTTON_PREFIX}:subscribe:${newsletter.id}`)
+          .setLabel(`Subscribe: ${newsletter.name}`.substring(0, MAX_BUTTON_LABEL_LENGTH))
+          .setStyle(ButtonStyle.Primary)
+          .setDisabled(subscribed),
+      ),
+    );
+
+    const pageCustomId = (target: number) =>
+      `${BROWSE_BUTTON_PREFIX}:page:${target}:${catalog.category ?? ''}`;
+    const pageRow = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(pageCustomId(catalog.page - 1))
+        .setLabel('Previous')
+        .setStyle(ButtonStyle.Secondary)
+        .setDisabled(catalog.page === 0),
+      new ButtonBuilder()
+        .setCustomId(pageCustomId(catalog.page + 1))
+        .setLabel('Next')
+        .setStyle(ButtonStyle.Secondary)
+        .setDisabled(catalog.page >= catalog.totalPages - 1),
+    );
+
+    const heading = catalog.category
+      ? `**${catalog.category} newsletters**`
+      : '**Newsletter catalog**';
+
+    return {
+      content: `${heading} · page ${catalog.page + 1} of ${catalog.totalPages} · ${catalog.total} ${catalog.total === 1 ? 'newsletter' : 'newsletters'}`,
+      embeds,
+      components: catalog.totalPages > 1 ? [subscribeRow, pageRow] : [subscribeRow],
+    };
+  }
+
+  /**
+   * Handle a button on a /browse, /issues or /doctor message
+   */
+  async handleButton(interaction: any): Promise<void> {
+    const [prefix, action, ...rest] = interaction.customId.split(':');
+
+    if (prefix === BROWSE_BUTTON_PREFIX) {
+      await this.handleBrowseButton(interaction, action, rest);
+    } else if (prefix === DOCTOR_BUTTON_PREFIX) {
+      await this.handleDoctorButton(interaction, action, rest[0]);
+    } else if (prefix === ISSUES_BUTTON_PREFIX && action === 'page') {
+      const [newsletterId, limit, page] = rest;
+      await interaction.deferUpdate();
+      await interaction.editReply(
+        await this.buildIssuesMessage(
+          newsletterId,
+          parseInt(limit, 10) || 10,
+          parseInt(page, 10) || 0,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Handle the /doctor buttons: granting missing permissions or removing a subscription,
+   * then refreshing the report
+   */
+  private async handleDoctorButton(
+    interaction: any,
+    action: string,
+    subscriptionId: string,
+  ): Promise<void> {
+    if (!(await this.canManageSubscriptions(interaction))) {
+      await interaction.reply({
+        content:
+          'You need the Manage Channels permission or the newsletter manager role to repair subscriptions.',
+        ephemeral: true,
+      });
+      return;
+    }
+
+    await interaction.deferUpdate();
+
+    const useCase = await RepositoryFactory.getCheckSubscriptionHealthUseCase();
+    let notice: string;
+
+    try {
+      if (action === 'fix') {
+        notice = (await useCase.fix(subscriptionId, interaction.guildId))
+          ? 'Granted the bot the missing permissions in that channel.'
+          : 'That problem has already been dealt with.';
+      } else if (action === 'remove') {
+        notice = (await useCase.remove(subscriptionId, interaction.guildId))
+          ? 'Removed the subscription.'
+          : 'That subscription has already been removed.';
+      } else {
+        return;
+      }
+    } catch (error) {
+      console.error(`Error running doctor ${action} on subscription ${subscriptionId}:`, error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      notice =
+        action === 'fix'
+          ? `Couldn't grant the permissions (${message}). The bot needs the Manage Roles permission for this; you can also grant them in the channel settings.`
+          : `Couldn't remove the subscription (${message}).`;
+    }
+
+    await interaction.editReply(await this.buildDoctorMessage(interaction.guildId, notice));
+  }
+
+  /**
+   * Handle the /browse buttons: turning pages and subscribing this channel
+   */
+  private async handleBrowseButton(
+    interaction: any,
+    action: string,
+    rest: string[],
+  ): Promise<void> {
+    if (action === 'page') {
+      const [page, ...category] = rest;
+      await interaction.deferUpdate();
+      await interaction.editReply(
+        await this.buildCatalogMessage(
+          interaction,
+          category.join(':') || undefined,
+          parseInt(page, 10) || 0,
+        ),
+      );
+      return;
+    }
+
+    if (action !== 'subscribe') return;
+
+    if (!(await this.canManageSubscriptions(interaction))) {
+      await interaction.reply({
+        content:
+          'You need the Manage Channels permission or the newsletter manager role to subscribe.',
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const channelError = this.getPostingOptionError(interaction.channel?.type);
+    if (channelError) {
+      await interaction.reply({ content: channelError, ephemeral: true });
+      return;
+    }
+
+    await interaction.deferReply({ ephemeral: true });
+
+    try {
+      const useCase = await this.getCommandUseCase();
+      const result = await useCase.subscribeToNewsletter(
+        interaction.guildId,
+        interaction.channelId,
+        rest[0],
+      );
+
+      const embed = new EmbedBuilder()
+        .setTitle(result.success ? 'Subscription Added' : 'Subscription Failed')
+        .setDescription(result.message)
+        .setColor(result.success ? Colors.Green : Colors.Red);
+
+      await interaction.editReply({ embeds: [embed] });
+    } catch (error) {
+      console.error('Error subscribing from the catalog:', error);
+      await interaction.editReply('An error occurred while subscribing.');
+    }
+  }
+
+  /**
+   * Build the modal for adding a newsletter, or for editing one when it is given
+   */
+  private buildNewsletterModal(newsletter?: Newsletter): ModalBuilder {
+    const textInput = (
+      customId: string,
+      label: string,
+      style: TextInputStyle,
+      maxLength: number,
+      value: string | undefined,
+      required: boolean = true,
+    ) =>
+      new LabelBuilder().setLabel(label).setTextInputComponent((input) => {
+        input.setCustomId(customId).setStyle(style).setMaxLength(maxLength).setRequired(required);
+        return value ? input.setValue(value) : input;
+      });
+
+    return new ModalBuilder()
+      .setCustomId(
+        newsletter
+          ? `${NEWSLETTER_MODAL_PREFIX}:edit:${newsletter.id}`
+          : `${NEWSLETTER_MODAL_PREFIX}:add`,
+      )
+      .setTitle(newsletter ? 'Edit Newsletter' : 'Add Newsletter')
+      .addLabelComponents(
+        textInput('name', 'Name', TextInputStyle.Short, 255, newsletter?.name),
+        textInput('url', 'Signup URL', TextInputStyle.Short, 512, newsletter?.url),
+        textInput(
+          'senderEmail',
+          'Sender email',
+          TextInputStyle.Short,
+          255,
+          newsletter?.senderEmail,
+        ),
+        textInput(
+          'extractionPattern',
+          'Extraction pattern (regex, URL in group 1)',
+          TextInputStyle.Paragraph,
+          1000,
+          newsletter?.extractionPattern,
+          false,
+        ),
+      );
+  }
+
+  /**
+   * Build the modal for the catalog details shown in /browse
+   */
+  private buildNewsletterDetailsModal(newsletter: Newsletter): ModalBuilder {
+    const textInput = (
+      customId: string,
+      label: string,
+      style: TextInputStyle,
+      maxLength: number,
+      value: string | undefined,
+    ) =>
+      new LabelBuilder().setLabel(label).setTextInputComponent((input) => {
+        input.setCustomId(customId).setStyle(style).setMaxLength(maxLength).setRequired(false);
+        return value ? input.setValue(value) : input;
+      });
+
+    return new ModalBuilder()
+      .setCustomId(`${NEWSLETTER_MODAL_PREFIX}:details:${newsletter.id}`)
+      .setTitle('Newsletter Details')
+      .addLabelComponents(
+        textInput(
+          'description',
+          'Description',
+          TextInputStyle.Paragraph,
+          MAX_NEWSLETTER_DESCRIPTION_LENGTH,
+          newsletter.description,
+        ),
+        textInput(
+          'category',
+          'Category',
+          TextInputStyle.Short,
+          MAX_NEWSLETTER_CATEGORY_LENGTH,
+          newsletter.category,
+        ),
+        textInput('iconUrl', 'Icon URL (https)', TextInputStyle.Short, 1024, newsletter.iconUrl),
+      );
+  }
+
+  /**
+   * Build the modal that asks for the newsletter's name before removing it
+   */
+  private buildRemoveNewsletterModal(newsletter: Newsletter): ModalBuilder {
+    return new ModalBuilder()
+      .setCustomId(`${NEWSLETTER_MODAL_PREFIX}:remove:${newsletter.id}`)
+      .setTitle('Remove Newsletter')
+      .addLabelComponents((label) =>
+        label
+          .setLabel('Type the newsletter name to confirm')
+          .setDescription('All subscriptions to it are deleted, in every server')
+          .setTextInputComponent(
+            new TextInputBuilder()
+              .setCustomId('confirmName')
+              .setStyle(TextInputStyle.Short)
+              .setPlaceholder(newsletter.name.substring(0, 100))
+              .setRequired(true),
+          ),
+      );
+  }
+
+  /**
+   * Save a submitted newsletter modal
+   */
+  async handleModalSubmit(interaction: any): Promise<void> {
+    const [prefix, action, newsletterId] = interaction.customId.split(':');
+    if (prefix !== NEWSLETTER_MODAL_PREFIX) return;
+
+    if (!(await this.isBotOwner(interaction))) {
+      await interaction.reply({
+        content: 'Only the bot owner can manage newsletters.',
+        ephemeral: true,
+      });
+      return;
+    }
+
+    await interaction.deferReply({ ephemeral: true });
+
+    try {
+      const newsletterService = await RepositoryFactory.getNewsletterService();
+
+      if (action === 'remove') {
+        const newsletter = await newsletterService.getNewsletterById(newsletterId);
+        if (!newsletter) {
+          throw new Error('Newsletter not found');
+        }
+
+        const confirmName = interaction.fields.getTextInputValue('confirmName').trim();
+        if (confirmName.toLowerCase() !== newsletter.name.toLowerCase()) {
+          throw new Error(`The name did not match "${newsletter.name}"; nothing was removed`);
+        }
+
+        const subscriptionService = await RepositoryFactory.getGuildSubscriptionService();
+        const removed = await subscriptionService.removeNewsletterSubscriptions(newsletter.id);
+        await newsletterService.deleteNewsletter(newsletter.id);
+
+        const embed = new EmbedBuilder()
+          .setTitle('Newsletter Removed')
+          .setDescription(
+            `Removed "${newsletter.name}" and ${removed} channel ${removed === 1 ? 'subscription' : 'subscriptions'}`,
+          )
+          .setColor(Colors.Green);
+
+        await interaction.editReply({ embeds: [embed] });
+        return;
+      }
+
+      // Validation happens in Newsletter.create, so errors below are shown as they are
+      let newsletter: Newsletter;
+      if (action === 'details') {
+        // Empty fields clear the value
+        newsletter = await newsletterService.updateNewsletter(newsletterId, {
+          description: interaction.fields.getTextInputValue('description'),
+          category: interaction.fields.getTextInputValue('category'),
+          iconUrl: interaction.fields.getTextInputValue('iconUrl'),
+        });
+      } else {
+        const fields = {
+          name: interaction.fields.getTextInputValue('name'),
+          url: interaction.fields.getTextInputValue('url'),
+          senderEmail: interaction.fields.getTextInputValue('senderEmail'),
+          extractionPattern: interaction.fields.getTextInputValue('extractionPattern'),
+        };
+        newsletter =
+          action === 'edit'
+            ? await newsletterService.updateNewsletter(newsletterId, fields)
+            : await newsletterService.addNewsletter(fields);
+      }
+
+      const embed = new EmbedBuilder()
+        .setTitle(action === 'add' ? 'Newsletter Added' : 'Newsletter Updated')
+        .addFields(
+          { name: 'Name', value: newsletter.name },
+          { name: 'Signup URL', value: newsletter.url },
+          { name: 'Sender email', value: newsletter.senderEmail },
+          {
+            name: 'Extraction pattern',
+            value: newsletter.extractionPattern
+              ? `\`${newsletter.extractionPattern.substring(0, 1000)}\``
+              : 'None',
+          },
+          { name: 'Category', value: newsletter.category ?? 'None', inline: true },
+          { name: 'Description', value: newsletter.description ?? 'None' },
+        )
+        .setColor(Colors.Green);
+
+      if (newsletter.iconUrl) {
+        embed.setThumbnail(newsletter.iconUrl);
+      }
+
+      await interaction.editReply({ embeds: [embed] });
+    } catch (error) {
+      console.error(`Error handling newsletter ${action}:`, error);
+      const embed = new EmbedBuilder()
+        .setTitle(action === 'remove' ? 'Newsletter Not Removed' : 'Newsletter Not Saved')
+        .setDescription(error instanceof Error ? error.message : 'An unknown error occurred')
+        .setColor(Colors.Red);
+
+      await interaction.editReply({ embeds: [embed] });
+    }
+  }
+
+  /**
+   * Check whether the user is one of the bot's owners: `DISCORD_OWNER_IDS` when set,
+   * otherwise the owner (or team members) of the Discord application
+   */
+  private async isBotOwner(interaction: any): Promise<boolean> {
+    if (!this.ownerIds) {
+      if (discordConfig.ownerIds.length > 0) {
+        this.ownerIds = discordConfig.ownerIds;
+      } else {
+        const application = await interaction.client.application.fetch();
+        const owner = application.owner;
+
+        if (!owner) {
+          this.ownerIds = [];
+        } else if ('members' in owner) {
+          this.ownerIds = [...owner.members.keys()];
+        } else {
+          this.ownerIds = [owner.id];
+        }
+      }
+    }
+
+    return this.ownerIds!.includes(interaction.user.id);
+  }
+
+  /**
+   * Post a new subscription's most recent issues through the normal dispatch path
+   * @returns A line for the reply saying what was posted
+   */
+  private async backfillSubscription(subscriptionId: string, count: number): Promise<string> {
+    try {
+      const dispatchUseCase = await RepositoryFactory.getDispatchIssueUseCase();
+      const { queued, sent } = await dispatchUseCase.backfillSubscription(subscriptionId, count);
+
+      if (queued === 0) {
+        return 'There were no earlier issues to post.';
+      }
+      if (sent < queued) {
+        return `Posted ${sent} of ${queued} recent issues; the rest will follow shortly.`;
+      }
+      return `Posted the ${sent} most recent ${sent === 1 ? 'issue' : 'issues'}.`;
+    } catch (error) {
+      console.error('Error backfilling subscription:', error);
+      return 'Recent issues could not be posted; new issues will still arrive.';
+    }
+  }
+
+  /**
+   * Check that the requested posting options make sense for the channel type
+   */
+  private getPostingOptionError(
+    channelType: ChannelType | undefined,
+    createThread?: boolean,
+    crosspost?: boolean,
+  ): string | null {
+    if (
+      channelType !== ChannelType.GuildText &&
+      channelType !== ChannelType.GuildAnnouncement &&
+      channelType !== ChannelType.GuildForum
+    ) {
+      return 'Newsletters can only be posted to text, announcement or forum channels.';
+    }
+
+    if (createThread && channelType === ChannelType.GuildForum) {
+      return 'Forum channels already get one post per issue; the thread option is not needed.';
+    }
+
+    if (crosspost && channelType !== ChannelType.GuildAnnouncement) {
+      return 'Only announcement channels can crosspost to following servers.';
+    }
+
+    return null;
+  }
+
+  /**
+   * Check that at most one kind of ping was requested
+   */
+  private getPingOptionError(
+    guildId: string,
+    pingRoleId: string | undefined,
+    ping: string | null,
+  ): string | null {
+    if (pingRoleId && ping) {
+      return 'Choose either a role to ping or the ping option, not both.';
+    }
+
+    // The @everyone role shares the guild's ID
+    if (pingRoleId === guildId) {
+      return 'Pinging @everyone is not supported; use `ping:@here` instead.';
+    }
+
+    return null;
+  }
+
+  /**
+   * Add the optional channel option shared by the filter subcommands
+   */
+  private addFilterChannelOption(
+    subcommand: SlashCommandSubcommandBuilder,
+  ): SlashCommandSubcommandBuilder {
+    return subcommand.addChannelOption((option) =>
+      option
+        .setName('channel')
+        .setDescription('The subscribed channel (defaults to this channel)')
+        .addChannelTypes(
+          ChannelType.GuildText,
+          ChannelType.GuildAnnouncement,
+          ChannelType.GuildForum,
+        )
+        .setRequired(false),
+    );
+  }
+
+  /**
+   * Deploy commands to Discord
+   */
+  async deployCommands(guildId?: string): Promise<void> {
+    try {
+      const commandData = this.commands.map((command) => command.data.toJSON());
+
+      // Log what we're about to deploy
+      console.log(
+        `Preparing to deploy ${commandData.length} commands: ${commandData.map((c) => c.name).join(', ')}`,
+      );
+
+      if (guildId) {
+        // Guild-specific deployment (faster for testing)
+        console.log(`Started refreshing application (/) commands for guild ${guildId}`);
+        await this.rest.put(Routes.applicationGuildCommands(this.clientId, guildId), {
+          body: commandData,
+        });
+        console.log(`Successfully reloaded application (/) commands for guild ${guildId}`);
+      } else {
+        // Global deployment (can take up to an hour to propagate)
+        console.log('Started refreshing application (/) commands globally');
+        await this.rest.put(Routes.applicationCommands(this.clientId), { body: commandData });
+        console.log('Successfully reloaded application (/) commands globally');
+      }
+    } catch (error) {
+      console.error('Error deploying commands:', error);
+      throw error; // Rethrow to handle in the calling function
+    }
+  }
+
+  /**
+   * Handle an interaction (slash command)
+   */
+  async handleInteraction(interaction: any): Promise<void> {
+    if (!interaction.isCommand()) return;
+
+    const command = this.commands.find((cmd) => cmd.data.name === interaction.commandName);
+
+    if (!command) {
+      console.error(`Command not found: ${interaction.commandName}`);
+      return;
+    }
+
+    try {
+      if (command.ownerOnly && !(await this.isBotOwner(interaction))) {
+        await interaction.reply({
+          content: 'Only the bot owner can use this command.',
+          ephemeral: true,
+        });
+        return;
+      }
+
+      if (command.requiresManager && !(await this.canManageSubscriptions(interaction))) {
+        await interaction.reply({
+          content:
+            'You need the Manage Channels permission or the newsletter manager role to use this command.',
+          ephemeral: true,
+        });
+        return;
+      }
+
+      console.log(`Executing command: ${interaction.commandName}`);
+      await command.execute(interaction);
+      console.log(`Command executed successfully: ${interaction.commandName}`);
+    } catch (error) {
+      console.error(`Error executing command ${interaction.commandName}:`, error);
+
+      // Only try to reply if the interaction hasn't been replied to already
+      try {
+        if (!interaction.replied && !interaction.deferred) {
+          await interaction.reply({
+            content: 'There was an error executing this command.',
+            ephemeral: true,
+          });
+        } else if (interaction.deferred && !interaction.replied) {
+          await interaction.editReply('There was an error executing this command.');
+        }
+      } catch (e) {
+        console.error('Error sending error message:', e);
+      }
+    }
+  }
+
+  /**
+   * Check whether the member running a command may change this server's subscriptions
+   */
+  private async canManageSubscriptions(interaction: any): Promise<boolean> {
+    if (!interaction.inGuild()) {
+      return false;
+    }
+
+    // Cached members carry a role manager; uncached ones arrive as raw API data with an ID array
+    const roles = interaction.member?.roles;
+    const roleIds: string[] = Array.isArray(roles) ? roles : [...(roles?.cache?.keys() ?? [])];
+
+    const useCase = await this.getCommandUseCase();
+    return useCase.canManageSubscriptions(interaction.guildId, {
+      canManageChannels: !!interaction.memberPermissions?.has(PermissionFlagsBits.ManageChannels),
+      roleIds,
+    });
   }
 
   /**
@@ -3,28 +3,70 @@ import { IGuildSubscriptionRepository } from '../../application/ports/IGuildSubs
 import { GoogleSheetsClient } from '../googlesheets/GoogleSheetsClient';
 import { GoogleSheetsNewsletterRepository } from '../googlesheets/GoogleSheetsNewsletterRepository';
 import { NewsletterService } from '../../application/services/NewsletterService';
+import { WebUrlExtractionService } from '../../application/services/WebUrlExtractionService';
 import { GuildSubscriptionService } from '../../application/services/GuildSubscriptionService';
+import { SubscriptionCleanupService } from '../../application/services/SubscriptionCleanupService';
 import { GoogleSheetsGuildSubscriptionRepository } from '../googlesheets/GoogleSheetsGuildSubscriptionRepository';
 import { EmailServiceFactory } from './emailServiceFactory';
-import { IIssueRepository, IMailService } from '../../application/ports';
+import {
+  IDeliveryRepository,
+  IGuildSettingsRepository,
+  IIssueRepository,
+  ILinkClickRepository,
+  IMailService,
+  ISubscriptionDeactivationRepository,
+  ITrackedLinkRepository,
+} from '../../application/ports';
 import { PullInboxUseCase } from '../../application/usecases/PullInboxUseCase';
 import { GoogleSheetsIssueRepository } from '../googlesheets/GoogleSheetsIssueRepository';
+import { GoogleSheetsDeliveryRepository } from '../googlesheets/GoogleSheetsDeliveryRepository';
+import { GoogleSheetsGuildSettingsRepository } from '../googlesheets/GoogleSheetsGuildSettingsRepository';
+import { GoogleSheetsSubscriptionDeactivationRepository } from '../googlesheets/GoogleSheetsSubscriptionDeactivationRepository';
 import { DiscordClient } from '../discord/DiscordClient';
 import { DiscordServiceFactory } from './discordServiceFactory';
 import { DispatchIssueUseCase } from '../../application/usecases/DispatchIssueUseCase';
 import { HandleDiscordCommandsUseCase } from '../../application/usecases/HandleDiscordCommandsUseCase';
+import { RecordLinkClickUseCase } from '../../application/usecases/RecordLinkClickUseCase';
+import { GetGuildClickStatsUseCase } from '../../application/usecases/GetGuildClickStatsUseCase';
+import { GetIssueArchiveUseCase } from '../../application/usecases/GetIssueArchiveUseCase';
+import { BrowseNewslettersUseCase } from '../../application/usecases/BrowseNewslettersUseCase';
+import { GetNewsletterIssuesUseCase } from '../../application/usecases/GetNewsletterIssuesUseCase';
+import { CheckSubscriptionHealthUseCase } from '../../application/usecases/CheckSubscriptionHealthUseCase';
+import databaseConfig from '../config/database';
+import webConfig from '../config/web';
+import dispatchConfig from '../config/dispatch';
+import { WebServer } from '../http/WebServer';
+import { PostgresClient } from '../postgres/PostgresClient';
+import { PostgresNewsletterRepository } from '../postgres/PostgresNewsletterRepository';
+import { PostgresIssueRepository } from '../postgres/PostgresIssueRepository';
+import { PostgresGuildSubscriptionRepository } from '../postgres/PostgresGuildSubscriptionRepository';
+import { PostgresTrackedLinkRepository } from '../postgres/PostgresTrackedLinkRepository';
+import { PostgresLinkClickRepository } from '../postgres/PostgresLinkClickRepository';
+import { PostgresDeliveryRepository } from '../postgres/PostgresDeliveryRepository';
+import { PostgresGuildSettingsRepository } from '../postgres/PostgresGuildSettingsRepository';
+import { PostgresSubscriptionDeactivationRepository } from '../postgres/PostgresSubscriptionDeactivationRepository';
 
 /**
  * Factory for creating repositories and services
  */
 export class RepositoryFactory {
   private static sheetsClient: GoogleSheetsClient | null = null;
+  private static postgresClient: PostgresClient | null = null;
   private static newsletterRepository: INewsletterRepository | null = null;
   private static guildSubscriptionRepository: IGuildSubscriptionRepository | null = null;
   private static newsletterService: NewsletterService | null = null;
   private static guildSubscriptionService: GuildSubscriptionService | null = null;
+  private static subscriptionCleanupService: SubscriptionCleanupService | null = null;
   private static issueRepository: IIssueRepository | null = null;
+  private static trackedLinkRepository: ITrackedLinkRepository | null = null;
+  private static linkClickRepository: ILinkClickRepository | null = null;
+  private static deliveryRepository: IDeliveryRepository | null = null;
+  private static guildSettingsRepository: IGuildSettingsRepository | null = null;
+  private static subscriptionDeactivationRepository: ISubscriptionDeactivationRepository | null =
+    null;
+  private static dispatchIssueUseCase: DispatchIssueUseCase | null = null;
   private static handleDiscordCommandsUseCase: HandleDiscordCommandsUseCase | null = null;
+  private static webServer: WebServer | null = null;
 
   /**
    * Get the Google Sheets client instance
@@ -36,11 +78,30 @@ export class RepositoryFactory {
     return this.sheetsClient;
   }
 
+  /**
+   * Get the PostgreSQL client instance
+   */
+  static getPostgresClient(): PostgresClient {
+    if (!this.postgresClient) {
+      this.postgresClient = new PostgresClient();
+    }
+    return this.postgresClient;
+  }
+
+  /**
+   * Check whether repositories should be backed by PostgreSQL
+   */
+  static usesPostgres(): boolean {
+    return databaseConfig.backend === 'postgres';
+  }
+
   /**
    * Get the newsletter repository instance
    */
   static async getNewsletterRepository(): Promise<INewsletterRepository> {
-    if (!this.newsletterRepository) {
+    if (!this.newsletterRepository && this.usesPostgres()) {
+      this.newsletterRepository = new PostgresNewsletterRepository(this.getPostgresClient());
+    } else if (!this.newsletterRepository) {
       const sheetsClient = this.getSheetsClient();
       const repository = new GoogleSheetsNewsletterRepository(sheetsClient);
       await repository.initialize();
@@ -53,7 +114,11 @@ export class RepositoryFactory {
    * Get the guild subscription repository instance
    */
   static async getGuildSubscriptionRepository(): Promise<IGuildSubscriptionRepository> {
-    if (!this.guildSubscriptionRepository) {
+    if (!this.guildSubscriptionRepository && this.usesPostgres()) {
+      this.guildSubscriptionRepository = new PostgresGuildSubscriptionRepository(
+        this.getPostgresClient(),
+      );
+    } else if (!this.guildSubscriptionRepository) {
       const sheetsClient = this.getSheetsClient();
       const repository = new GoogleSheetsGuildSubscriptionRepository(sheetsClient);
       await repository.initialize();
@@ -88,6 +153,21 @@ export class RepositoryFactory {
     return this.guildSubscriptionService;
   }
 
+  /**
+   * Get the subscription cleanup service instance
+   */
+  static async getSubscriptionCleanupService(): Promise<SubscriptionCleanupService> {
+    if (!this.subscriptionCleanupService) {
+      const subscriptionRepo = await this.getGuildSubscriptionRepository();
+      const deactivationRepo = await this.getSubscriptionDeactivationRepository();
+      this.subscriptionCleanupService = new SubscriptionCleanupService(
+        subscriptionRepo,
+        deactivationRepo,
+      );
+    }
+    return this.subscriptionCleanupService;
+  }
+
   /**
    * Get the mail service instance
    */
@@ -99,7 +179,9 @@ export class RepositoryFactory {
    * Get the issue repository instance
    */
   static async getIssueRepository(): Promise<IIssueRepository> {
-    if (!this.issueRepository) {
+    if (!this.issueRepository && this.usesPostgres()) {
+      this.issueRepository = new PostgresIssueRepository(this.getPostgresClient());
+    } else if (!this.issueRepository) {
       const sheetsClient = this.getSheetsClient();
       const repository = new GoogleSheetsIssueRepository(sheetsClient);
       await repository.initialize();
@@ -108,6 +190,79 @@ export class RepositoryFactory {
     return this.issueRepository;
   }
 
+  /**
+   * Get the delivery (dispatch outbox) repository instance
+   */
+  static async getDeliveryRepository(): Promise<IDeliveryRepository> {
+    if (!this.deliveryRepository && this.usesPostgres()) {
+      this.deliveryRepository = new PostgresDeliveryRepository(this.getPostgresClient());
+    } else if (!this.deliveryRepository) {
+      const sheetsClient = this.getSheetsClient();
+      const repository = new GoogleSheetsDeliveryRepository(sheetsClient);
+      await repository.initialize();
+      this.deliveryRepository = repository;
+    }
+    return this.deliveryRepository!;
+  }
+
+  /**
+   * Get the guild settings repository instance
+   */
+  static async getGuildSettingsRepository(): Promise<IGuildSettingsRepository> {
+    if (!this.guildSettingsRepository && this.usesPostgres()) {
+      this.guildSettingsRepository = new PostgresGuildSettingsRepository(this.getPostgresClient());
+    } else if (!this.guildSettingsRepository) {
+      const sheetsClient = this.getSheetsClient();
+      const repository = new GoogleSheetsGuildSettingsRepository(sheetsClient);
+      await repository.initialize();
+      this.guildSettingsRepository = repository;
+    }
+    return this.guildSettingsRepository!;
+  }
+
+  /**
+   * Get the subscription deactivation (cleanup audit log) repository instance
+   */
+  static async getSubscriptionDeactivationRepository(): Promise<ISubscriptionDeactivationRepository> {
+    if (!this.subscriptionDeactivationRepository && this.usesPostgres()) {
+      this.subscriptionDeactivationRepository = new PostgresSubscriptionDeactivationRepository(
+        this.getPostgresClient(),
+      );
+    } else if (!this.subscriptionDeactivationRepository) {
+      const sheetsClient = this.getSheetsClient();
+      const repository = new GoogleSheetsSubscriptionDeactivationRepository(sheetsClient);
+      await repository.initialize();
+      this.subscriptionDeactivationRepository = repository;
+    }
+    return this.subscriptionDeactivationRepository!;
+  }
+
+  /**
+   * Get the tracked link repository instance
+   */
+  static async getTrackedLinkRepository(): Promise<ITrackedLinkRepository> {
+    if (!this.trackedLinkRepository) {
+      if (!this.usesPostgres()) {
+        throw new Error('Tracked links require STORAGE_BACKEND=postgres');
+      }
+      this.trackedLinkRepository = new PostgresTrackedLinkRepository(this.getPostgresClient());
+    }
+    return this.trackedLinkRepository;
+  }
+
+  /**
+   * Get the link click repository instance
+   */
+  static async getLinkClickRepository(): Promise<ILinkClickRepository> {
+    if (!this.linkClickRepository) {
+      if (!this.usesPostgres()) {
+        throw new Error('Link click analytics require STORAGE_BACKEND=postgres');
+      }
+      this.linkClickRepository = new PostgresLinkClickRepository(this.getPostgresClient());
+    }
+    return this.linkClickRepository;
+  }
+
   /**
    * Get the PullInboxUseCase instance
    */
@@ -116,7 +271,13 @@ export class RepositoryFactory {
     const newsletterRepository = await this.getNewsletterRepository();
     const issueRepository = await this.getIssueRepository();
 
-    return new PullInboxUseCase(mailService, newsletterRepository, issueRepository);
+    return new PullInboxUseCase(
+      mailService,
+      newsletterRepository,
+      issueRepository,
+      new WebUrlExtractionService(),
+      webConfig.archiveLinksEnabled ? webConfig.publicBaseUrl : undefined,
+    );
   }
 
   /**
@@ -132,10 +293,15 @@ export class RepositoryFactory {
     if (!this.handleDiscordCommandsUseCase) {
       const guildSubscriptionRepository = await this.getGuildSubscriptionRepository();
       const newsletterRepository = await this.getNewsletterRepository();
+      const guildSettingsRepository = await this.getGuildSettingsRepository();
+      const deliveryRepository = await this.getDeliveryRepository();
 
       this.handleDiscordCommandsUseCase = new HandleDiscordCommandsUseCase(
         guildSubscriptionRepository,
         newsletterRepository,
+        guildSettingsRepository,
+        deliveryRepository,
+        dispatchConfig.digestTimezone,
       );
     }
 
@@ -145,11 +311,141 @@ export class RepositoryFactory {
    * Get the DispatchIssueUseCase instance
    */
   static async getDispatchIssueUseCase(): Promise<DispatchIssueUseCase> {
+    // Shared so overlapping cron runs never drain the outbox concurrently
+    if (!this.dispatchIssueUseCase) {
+      const issueRepository = await this.getIssueRepository();
+      const guildSubscriptionRepository = await this.getGuildSubscriptionRepository();
+      const newsletterRepository = await this.getNewsletterRepository();
+      const deliveryRepository = await this.getDeliveryRepository();
+      const guildSettingsRepository = await this.getGuildSettingsRepository();
+      const subscriptionCleanupService = await this.getSubscriptionCleanupService();
+      const discordClient = await this.getDiscordClient();
+      const linkTracking = webConfig.linkTrackingEnabled
+        ? {
+            trackedLinkRepository: await this.getTrackedLinkRepository(),
+            baseUrl: webConfig.publicBaseUrl,
+          }
+        : undefined;
+
+      this.dispatchIssueUseCase = new DispatchIssueUseCase(
+        issueRepository,
+        guildSubscriptionRepository,
+        newsletterRepository,
+        deliveryRepository,
+        guildSettingsRepository,
+        subscriptionCleanupService,
+        discordClient,
+        {
+          maxAttempts: dispatchConfig.maxAttempts,
+          baseDelayMs: dispatchConfig.retryBaseDelayMs,
+          maxDelayMs: dispatchConfig.retryMaxDelayMs,
+          channelFailureThreshold: dispatchConfig.channelFailureThreshold,
+        },
+        dispatchConfig.digestTimezone,
+        linkTracking,
+      );
+    }
+
+    return this.dispatchIssueUseCase;
+  }
+
+  /**
+   * Get the RecordLinkClickUseCase instance
+   */
+  static async getRecordLinkClickUseCase(): Promise<RecordLinkClickUseCase> {
+    const trackedLinkRepository = await this.getTrackedLinkRepository();
+    const linkClickRepository = await this.getLinkClickRepository();
+
+    return new RecordLinkClickUseCase(
+      trackedLinkRepository,
+      linkClickRepository,
+      webConfig.ipHashSalt,
+    );
+  }
+
+  /**
+   * Get the GetGuildClickStatsUseCase instance
+   */
+  static async getGuildClickStatsUseCase(): Promise<GetGuildClickStatsUseCase> {
+    const linkClickRepository = await this.getLinkClickRepository();
+    const guildSubscriptionRepository = await this.getGuildSubscriptionRepository();
+    const newsletterRepository = await this.getNewsletterRepository();
+    const issueRepository = await this.getIssueRepository();
+
+    return new GetGuildClickStatsUseCase(
+      linkClickRepository,
+      guildSubscriptionRepository,
+      newsletterRepository,
+      issueRepository,
+    );
+  }
+
+  /**
+   * Get the GetIssueArchiveUseCase instance
+   */
+  static async getIssueArchiveUseCase(): Promise<GetIssueArchiveUseCase> {
+    const issueRepository = await this.getIssueRepository();
+    const newsletterRepository = await this.getNewsletterRepository();
+
+    return new GetIssueArchiveUseCase(issueRepository, newsletterRepository);
+  }
+
+  /**
+   * Get the BrowseNewslettersUseCase instance
+   */
+  static async getBrowseNewslettersUseCase(): Promise<BrowseNewslettersUseCase> {
+    const newsletterRepository = await this.getNewsletterRepository();
     const issueRepository = await this.getIssueRepository();
     const guildSubscriptionRepository = await this.getGuildSubscriptionRepository();
+
+    return new BrowseNewslettersUseCase(
+      newsletterRepository,
+      issueRepository,
+      guildSubscriptionRepository,
+    );
+  }
+
+  /**
+   * Get the GetNewsletterIssuesUseCase instance
+   */
+  static async getNewsletterIssuesUseCase(): Promise<GetNewsletterIssuesUseCase> {
+    const issueRepository = await this.getIssueRepository();
+    const newsletterRepository = await this.getNewsletterRepository();
+
+    return new GetNewsletterIssuesUseCase(issueRepository, newsletterRepository);
+  }
+
+  /**
+   * Get the CheckSubscriptionHealthUseCase instance
+   */
+  static async getCheckSubscriptionHealthUseCase(): Promise<CheckSubscriptionHealthUseCase> {
+    const guildSubscriptionRepository = await this.getGuildSubscriptionRepository();
+    const newsletterRepository = await this.getNewsletterRepository();
     const discordClient = await this.getDiscordClient();
 
-    return new DispatchIssueUseCase(issueRepository, guildSubscriptionRepository, discordClient);
+    return new CheckSubscriptionHealthUseCase(
+      guildSubscriptionRepository,
+      newsletterRepository,
+      discordClient,
+    );
+  }
+
+  /**
+   * Get the web server instance (serves tracked link redirects and issue archive pages)
+   */
+  static async getWebServer(): Promise<WebServer> {
+    if (!this.webServer) {
+      // Tracked links are only stored in PostgreSQL; the archive works with either backend
+      const recordLinkClickUseCase = this.usesPostgres()
+        ? await this.getRecordLinkClickUseCase()
+        : null;
+      const getIssueArchiveUseCase = await this.getIssueArchiveUseCase();
+      this.webServer = new WebServer(recordLinkClickUseCase, getIssueArchiveUseCase, {
+        port: webConfig.port,
+        trustProxy: webConfig.trustProxy,
+      });
+    }
+    return this.webServer;
   }
 
   /**
@@ -157,13 +453,22 @@ export class RepositoryFactory {
    */
   static reset(): void {
     this.sheetsClient = null;
+    this.postgresClient = null;
     this.newsletterRepository = null;
     this.guildSubscriptionRepository = null;
     this.issueRepository = null;
+    this.trackedLinkRepository = null;
+    this.linkClickRepository = null;
+    this.deliveryRepository = null;
+    this.guildSettingsRepository = null;
+    this.subscriptionDeactivationRepository = null;
+    this.dispatchIssueUseCase = null;
     this.newsletterService = null;
     this.guildSubscriptionService = null;
+    this.subscriptionCleanupService = null;
     EmailServiceFactory.reset();
     DiscordServiceFactory.reset();
     this.handleDiscordCommandsUseCase = null;
+    this.webServer = null;
   }
 }
@@ -1,10 +1,14 @@
-import { sheets, sheetId } from '../config/googleSheets';
+import { sheets_v4 } from 'googleapis';
+import { getGoogleSheetsConfig } from '../config/googleSheets';
 
 export class GoogleSheetsClient {
+  private readonly sheets: sheets_v4.Sheets;
   private readonly spreadsheetId: string;
 
   constructor(spreadsheetId?: string) {
-    this.spreadsheetId = spreadsheetId || sheetId;
+    const config = getGoogleSheetsConfig();
+    this.sheets = config.sheets;
+    this.spreadsheetId = spreadsheetId || config.sheetId;
   }
 
   /**
@@ -19,7 +23,7 @@ export class GoogleSheetsClient {
       // This ensures we're using a valid range format for the API
       const rangeDef = range ? `${sheetName}!${range}` : `${sheetName}!A1:Z100`;
 
-      const response = await sheets.spreadsheets.values.get({
+      const response = await this.sheets.spreadsheets.values.get({
         spreadsheetId: this.spreadsheetId,
         range: rangeDef,
       });
@@ -53,7 +57,7 @@ export class GoogleSheetsClient {
    */
   async updateSheetData(sheetName: string, range: string, values: any[][]): Promise<void> {
     try {
-      await sheets.spreadsheets.values.update({
+      await this.sheets.spreadsheets.values.update({
         spreadsheetId: this.spreadsheetId,
         range: `${sheetName}!${range}`,
         valueInputOption: 'USER_ENTERED',
@@ -74,7 +78,7 @@ export class GoogleSheetsClient {
    */
   async appendSheetData(sheetName: string, values: any[][]): Promise<void> {
     try {
-      await sheets.spreadsheets.values.append({
+      await this.sheets.spreadsheets.values.append({
         spreadsheetId: this.spreadsheetId,
         range: sheetName,
         valueInputOption: 'USER_ENTERED',
@@ -94,7 +98,7 @@ export class GoogleSheetsClient {
    */
   async getSheets(): Promise<string[]> {
     try {
-      const response = await sheets.spreadsheets.get({
+      const response = await this.sheets.spreadsheets.get({
         spreadsheetId: this.spreadsheetId,
       });
 
@@ -113,7 +117,7 @@ export class GoogleSheetsClient {
    */
   async createSheet(sheetName: string): Promise<void> {
     try {
-      await sheets.spreadsheets.batchUpdate({
+      await this.sheets.spreadsheets.batchUpdate({
         spreadsheetId: this.spreadsheetId,
         requestBody: {
           requests: [
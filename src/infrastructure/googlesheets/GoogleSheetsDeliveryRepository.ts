@@ -0,0 +1,345 @@
+import { IDeliveryRepository } from '../../application/ports/IDeliveryRepository';
+import { Delivery, DeliveryStatus } from '../../domain/entities/Delivery';
+import { GoogleSheetsClient } from './GoogleSheetsClient';
+import {
+  validateSheetHeaders,
+  mapRowToObject,
+  getColumnIndex,
+} from '../../shared/utils/sheetValidator';
+
+export class GoogleSheetsDeliveryRepository implements IDeliveryRepository {
+  private readonly sheetName = 'Deliveries';
+  private readonly requiredHeaders = [
+    'ID',
+    'IssueID',
+    'SubscriptionID',
+    'GuildID',
+    'ChannelID',
+    'Status',
+    'Attempts',
+    'NextAttemptAt',
+    'LastError',
+    'DiscordMessageID',
+    'SentAt',
+    'CreatedAt',
+    'UpdatedAt',
+  ];
+  private readonly optionalHeaders = ['Backfill'];
+  private headerRow: string[] = [];
+  private cache: Map<string, Delivery> = new Map();
+  private lastCacheUpdate: number = 0;
+  private readonly cacheTTL = 60000; // 1 minute cache TTL
+
+  constructor(private readonly sheetsClient: GoogleSheetsClient) {}
+
+  /**
+   * Initialize the repository by validating the sheet structure
+   */
+  async initialize(): Promise<void> {
+    const sheetsList = await this.sheetsClient.getSheets();
+
+    if (!sheetsList.includes(this.sheetName)) {
+      console.log(`Sheet "${this.sheetName}" doesn't exist. Creating it now...`);
+      await this.createDeliveriesSheet();
+      return;
+    }
+
+    const data = await this.sheetsClient.getSheetData(this.sheetName, '1:1');
+
+    if (!data || data.length === 0) {
+      console.log(`Sheet "${this.sheetName}" exists but is empty. Adding headers...`);
+      await this.writeHeaders([...this.requiredHeaders, ...this.optionalHeaders]);
+      return;
+    }
+
+    this.headerRow = data[0].map(String);
+    validateSheetHeaders(this.headerRow, this.requiredHeaders, this.sheetName);
+
+    const missingHeaders = this.optionalHeaders.filter(
+      (header) => !this.headerRow.includes(header),
+    );
+    if (missingHeaders.length > 0) {
+      console.log(`Adding columns to "${this.sheetName}": ${missingHeaders.join(', ')}`);
+      await this.writeHeaders([...this.headerRow, ...missingHeaders]);
+    }
+  }
+
+  /**
+   * Create the Deliveries sheet with required headers
+   */
+  private async createDeliveriesSheet(): Promise<void> {
+    try {
+      await this.sheetsClient.createSheet(this.sheetName);
+
+      // Wait a moment for Google Sheets to process the new sheet
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+
+      await this.writeHeaders([...this.requiredHeaders, ...this.optionalHeaders]);
+
+      console.log(`Successfully initialized ${this.sheetName} sheet with headers`);
+    } catch (error) {
+      console.error(`Failed to create ${this.sheetName} sheet:`, error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Unable to create ${this.sheetName} sheet: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Write the header row and remember it as the current column layout
+   */
+  private async writeHeaders(headers: string[]): Promise<void> {
+    await this.sheetsClient.updateSheetData(
+      this.sheetName,
+      `A1:${String.fromCharCode(65 + headers.length - 1)}1`,
+      [headers],
+    );
+    this.headerRow = headers;
+  }
+
+  /**
+   * Find a delivery by its ID
+   */
+  async getById(id: string): Promise<Delivery | null> {
+    await this.refreshCacheIfNeeded();
+    return this.cache.get(id) || null;
+  }
+
+  /**
+   * Find deliveries by issue ID
+   */
+  async getByIssueId(issueId: string): Promise<Delivery[]> {
+    await this.refreshCacheIfNeeded();
+    return Array.from(this.cache.values()).filter((delivery) => delivery.issueId === issueId);
+  }
+
+  /**
+   * Find the delivery for an issue in a specific channel
+   */
+  async getByIssueAndChannel(issueId: string, channelId: string): Promise<Delivery | null> {
+    await this.refreshCacheIfNeeded();
+
+    for (const delivery of this.cache.values()) {
+      if (delivery.issueId === issueId && delivery.channelId === channelId) {
+        return delivery;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find deliveries with a given status
+   */
+  async getByStatus(status: DeliveryStatus): Promise<Delivery[]> {
+    await this.refreshCacheIfNeeded();
+    return Array.from(this.cache.values()).filter((delivery) => delivery.status === status);
+  }
+
+  /**
+   * Get pending or failed deliveries whose next attempt is due, oldest first
+   */
+  async getDue(now: Date, limit: number = 100): Promise<Delivery[]> {
+    await this.refreshCacheIfNeeded();
+
+    return Array.from(this.cache.values())
+      .filter((delivery) => delivery.isDue(now))
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit);
+  }
+
+  /**
+   * Add a delivery to the outbox unless one already exists for its issue and channel
+   */
+  async enqueue(delivery: Delivery): Promise<boolean> {
+    const existing = await this.getByIssueAndChannel(delivery.issueId, delivery.channelId);
+    if (existing) {
+      return false;
+    }
+
+    await this.save(delivery);
+    return true;
+  }
+
+  /**
+   * Save a delivery (create or update)
+   */
+  async save(delivery: Delivery): Promise<void> {
+    await this.ensureInitialized();
+
+    const data = await this.sheetsClient.getSheetData(this.sheetName, `A1:${this.lastColumn}`);
+    const idIndex = getColumnIndex(this.headerRow, 'ID');
+
+    // Check if delivery already exists
+    let existingRowIndex = -1;
+    for (let i = 1; i < data.length; i++) {
+      const row = data[i];
+      if (row && row.length > idIndex && row[idIndex] === delivery.id) {
+        existingRowIndex = i;
+        break;
+      }
+    }
+
+    const newRow = this.deliveryToRow(delivery);
+
+    if (existingRowIndex !== -1) {
+      // Update existing row
+      await this.sheetsClient.updateSheetData(
+        this.sheetName,
+        `A${existingRowIndex + 1}:${this.lastColumn}${existingRowIndex + 1}`,
+        [newRow],
+      );
+    } else {
+      // Append new row
+      await this.sheetsClient.appendSheetData(this.sheetName, [newRow]);
+    }
+
+    // Update cache
+    this.cache.set(delivery.id, delivery);
+  }
+
+  /**
+   * Prefix a Discord snowflake with an apostrophe so Sheets stores it as text
+   * instead of rounding it to a number
+   */
+  private asText(value: string): string {
+    return `'${value}`;
+  }
+
+  /**
+   * Letter of the last column in the sheet
+   */
+  private get lastColumn(): string {
+    return String.fromCharCode(65 + this.headerRow.length - 1);
+  }
+
+  /**
+   * Ensure the repository is initialized
+   */
+  private async ensureInitialized(): Promise<void> {
+    if (this.headerRow.length === 0) {
+      await this.initialize();
+    }
+  }
+
+  /**
+   * Refresh the cache if it's expired
+   */
+  private async refreshCacheIfNeeded(): Promise<void> {
+    await this.ensureInitialized();
+
+    const now = Date.now();
+    if (now - this.lastCacheUpdate > this.cacheTTL || this.cache.size === 0) {
+      await this.refreshCache();
+    }
+  }
+
+  /**
+   * Refresh the delivery cache from Google Sheets
+   */
+  private async refreshCache(): Promise<void> {
+    // Read every row, not just the default first 100, since the outbox grows with each issue
+    const data = await this.sheetsClient.getSheetData(this.sheetName, `A1:${this.lastColumn}`);
+
+    // Clear the cache
+    this.cache.clear();
+
+    // Skip header row
+    for (let i = 1; i < data.length; i++) {
+      const row = data[i];
+      if (row && row.length > 0) {
+        try {
+          const delivery = this.rowToDelivery(row);
+          this.cache.set(delivery.id, delivery);
+        } catch (error) {
+          console.error(`Error parsing delivery row ${i + 1}:`, error);
+          // Continue with other rows
+        }
+      }
+    }
+
+    this.lastCacheUpdate = Date.now();
+  }
+
+  /**
+   * Convert a row from Google Sheets to a Delivery entity
+   */
+  private rowToDelivery(row: string[]): Delivery {
+    const obj = mapRowToObject(row, this.headerRow);
+
+    return Delivery.create({
+      id: obj.ID,
+      issueId: obj.IssueID,
+      subscriptionId: obj.SubscriptionID,
+      guildId: obj.GuildID,
+      channelId: obj.ChannelID,
+      status: obj.Status as DeliveryStatus,
+      attempts: parseInt(obj.Attempts || '0', 10),
+      nextAttemptAt: obj.NextAttemptAt ? new Date(obj.NextAttemptAt) : new Date(),
+      lastError: obj.LastError || undefined,
+      discordMessageId: obj.DiscordMessageID || undefined,
+      sentAt: obj.SentAt ? new Date(obj.SentAt) : undefined,
+      backfill: String(obj.Backfill).toUpperCase() === 'TRUE',
+      createdAt: obj.CreatedAt ? new Date(obj.CreatedAt) : new Date(),
+      updatedAt: obj.UpdatedAt ? new Date(obj.UpdatedAt) : new Date(),
+    });
+  }
+
+  /**
+   * Convert a Delivery entity to a row for Google Sheets
+   */
+  private deliveryToRow(delivery: Delivery): string[] {
+    const row: string[] = [];
+
+    // Ensure columns are in the right order
+    this.headerRow.forEach((header) => {
+      switch (header) {
+        case 'ID':
+          row.push(delivery.id);
+          break;
+        case 'IssueID':
+          row.push(delivery.issueId);
+          break;
+        case 'SubscriptionID':
+          row.push(delivery.subscriptionId);
+          break;
+        case 'GuildID':
+          row.push(this.asText(delivery.guildId));
+          break;
+        case 'ChannelID':
+          row.push(this.asText(delivery.channelId));
+          break;
+        case 'Status':
+          row.push(delivery.status);
+          break;
+        case 'Attempts':
+          row.push(String(delivery.attempts));
+          break;
+        case 'NextAttemptAt':
+          row.push(delivery.nextAttemptAt.toISOString());
+          break;
+        case 'LastError':
+          row.push(delivery.lastError || '');
+          break;
+        case 'DiscordMessageID':
+          row.push(delivery.discordMessageId ? this.asText(delivery.discordMessageId) : '');
+          break;
+        case 'SentAt':
+          row.push(delivery.sentAt ? delivery.sentAt.toISOString() : '');
+          break;
+        case 'Backfill':
+          row.push(delivery.backfill ? 'true' : 'false');
+          break;
+        case 'CreatedAt':
+          row.push(delivery.createdAt.toISOString());
+          break;
+        case 'UpdatedAt':
+          row.push(delivery.updatedAt.toISOString());
+          break;
+        default:
+          row.push(''); // For any unknown columns
+      }
+    });
+
+    return row;
+  }
+}
@@ -0,0 +1,271 @@
+import { IGuildSettingsRepository } from '../../application/ports/IGuildSettingsRepository';
+import { GuildSettings } from '../../domain/entities/GuildSettings';
+import { GoogleSheetsClient } from './GoogleSheetsClient';
+import {
+  validateSheetHeaders,
+  mapRowToObject,
+  getColumnIndex,
+} from '../../shared/utils/sheetValidator';
+
+export class GoogleSheetsGuildSettingsRepository implements IGuildSettingsRepository {
+  private readonly sheetName = 'GuildSettings';
+  private readonly requiredHeaders = ['GuildID', 'Timezone', 'Locale', 'CreatedAt', 'UpdatedAt'];
+  // Added after the original columns, so they are appended to existing sheets on initialize
+  private readonly optionalHeaders = ['ManagerRoleID'];
+  private headerRow: string[] = [];
+  private cache: Map<string, GuildSettings> = new Map();
+  private lastCacheUpdate: number = 0;
+  private readonly cacheTTL = 60000; // 1 minute cache TTL
+
+  constructor(private readonly sheetsClient: GoogleSheetsClient) {}
+
+  /**
+   * Initialize the repository by validating the sheet structure
+   */
+  async initialize(): Promise<void> {
+    const sheetsList = await this.sheetsClient.getSheets();
+
+    if (!sheetsList.includes(this.sheetName)) {
+      console.log(`Sheet "${this.sheetName}" doesn't exist. Creating it now...`);
+      await this.createGuildSettingsSheet();
+      return;
+    }
+
+    const data = await this.sheetsClient.getSheetData(this.sheetName, '1:1');
+
+    if (!data || data.length === 0) {
+      console.log(`Sheet "${this.sheetName}" exists but is empty. Adding headers...`);
+      await this.writeHeaders([...this.requiredHeaders, ...this.optionalHeaders]);
+    } else {
+      this.headerRow = data[0].map(String);
+      validateSheetHeaders(this.headerRow, this.requiredHeaders, this.sheetName);
+
+      const missingHeaders = this.optionalHeaders.filter(
+        (header) => !this.headerRow.includes(header),
+      );
+      if (missingHeaders.length > 0) {
+        console.log(`Adding columns to "${this.sheetName}": ${missingHeaders.join(', ')}`);
+        await this.writeHeaders([...this.headerRow, ...missingHeaders]);
+      }
+    }
+  }
+
+  /**
+   * Create the GuildSettings sheet with required headers
+   */
+  private async createGuildSettingsSheet(): Promise<void> {
+    try {
+      await this.sheetsClient.createSheet(this.sheetName);
+
+      // Wait a moment for Google Sheets to process the new sheet
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+
+      await this.writeHeaders([...this.requiredHeaders, ...this.optionalHeaders]);
+
+      console.log(`Successfully initialized ${this.sheetName} sheet with headers`);
+    } catch (error) {
+      console.error(`Failed to create ${this.sheetName} sheet:`, error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Unable to create ${this.sheetName} sheet: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Write the header row and remember it as the current column layout
+   */
+  private async writeHeaders(headers: string[]): Promise<void> {
+    await this.sheetsClient.updateSheetData(
+      this.sheetName,
+      `A1:${String.fromCharCode(65 + headers.length - 1)}1`,
+      [headers],
+    );
+    this.headerRow = headers;
+  }
+
+  /**
+   * Find the settings for a guild
+   */
+  async getByGuildId(guildId: string): Promise<GuildSettings | null> {
+    await this.refreshCacheIfNeeded();
+    return this.cache.get(guildId) || null;
+  }
+
+  /**
+   * Save settings (create or update)
+   */
+  async save(settings: GuildSettings): Promise<void> {
+    await this.ensureInitialized();
+
+    const data = await this.sheetsClient.getSheetData(this.sheetName, `A1:${this.lastColumn}`);
+    const rowIndex = this.findRowIndex(data, settings.guildId);
+    const newRow = this.settingsToRow(settings);
+
+    if (rowIndex !== -1) {
+      // Update existing row
+      await this.sheetsClient.updateSheetData(
+        this.sheetName,
+        `A${rowIndex + 1}:${this.lastColumn}${rowIndex + 1}`,
+        [newRow],
+      );
+    } else {
+      // Append new row
+      await this.sheetsClient.appendSheetData(this.sheetName, [newRow]);
+    }
+
+    // Update cache
+    this.cache.set(settings.guildId, settings);
+  }
+
+  /**
+   * Delete the settings for a guild
+   */
+  async delete(guildId: string): Promise<void> {
+    await this.ensureInitialized();
+
+    const data = await this.sheetsClient.getSheetData(this.sheetName, `A1:${this.lastColumn}`);
+    const rowIndex = this.findRowIndex(data, guildId);
+
+    if (rowIndex !== -1) {
+      // Rewrite the rows below and blank the last one, since the API can't remove a row
+      const remaining = [...data.slice(0, rowIndex), ...data.slice(rowIndex + 1)];
+      const blankRow = this.headerRow.map(() => '');
+
+      await this.sheetsClient.updateSheetData(
+        this.sheetName,
+        `A1:${this.lastColumn}${data.length}`,
+        [...remaining, blankRow],
+      );
+    }
+
+    this.cache.delete(guildId);
+  }
+
+  /**
+   * Find the sheet row holding a guild's settings, or -1
+   */
+  private findRowIndex(data: string[][], guildId: string): number {
+    const guildIdIndex = getColumnIndex(this.headerRow, 'GuildID');
+
+    for (let i = 1; i < data.length; i++) {
+      const row = data[i];
+      if (row && row.length > guildIdIndex && String(row[guildIdIndex]) === guildId) {
+        return i;
+      }
+    }
+
+    return -1;
+  }
+
+  /**
+   * Prefix a Discord snowflake with an apostrophe so Sheets stores it as text
+   * instead of rounding it to a number
+   */
+  private asText(value: string): string {
+    return `'${value}`;
+  }
+
+  /**
+   * Letter of the last column in the sheet
+   */
+  private get lastColumn(): string {
+    return String.fromCharCode(65 + this.headerRow.length - 1);
+  }
+
+  /**
+   * Ensure the repository is initialized
+   */
+  private async ensureInitialized(): Promise<void> {
+    if (this.headerRow.length === 0) {
+      await this.initialize();
+    }
+  }
+
+  /**
+   * Refresh the cache if it's expired
+   */
+  private async refreshCacheIfNeeded(): Promise<void> {
+    await this.ensureInitialized();
+
+    const now = Date.now();
+    if (now - this.lastCacheUpdate > this.cacheTTL) {
+      await this.refreshCache();
+    }
+  }
+
+  /**
+   * Refresh the settings cache from Google Sheets
+   */
+  private async refreshCache(): Promise<void> {
+    const data = await this.sheetsClient.getSheetData(this.sheetName, `A1:${this.lastColumn}`);
+
+    // Clear the cache
+    this.cache.clear();
+
+    // Skip header row
+    for (let i = 1; i < data.length; i++) {
+      const row = data[i];
+      if (row && row.length > 0 && row[0]) {
+        try {
+          const settings = this.rowToSettings(row);
+          this.cache.set(settings.guildId, settings);
+        } catch (error) {
+          console.error(`Error parsing guild settings row ${i + 1}:`, error);
+          // Continue with other rows
+        }
+      }
+    }
+
+    this.lastCacheUpdate = Date.now();
+  }
+
+  /**
+   * Convert a row from Google Sheets to a GuildSettings entity
+   */
+  private rowToSettings(row: string[]): GuildSettings {
+    const obj = mapRowToObject(row, this.headerRow);
+
+    return GuildSettings.create({
+      guildId: obj.GuildID,
+      timezone: obj.Timezone || undefined,
+      locale: obj.Locale || undefined,
+      managerRoleId: obj.ManagerRoleID || undefined,
+      createdAt: obj.CreatedAt ? new Date(obj.CreatedAt) : new Date(),
+      updatedAt: obj.UpdatedAt ? new Date(obj.UpdatedAt) : new Date(),
+    });
+  }
+
+  /**
+   * Convert a GuildSettings entity to a row for Google Sheets
+   */
+  private settingsToRow(settings: GuildSettings): string[] {
+    const row: string[] = [];
+
+    // Ensure columns are in the right order
+    this.headerRow.forEach((header) => {
+      switch (header) {
+        case 'GuildID':
+          row.push(this.asText(settings.guildId));
+          break;
+        case 'Timezone':
+          row.push(settings.timezone);
+          break;
+        case 'Locale':
+          row.push(settings.locale);
+          break;
+        case 'ManagerRoleID':
+          row.push(settings.managerRoleId ? this.asText(settings.managerRoleId) : '');
+          break;
+        case 'CreatedAt':
+          row.push(settings.createdAt.toISOString());
+          break;
+        case 'UpdatedAt':
+          row.push(settings.updatedAt.toISOString());
+          break;
+        default:
+          row.push(''); // For any unknown columns
+      }
+    });
+
+    return row;
+  }
+}
@@ -1,5 +1,5 @@
 import { IGuildSubscriptionRepository } from '../../application/ports/IGuildSubscriptionRepository';
-import { GuildSubscription } from '../../domain/entities/GuildSubscription';
+import { DeliveryMode, GuildSubscription } from '../../domain/entities/GuildSubscription';
 import { GoogleSheetsClient } from './GoogleSheetsClient';
 import {
   validateSheetHeaders,
@@ -10,6 +10,19 @@ import {
 export class GoogleSheetsGuildSubscriptionRepository implements IGuildSubscriptionRepository {
   private readonly sheetName = 'GuildSubscriptions';
   private readonly requiredHeaders = ['ID', 'GuildID', 'ChannelID', 'NewsletterID', 'Active'];
+  // Added after the original columns, so they are appended to existing sheets on initialize
+  private readonly optionalHeaders = [
+    'IncludeKeywords',
+    'ExcludeKeywords',
+    'CreateThread',
+    'Crosspost',
+    'Mention',
+    'DeliveryMode',
+    'DigestTime',
+    'DigestDay',
+    'PausedUntil',
+    'Paused',
+  ];
   private headerRow: string[] = [];
   private cache: Map<string, GuildSubscription> = new Map();
   private lastCacheUpdate: number = 0;
@@ -30,6 +43,14 @@ export class GoogleSheetsGuildSubscriptionRepository implements IGuildSubscripti
 
       this.headerRow = data[0].map(String);
       validateSheetHeaders(this.headerRow, this.requiredHeaders, this.sheetName);
+
+      const missingHeaders = this.optionalHeaders.filter(
+        (header) => !this.headerRow.includes(header),
+      );
+      if (missingHeaders.length > 0) {
+        console.log(`Adding columns to "${this.sheetName}": ${missingHeaders.join(', ')}`);
+        await this.writeHeaders([...this.headerRow, ...missingHeaders]);
+      }
     } catch (error) {
       // If sheet doesn't exist, create it
       if (
@@ -56,10 +77,7 @@ export class GoogleSheetsGuildSubscriptionRepository implements IGuildSubscripti
       }
 
       // Add header row
-      await this.sheetsClient.updateSheetData(this.sheetName, 'A1:E1', [this.requiredHeaders]);
-
-      // Update headerRow
-      this.headerRow = this.requiredHeaders;
+      await this.writeHeaders([...this.requiredHeaders, ...this.optionalHeaders]);
 
       console.log(`Initialized ${this.sheetName} sheet with headers`);
     } catch (error) {
@@ -69,6 +87,33 @@ export class GoogleSheetsGuildSubscriptionRepository implements IGuildSubscripti
     }
   }
 
+  /**
+   * Write the header row and remember it as the current column layout
+   */
+  private async writeHeaders(headers: string[]): Promise<void> {
+    await this.sheetsClient.updateSheetData(
+      this.sheetName,
+      `A1:${this.columnLetter(headers.length - 1)}1`,
+      [headers],
+    );
+    this.headerRow = headers;
+  }
+
+  /**
+   * Prefix a value with an apostrophe so Sheets stores it as text instead of
+   * converting it (rounding a Discord snowflake, or turning a time into a number)
+   */
+  private asText(value: string): string {
+    return `'${value}`;
+  }
+
+  /**
+   * Letter of the column at a zero-based index
+   */
+  private columnLetter(index: number): string {
+    return String.fromCharCode(65 + index);
+  }
+
   /**
    * Get all guild subscriptions
    */
@@ -111,6 +156,15 @@ export class GoogleSheetsGuildSubscriptionRepository implements IGuildSubscripti
     return Array.from(this.cache.values()).filter((sub) => sub.newsletterId === newsletterId);
   }
 
+  /**
+   * Find paused subscriptions whose pause has ended, leaving out deactivated ones
+   */
+  async getDueToResume(now: Date): Promise<GuildSubscription[]> {
+    await this.refreshCacheIfNeeded();
+
+    return Array.from(this.cache.values()).filter((sub) => sub.isDueToResume(now));
+  }
+
   /**
    * Find active subscriptions by newsletter ID
    */
@@ -140,20 +194,43 @@ export class GoogleSheetsGuildSubscriptionRepository implements IGuildSubscripti
   }
 
   /**
-   * Find subscription by guild ID and newsletter ID
+   * Find the subscriptions to a newsletter in every channel of a guild
    */
   async getByGuildAndNewsletter(
     guildId: string,
     newsletterId: string,
-  ): Promise<GuildSubscription | null> {
+  ): Promise<GuildSubscription[]> {
     if (!guildId || !newsletterId) {
       throw new Error('Guild ID and Newsletter ID are required');
     }
 
     await this.refreshCacheIfNeeded();
 
+    return Array.from(this.cache.values()).filter(
+      (sub) => sub.guildId === guildId && sub.newsletterId === newsletterId,
+    );
+  }
+
+  /**
+   * Find the subscription to a newsletter in a specific channel of a guild
+   */
+  async getByGuildChannelAndNewsletter(
+    guildId: string,
+    channelId: string,
+    newsletterId: string,
+  ): Promise<GuildSubscription | null> {
+    if (!guildId || !channelId || !newsletterId) {
+      throw new Error('Guild ID, Channel ID and Newsletter ID are required');
+    }
+
+    await this.refreshCacheIfNeeded();
+
     for (const subscription of this.cache.values()) {
-      if (subscription.guildId === guildId && subscription.newsletterId === newsletterId) {
+      if (
+        subscription.guildId === guildId &&
+        subscription.channelId === channelId &&
+        subscription.newsletterId === newsletterId
+      ) {
         return subscription;
       }
     }
@@ -186,7 +263,7 @@ export class GoogleSheetsGuildSubscriptionRepository implements IGuildSubscripti
       // Update existing row
       await this.sheetsClient.updateSheetData(
         this.sheetName,
-        `A${existingRowIndex + 1}:E${existingRowIndex + 1}`,
+        `A${existingRowIndex + 1}:${this.columnLetter(this.headerRow.length - 1)}${existingRowIndex + 1}`,
         [newRow],
       );
     } else {
@@ -220,7 +297,7 @@ export class GoogleSheetsGuildSubscriptionRepository implements IGuildSubscripti
     // Clear the entire sheet
     await this.sheetsClient.updateSheetData(
       this.sheetName,
-      `A1:${String.fromCharCode(65 + this.headerRow.length - 1)}${data.length}`,
+      `A1:${this.columnLetter(this.headerRow.length - 1)}${data.length}`,
       filteredData,
     );
 
@@ -248,10 +325,18 @@ export class GoogleSheetsGuildSubscriptionRepository implements IGuildSubscripti
   }
 
   /**
-   * Check if a subscription exists for a guild and newsletter
+   * Check if a subscription exists for a guild, channel and newsletter
    */
-  async existsByGuildAndNewsletter(guildId: string, newsletterId: string): Promise<boolean> {
-    const subscription = await this.getByGuildAndNewsletter(guildId, newsletterId);
+  async existsByGuildChannelAndNewsletter(
+    guildId: string,
+    channelId: string,
+    newsletterId: string,
+  ): Promise<boolean> {
+    const subscription = await this.getByGuildChannelAndNewsletter(
+      guildId,
+      channelId,
+      newsletterId,
+    );
     return subscription !== null;
   }
 
@@ -314,9 +399,26 @@ export class GoogleSheetsGuildSubscriptionRepository implements IGuildSubscripti
       channelId: obj.ChannelID,
       newsletterId: obj.NewsletterID,
       active: active, // Convert string to boolean
+      includeKeywords: this.parseKeywords(obj.IncludeKeywords),
+      excludeKeywords: this.parseKeywords(obj.ExcludeKeywords),
+      createThread: String(obj.CreateThread).toUpperCase() === 'TRUE',
+      crosspost: String(obj.Crosspost).toUpperCase() === 'TRUE',
+      mention: obj.Mention || undefined,
+      deliveryMode: (obj.DeliveryMode || undefined) as DeliveryMode | undefined,
+      digestTime: obj.DigestTime || undefined,
+      digestDay: obj.DigestDay ? parseInt(obj.DigestDay, 10) : undefined,
+      paused: String(obj.Paused).toUpperCase() === 'TRUE',
+      pausedUntil: obj.PausedUntil ? new Date(obj.PausedUntil) : undefined,
     });
   }
 
+  /**
+   * Split a keyword cell into rules, one per line (regexes may contain commas)
+   */
+  private parseKeywords(value: string | undefined): string[] {
+    return value ? value.split('\n').filter((rule) => rule.trim().length > 0) : [];
+  }
+
   /**
    * Convert a GuildSubscription entity to a row for Google Sheets
    */
@@ -341,6 +443,37 @@ export class GoogleSheetsGuildSubscriptionRepository implements IGuildSubscripti
         case 'Active':
           row.push(subscription.active ? 'true' : 'false');
           break;
+        case 'IncludeKeywords':
+          row.push(subscription.includeKeywords.join('\n'));
+          break;
+        case 'ExcludeKeywords':
+          row.push(subscription.excludeKeywords.join('\n'));
+          break;
+        case 'CreateThread':
+          row.push(subscription.createThread ? 'true' : 'false');
+          break;
+        case 'Crosspost':
+          row.push(subscription.crosspost ? 'true' : 'false');
+          break;
+        case 'Mention':
+          row.push(subscription.mention ? this.asText(subscription.mention) : '');
+          break;
+        case 'DeliveryMode':
+          row.push(subscription.deliveryMode);
+          break;
+        case 'DigestTime':
+          // Keep Sheets from turning the time into a number
+          row.push(this.asText(subscription.digestTime));
+          break;
+        case 'DigestDay':
+          row.push(String(subscription.digestDay));
+          break;
+        case 'PausedUntil':
+          row.push(subscription.pausedUntil ? subscription.pausedUntil.toISOString() : '');
+          break;
+        case 'Paused':
+          row.push(subscription.paused ? 'true' : 'false');
+          break;
         default:
           row.push(''); // For any unknown columns
       }
@@ -18,6 +18,17 @@ export class GoogleSheetsIssueRepository implements IIssueRepository {
     'MessageID',
     'Processed',
   ];
+  // Added after the original columns, so they are appended to existing sheets on initialize
+  private readonly optionalHeaders = [
+    'Summary',
+    'ImageURL',
+    'SenderName',
+    'Content',
+    'Extractor',
+    'ExtractionConfidence',
+  ];
+  // Google Sheets rejects cells longer than this
+  private readonly maxCellLength = 50000;
   private headerRow: string[] = [];
   private cache: Map<string, Issue> = new Map();
   private lastCacheUpdate: number = 0;
@@ -40,15 +51,22 @@ export class GoogleSheetsIssueRepository implements IIssueRepository {
       }
 
       // If sheet exists, validate headers
-      const data = await this.sheetsClient.getSheetData(this.sheetName, 'A1:G1');
+      const data = await this.sheetsClient.getSheetData(this.sheetName, 'A1:Z1');
 
       if (!data || data.length === 0) {
         console.log(`Sheet "${this.sheetName}" exists but is empty. Adding headers...`);
-        await this.sheetsClient.updateSheetData(this.sheetName, 'A1:G1', [this.requiredHeaders]);
-        this.headerRow = this.requiredHeaders;
+        await this.writeHeaders(this.allHeaders);
       } else {
         this.headerRow = data[0].map(String);
         validateSheetHeaders(this.headerRow, this.requiredHeaders, this.sheetName);
+
+        const missingHeaders = this.optionalHeaders.filter(
+          (header) => !this.headerRow.includes(header),
+        );
+        if (missingHeaders.length > 0) {
+          console.log(`Adding columns to "${this.sheetName}": ${missingHeaders.join(', ')}`);
+          await this.writeHeaders([...this.headerRow, ...missingHeaders]);
+        }
       }
     } catch (error) {
       console.error(`Error initializing Issues repository:`, error);
@@ -86,10 +104,7 @@ export class GoogleSheetsIssueRepository implements IIssueRepository {
 
       // Add header row
       console.log(`Adding headers to ${this.sheetName} sheet...`);
-      await this.sheetsClient.updateSheetData(this.sheetName, 'A1:G1', [this.requiredHeaders]);
-
-      // Update headerRow
-      this.headerRow = this.requiredHeaders;
+      await this.writeHeaders(this.allHeaders);
 
       console.log(`Successfully initialized ${this.sheetName} sheet with headers`);
     } catch (error) {
@@ -99,6 +114,32 @@ export class GoogleSheetsIssueRepository implements IIssueRepository {
     }
   }
 
+  /**
+   * Write the header row and remember it as the current column layout
+   */
+  private async writeHeaders(headers: string[]): Promise<void> {
+    await this.sheetsClient.updateSheetData(
+      this.sheetName,
+      `A1:${this.columnLetter(headers.length - 1)}1`,
+      [headers],
+    );
+    this.headerRow = headers;
+  }
+
+  /**
+   * Every column this repository reads and writes
+   */
+  private get allHeaders(): string[] {
+    return [...this.requiredHeaders, ...this.optionalHeaders];
+  }
+
+  /**
+   * Letter of the column at a zero-based index
+   */
+  private columnLetter(index: number): string {
+    return String.fromCharCode(65 + index);
+  }
+
   /**
    * Get all issues
    */
@@ -123,6 +164,22 @@ export class GoogleSheetsIssueRepository implements IIssueRepository {
     return Array.from(this.cache.values()).filter((issue) => issue.newsletterId === newsletterId);
   }
 
+  /**
+   * Count issues received since a date, keyed by newsletter ID
+   */
+  async countByNewsletterSince(since: Date): Promise<Map<string, number>> {
+    await this.refreshCacheIfNeeded();
+
+    const counts = new Map<string, number>();
+    for (const issue of this.cache.values()) {
+      if (issue.receivedAt.getTime() >= since.getTime()) {
+        counts.set(issue.newsletterId, (counts.get(issue.newsletterId) ?? 0) + 1);
+      }
+    }
+
+    return counts;
+  }
+
   /**
    * Find issues by message ID (email message ID)
    */
@@ -171,7 +228,7 @@ export class GoogleSheetsIssueRepository implements IIssueRepository {
       // Update existing row
       await this.sheetsClient.updateSheetData(
         this.sheetName,
-        `A${existingRowIndex + 1}:G${existingRowIndex + 1}`,
+        `A${existingRowIndex + 1}:${this.columnLetter(this.headerRow.length - 1)}${existingRowIndex + 1}`,
         [newRow],
       );
     } else {
@@ -205,7 +262,7 @@ export class GoogleSheetsIssueRepository implements IIssueRepository {
     // Clear the entire sheet
     await this.sheetsClient.updateSheetData(
       this.sheetName,
-      `A1:${String.fromCharCode(65 + this.headerRow.length - 1)}${data.length}`,
+      `A1:${this.columnLetter(this.headerRow.length - 1)}${data.length}`,
       filteredData,
     );
 
@@ -234,6 +291,13 @@ export class GoogleSheetsIssueRepository implements IIssueRepository {
     return issue !== null;
   }
 
+  /**
+   * Check whether content fits in a single cell
+   */
+  canStoreContent(content: string): boolean {
+    return content.length <= this.maxCellLength;
+  }
+
   /**
    * Ensure the repository is initialized
    */
@@ -295,9 +359,35 @@ export class GoogleSheetsIssueRepository implements IIssueRepository {
       receivedAt: new Date(obj.ReceivedAt),
       messageId: obj.MessageID || undefined,
       processed: obj.Processed === 'true',
+      summary: obj.Summary || undefined,
+      imageUrl: obj.ImageURL || undefined,
+      senderName: obj.SenderName || undefined,
+      content: obj.Content || undefined,
+      extractor: obj.Extractor || undefined,
+      extractionConfidence: obj.ExtractionConfidence
+        ? parseFloat(obj.ExtractionConfidence)
+        : undefined,
     });
   }
 
+  /**
+   * Get the archived HTML for a cell, leaving it empty when it is too long for Sheets
+   */
+  private contentToCell(issue: Issue): string {
+    if (!issue.content) {
+      return '';
+    }
+
+    if (!this.canStoreContent(issue.content)) {
+      console.warn(
+        `Content of issue ${issue.id} is ${issue.content.length} characters, too long to archive in Google Sheets`,
+      );
+      return '';
+    }
+
+    return issue.content;
+  }
+
   /**
    * Convert an Issue entity to a row for Google Sheets
    */
@@ -328,6 +418,26 @@ export class GoogleSheetsIssueRepository implements IIssueRepository {
         case 'Processed':
           row.push(issue.processed ? 'true' : 'false');
           break;
+        case 'Summary':
+          row.push(issue.summary || '');
+          break;
+        case 'ImageURL':
+          row.push(issue.imageUrl || '');
+          break;
+        case 'SenderName':
+          row.push(issue.senderName || '');
+          break;
+        case 'Content':
+          row.push(this.contentToCell(issue));
+          break;
+        case 'Extractor':
+          row.push(issue.extractor || '');
+          break;
+        case 'ExtractionConfidence':
+          row.push(
+            issue.extractionConfidence !== undefined ? String(issue.extractionConfidence) : '',
+          );
+          break;
         default:
           row.push(''); // For any unknown columns
       }
@@ -10,6 +10,8 @@ import {
 export class GoogleSheetsNewsletterRepository implements INewsletterRepository {
   private readonly sheetName = 'Sheet1';
   private readonly requiredHeaders = ['ID', 'Name', 'URL', 'SenderEmail', 'ExtractionPattern'];
+  // Catalog columns shown by /browse, appended to the sheet on initialize when missing
+  private readonly catalogHeaders = ['Description', 'Category', 'IconURL'];
   private headerRow: string[] = [];
   private cache: Map<string, Newsletter> = new Map();
   private lastCacheUpdate: number = 0;
@@ -29,6 +31,18 @@ export class GoogleSheetsNewsletterRepository implements INewsletterRepository {
 
     this.headerRow = data[0].map(String);
     validateSheetHeaders(this.headerRow, this.requiredHeaders, this.sheetName);
+
+    const missingHeaders = this.catalogHeaders.filter((header) => !this.headerRow.includes(header));
+    if (missingHeaders.length > 0) {
+      console.log(`Adding columns to "${this.sheetName}": ${missingHeaders.join(', ')}`);
+      const headers = [...this.headerRow, ...missingHeaders];
+      await this.sheetsClient.updateSheetData(
+        this.sheetName,
+        `A1:${this.columnLetter(headers.length - 1)}1`,
+        [headers],
+      );
+      this.headerRow = headers;
+    }
   }
 
   /**
@@ -141,7 +155,7 @@ export class GoogleSheetsNewsletterRepository implements INewsletterRepository {
       // Update existing row
       await this.sheetsClient.updateSheetData(
         this.sheetName,
-        `A${existingRowIndex + 1}:E${existingRowIndex + 1}`,
+        `A${existingRowIndex + 1}:${this.columnLetter(this.headerRow.length - 1)}${existingRowIndex + 1}`,
         [newRow],
       );
     } else {
@@ -175,11 +189,11 @@ export class GoogleSheetsNewsletterRepository implements INewsletterRepository {
       return;
     }
 
-    // Clear the entire sheet
+    // Rewrite the sheet, blanking the last row that the remaining rows no longer reach
     await this.sheetsClient.updateSheetData(
       this.sheetName,
-      `A1:${String.fromCharCode(65 + this.headerRow.length - 1)}${data.length}`,
-      filteredData,
+      `A1:${this.columnLetter(this.headerRow.length - 1)}${data.length}`,
+      [...filteredData, this.headerRow.map(() => '')],
     );
 
     // Remove from cache
@@ -194,6 +208,13 @@ export class GoogleSheetsNewsletterRepository implements INewsletterRepository {
     return newsletter !== null;
   }
 
+  /**
+   * Letter of the column at a zero-based index
+   */
+  private columnLetter(index: number): string {
+    return String.fromCharCode(65 + index);
+  }
+
   /**
    * Ensure the repository is initialized
    */
@@ -253,6 +274,12 @@ export class GoogleSheetsNewsletterRepository implements INewsletterRepository {
       url: obj.URL,
       senderEmail: obj.SenderEmail,
       extractionPattern: obj.ExtractionPattern || undefined,
+      // Color is an optional column, written as #RRGGBB
+      color: obj.Color ? Newsletter.parseColor(obj.Color) : undefined,
+      useArchiveLink: obj.UseArchiveLink === 'true',
+      description: obj.Description || undefined,
+      category: obj.Category || undefined,
+      iconUrl: obj.IconURL || undefined,
     });
   }
 
@@ -280,6 +307,21 @@ export class GoogleSheetsNewsletterRepository implements INewsletterRepository {
         case 'ExtractionPattern':
           row.push(newsletter.extractionPattern || '');
           break;
+        case 'Color':
+          row.push(newsletter.colorHex || '');
+          break;
+        case 'UseArchiveLink':
+          row.push(newsletter.useArchiveLink ? 'true' : 'false');
+          break;
+        case 'Description':
+          row.push(newsletter.description || '');
+          break;
+        case 'Category':
+          row.push(newsletter.category || '');
+          break;
+        case 'IconURL':
+          row.push(newsletter.iconUrl || '');
+          break;
         default:
           row.push(''); // For any unknown columns
       }
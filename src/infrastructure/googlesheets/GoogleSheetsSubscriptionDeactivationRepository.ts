@@ -0,0 +1,259 @@
+import { ISubscriptionDeactivationRepository } from '../../application/ports/ISubscriptionDeactivationRepository';
+import {
+  DeactivationReason,
+  SubscriptionDeactivation,
+} from '../../domain/entities/SubscriptionDeactivation';
+import { GoogleSheetsClient } from './GoogleSheetsClient';
+import {
+  validateSheetHeaders,
+  mapRowToObject,
+  getColumnIndex,
+} from '../../shared/utils/sheetValidator';
+
+export class GoogleSheetsSubscriptionDeactivationRepository implements ISubscriptionDeactivationRepository {
+  private readonly sheetName = 'SubscriptionDeactivations';
+  private readonly requiredHeaders = [
+    'ID',
+    'SubscriptionID',
+    'GuildID',
+    'ChannelID',
+    'NewsletterID',
+    'Reason',
+    'Detail',
+    'DeactivatedAt',
+    'RestoredAt',
+  ];
+  private headerRow: string[] = [];
+  private cache: Map<string, SubscriptionDeactivation> = new Map();
+  private lastCacheUpdate: number = 0;
+  private readonly cacheTTL = 60000; // 1 minute cache TTL
+
+  constructor(private readonly sheetsClient: GoogleSheetsClient) {}
+
+  /**
+   * Initialize the repository by validating the sheet structure
+   */
+  async initialize(): Promise<void> {
+    const sheetsList = await this.sheetsClient.getSheets();
+
+    if (!sheetsList.includes(this.sheetName)) {
+      console.log(`Sheet "${this.sheetName}" doesn't exist. Creating it now...`);
+      await this.createDeactivationsSheet();
+      return;
+    }
+
+    const data = await this.sheetsClient.getSheetData(this.sheetName, '1:1');
+
+    if (!data || data.length === 0) {
+      console.log(`Sheet "${this.sheetName}" exists but is empty. Adding headers...`);
+      await this.writeHeaders(this.requiredHeaders);
+    } else {
+      this.headerRow = data[0].map(String);
+      validateSheetHeaders(this.headerRow, this.requiredHeaders, this.sheetName);
+    }
+  }
+
+  /**
+   * Create the SubscriptionDeactivations sheet with required headers
+   */
+  private async createDeactivationsSheet(): Promise<void> {
+    try {
+      await this.sheetsClient.createSheet(this.sheetName);
+
+      // Wait a moment for Google Sheets to process the new sheet
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+
+      await this.writeHeaders(this.requiredHeaders);
+
+      console.log(`Successfully initialized ${this.sheetName} sheet with headers`);
+    } catch (error) {
+      console.error(`Failed to create ${this.sheetName} sheet:`, error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Unable to create ${this.sheetName} sheet: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Write the header row and remember it as the current column layout
+   */
+  private async writeHeaders(headers: string[]): Promise<void> {
+    await this.sheetsClient.updateSheetData(
+      this.sheetName,
+      `A1:${String.fromCharCode(65 + headers.length - 1)}1`,
+      [headers],
+    );
+    this.headerRow = headers;
+  }
+
+  /**
+   * Find the deactivations recorded for a guild, oldest first
+   */
+  async getByGuildId(guildId: string): Promise<SubscriptionDeactivation[]> {
+    await this.refreshCacheIfNeeded();
+    return Array.from(this.cache.values())
+      .filter((deactivation) => deactivation.guildId === guildId)
+      .sort((a, b) => a.deactivatedAt.getTime() - b.deactivatedAt.getTime());
+  }
+
+  /**
+   * Save a deactivation record (create or update)
+   */
+  async save(deactivation: SubscriptionDeactivation): Promise<void> {
+    await this.ensureInitialized();
+
+    const data = await this.sheetsClient.getSheetData(this.sheetName, `A1:${this.lastColumn}`);
+    const idIndex = getColumnIndex(this.headerRow, 'ID');
+
+    // Check if the record already exists
+    let existingRowIndex = -1;
+    for (let i = 1; i < data.length; i++) {
+      const row = data[i];
+      if (row && row.length > idIndex && row[idIndex] === deactivation.id) {
+        existingRowIndex = i;
+        break;
+      }
+    }
+
+    const newRow = this.deactivationToRow(deactivation);
+
+    if (existingRowIndex !== -1) {
+      // Update existing row
+      await this.sheetsClient.updateSheetData(
+        this.sheetName,
+        `A${existingRowIndex + 1}:${this.lastColumn}${existingRowIndex + 1}`,
+        [newRow],
+      );
+    } else {
+      // Append new row
+      await this.sheetsClient.appendSheetData(this.sheetName, [newRow]);
+    }
+
+    // Update cache
+    this.cache.set(deactivation.id, deactivation);
+  }
+
+  /**
+   * Prefix a Discord snowflake with an apostrophe so Sheets stores it as text
+   * instead of rounding it to a number
+   */
+  private asText(value: string): string {
+    return `'${value}`;
+  }
+
+  /**
+   * Letter of the last column in the sheet
+   */
+  private get lastColumn(): string {
+    return String.fromCharCode(65 + this.headerRow.length - 1);
+  }
+
+  /**
+   * Ensure the repository is initialized
+   */
+  private async ensureInitialized(): Promise<void> {
+    if (this.headerRow.length === 0) {
+      await this.initialize();
+    }
+  }
+
+  /**
+   * Refresh the cache if it's expired
+   */
+  private async refreshCacheIfNeeded(): Promise<void> {
+    await this.ensureInitialized();
+
+    const now = Date.now();
+    if (now - this.lastCacheUpdate > this.cacheTTL) {
+      await this.refreshCache();
+    }
+  }
+
+  /**
+   * Refresh the deactivation cache from Google Sheets
+   */
+  private async refreshCache(): Promise<void> {
+    const data = await this.sheetsClient.getSheetData(this.sheetName, `A1:${this.lastColumn}`);
+
+    // Clear the cache
+    this.cache.clear();
+
+    // Skip header row
+    for (let i = 1; i < data.length; i++) {
+      const row = data[i];
+      if (row && row.length > 0 && row[0]) {
+        try {
+          const deactivation = this.rowToDeactivation(row);
+          this.cache.set(deactivation.id, deactivation);
+        } catch (error) {
+          console.error(`Error parsing subscription deactivation row ${i + 1}:`, error);
+          // Continue with other rows
+        }
+      }
+    }
+
+    this.lastCacheUpdate = Date.now();
+  }
+
+  /**
+   * Convert a row from Google Sheets to a SubscriptionDeactivation entity
+   */
+  private rowToDeactivation(row: string[]): SubscriptionDeactivation {
+    const obj = mapRowToObject(row, this.headerRow);
+
+    return SubscriptionDeactivation.create({
+      id: obj.ID,
+      subscriptionId: obj.SubscriptionID,
+      guildId: obj.GuildID,
+      channelId: obj.ChannelID,
+      newsletterId: obj.NewsletterID,
+      reason: obj.Reason as DeactivationReason,
+      detail: obj.Detail || undefined,
+      deactivatedAt: obj.DeactivatedAt ? new Date(obj.DeactivatedAt) : new Date(),
+      restoredAt: obj.RestoredAt ? new Date(obj.RestoredAt) : undefined,
+    });
+  }
+
+  /**
+   * Convert a SubscriptionDeactivation entity to a row for Google Sheets
+   */
+  private deactivationToRow(deactivation: SubscriptionDeactivation): string[] {
+    const row: string[] = [];
+
+    // Ensure columns are in the right order
+    this.headerRow.forEach((header) => {
+      switch (header) {
+        case 'ID':
+          row.push(deactivation.id);
+          break;
+        case 'SubscriptionID':
+          row.push(deactivation.subscriptionId);
+          break;
+        case 'GuildID':
+          row.push(this.asText(deactivation.guildId));
+          break;
+        case 'ChannelID':
+          row.push(this.asText(deactivation.channelId));
+          break;
+        case 'NewsletterID':
+          row.push(deactivation.newsletterId);
+          break;
+        case 'Reason':
+          row.push(deactivation.reason);
+          break;
+        case 'Detail':
+          row.push(deactivation.detail || '');
+          break;
+        case 'DeactivatedAt':
+          row.push(deactivation.deactivatedAt.toISOString());
+          break;
+        case 'RestoredAt':
+          row.push(deactivation.restoredAt ? deactivation.restoredAt.toISOString() : '');
+          break;
+        default:
+          row.push(''); // For any unknown columns
+      }
+    });
+
+    return row;
+  }
+}
@@ -0,0 +1,271 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { RecordLinkClickUseCase } from '../../application/usecases/RecordLinkClickUseCase';
+import {
+  GetIssueArchiveUseCase,
+  IssueArchivePage,
+} from '../../application/usecases/GetIssueArchiveUseCase';
+
+export interface WebServerOptions {
+  port: number;
+  trustProxy?: boolean;
+}
+
+export class WebServer {
+  private server: http.Server | null = null;
+  private readonly trackingPathRegex = /^\/t\/([A-Za-z0-9_-]{1,64})\/?$/;
+  private readonly archivePathRegex = /^\/issues\/([A-Za-z0-9-]{1,64})\/?$/;
+
+  constructor(
+    // Only available with the PostgreSQL backend
+    private readonly recordLinkClickUseCase: RecordLinkClickUseCase | null,
+    private readonly getIssueArchiveUseCase: GetIssueArchiveUseCase,
+    private readonly options: WebServerOptions,
+  ) {}
+
+  /**
+   * Start listening for requests
+   */
+  async start(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error(`Error handling request ${req.method} ${req.url}:`, error);
+        this.sendHtml(res, 500, 'Something went wrong', 'Please try again in a moment.');
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    console.log(`Web server listening on port ${this.options.port}`);
+  }
+
+  /**
+   * Stop accepting requests and close the server
+   */
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    const server = this.server;
+    this.server = null;
+
+    await new Promise<void>((resolve, reject) => {
+      server.close((error) => (error ? reject(error) : resolve()));
+    });
+    console.log('Web server stopped');
+  }
+
+  /**
+   * Route an incoming request
+   */
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { Allow: 'GET, HEAD' });
+      res.end();
+      return;
+    }
+
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+
+    if (pathname === '/health') {
+      res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end('ok');
+      return;
+    }
+
+    const trackingMatch = this.trackingPathRegex.exec(pathname);
+    if (trackingMatch) {
+      await this.handleTrackingRedirect(trackingMatch[1], req, res);
+      return;
+    }
+
+    const archiveMatch = this.archivePathRegex.exec(pathname);
+    if (archiveMatch) {
+      await this.handleArchivePage(archiveMatch[1], res);
+      return;
+    }
+
+    this.sendHtml(res, 404, 'Page not found', 'There is nothing at this address.');
+  }
+
+  /**
+   * Resolve a tracking ID, record the click and redirect to the original URL. HEAD requests
+   * come from link unfurlers and prefetchers rather than readers, so they aren't counted.
+   */
+  private async handleTrackingRedirect(
+    trackingId: string,
+    req: IncomingMessage,
+    res: ServerResponse,
+  ): Promise<void> {
+    const result = this.recordLinkClickUseCase
+      ? await this.recordLinkClickUseCase.execute({
+          trackingId,
+          ipAddress: this.getClientIp(req),
+          userAgent: req.headers['user-agent'],
+          recordClick: req.method === 'GET',
+        })
+      : null;
+
+    if (!result) {
+      this.sendHtml(
+        res,
+        404,
+        'Link not found',
+        'This newsletter link is unknown or has expired. Check the original post for a working link.',
+      );
+      return;
+    }
+
+    res.writeHead(302, {
+      Location: result.originalUrl,
+      'Cache-Control': 'no-store',
+      'Referrer-Policy': 'no-referrer',
+    });
+    res.end();
+  }
+
+  /**
+   * Serve the archived copy of an issue
+   */
+  private async handleArchivePage(issueId: string, res: ServerResponse): Promise<void> {
+    const page = await this.getIssueArchiveUseCase.execute(issueId);
+
+    if (!page) {
+      this.sendHtml(
+        res,
+        404,
+        'Issue not found',
+        'This newsletter issue is unknown or was not archived.',
+      );
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'public, max-age=300',
+      // The content is sanitized on the way in; this keeps anything that slips through inert
+      'Content-Security-Policy':
+        "default-src 'none'; img-src https: data:; style-src 'unsafe-inline'; base-uri 'none'; form-action 'none'",
+      'Referrer-Policy': 'no-referrer',
+      'X-Content-Type-Options': 'nosniff',
+    });
+    res.end(this.renderArchivePage(page));
+  }
+
+  /**
+   * Render an archived issue inside a small page header
+   */
+  private renderArchivePage(page: IssueArchivePage): string {
+    const { issue, content, newsletterName, newsletterUrl } = page;
+    const title = `${issue.title} · ${newsletterName}`;
+
+    // Issues posted with their archive link have no other copy to point to
+    const links: string[] = [];
+    if (!issue.webUrl.endsWith(`/issues/${issue.id}`)) {
+      links.push(
+        `<a href="${escapeHtml(issue.webUrl)}" rel="noopener noreferrer nofollow">View original</a>`,
+      );
+    }
+    if (newsletterUrl) {
+      links.push(
+        `<a href="${escapeHtml(newsletterUrl)}" rel="noopener noreferrer nofollow">${escapeHtml(newsletterName)}</a>`,
+      );
+    }
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 0; color: #2c2f33; background: #f6f6f7; }
+header { max-width: 40rem; margin: 0 auto; padding: 2rem 1rem 1rem; }
+header h1 { font-size: 1.5rem; margin: 0.25rem 0; }
+header p { margin: 0.25rem 0; color: #5c5f66; }
+article { max-width: 40rem; margin: 0 auto 4rem; padding: 1rem; background: #fff; overflow-x: auto; }
+article img { max-width: 100%; height: auto; }
+</style>
+</head>
+<body>
+<header>
+<p>${escapeHtml(newsletterName)} · ${escapeHtml(issue.receivedAt.toUTCString())}</p>
+<h1>${escapeHtml(issue.title)}</h1>
+${links.length > 0 ? `<p>${links.join(' · ')}</p>` : ''}
+</header>
+<article>
+${content}
+</article>
+</body>
+</html>`;
+  }
+
+  /**
+   * Get the client IP, honouring X-Forwarded-For only behind a trusted proxy
+   */
+  private getClientIp(req: IncomingMessage): string | undefined {
+    if (this.options.trustProxy) {
+      const forwardedFor = req.headers['x-forwarded-for'];
+      const header = Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor;
+      const firstHop = header?.split(',')[0]?.trim();
+      if (firstHop) {
+        return firstHop;
+      }
+    }
+
+    return req.socket.remoteAddress || undefined;
+  }
+
+  /**
+   * Send a minimal HTML page
+   */
+  private sendHtml(res: ServerResponse, status: number, title: string, message: string): void {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+
+    const body = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 32rem; margin: 4rem auto; padding: 0 1rem; color: #2c2f33; }
+h1 { font-size: 1.5rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>${escapeHtml(message)}</p>
+</body>
+</html>`;
+
+    res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(body);
+  }
+}
+
+/**
+ * Escape text for safe inclusion in HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
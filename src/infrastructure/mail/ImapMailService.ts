@@ -2,6 +2,7 @@ import { IMailService, EmailMessage } from '../../application/ports/IMailService
 import Imap from 'node-imap';
 import { simpleParser } from 'mailparser';
 import { Readable } from 'stream';
+import { parseEmail } from './parseEmail';
 
 export interface ImapConfig {
   host: string;
@@ -180,18 +181,7 @@ export class ImapMailService implements IMailService {
   ): Promise<EmailMessage | null> {
     try {
       // Parse the full email using mailparser
-      const parsed = await simpleParser(buffer);
-
-      // Extract the necessary information
-      return {
-        id: sequenceNumber,
-        messageId: uid,
-        from: parsed.from?.text || '',
-        subject: parsed.subject || '',
-        receivedAt: parsed.date || new Date(),
-        body: parsed.text || '',
-        html: parsed.html || undefined,
-      };
+      return await parseEmail(buffer, sequenceNumber, uid);
     } catch (error) {
       console.error('Error parsing email:', error);
       return null;
@@ -0,0 +1,24 @@
+import { promises as fs } from 'fs';
+import { DEFAULT_FIXTURES_DIR, loadExpectations, runEmlFixtures } from './emlFixtures';
+
+describe('web URL extraction against .eml fixtures', () => {
+  it('has an expected.json entry for every fixture', async () => {
+    const files = (await fs.readdir(DEFAULT_FIXTURES_DIR)).filter((file) => file.endsWith('.eml'));
+    const expectations = await loadExpectations();
+
+    expect(files.length).toBeGreaterThan(0);
+    expect(files.filter((file) => !expectations[file])).toEqual([]);
+  });
+
+  it('extracts the expected URL with the expected extractor', async () => {
+    const results = await runEmlFixtures();
+
+    for (const { file, extraction, expected } of results) {
+      expect({ file, url: extraction?.url, extractor: extraction?.extractor }).toEqual({
+        file,
+        url: expected?.url,
+        extractor: expected?.extractor,
+      });
+    }
+  });
+});
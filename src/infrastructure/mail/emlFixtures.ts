@@ -0,0 +1,85 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { EmailMessage } from '../../application/ports/IMailService';
+import { WebUrlExtraction } from '../../application/ports/IWebUrlExtractor';
+import { WebUrlExtractionService } from '../../application/services/WebUrlExtractionService';
+import { Newsletter } from '../../domain/entities/Newsletter';
+import { extractSenderName } from '../../shared/utils/emailPreview';
+import { parseEmail } from './parseEmail';
+
+/**
+ * What a fixture is expected to extract, from `expected.json` next to the .eml files
+ */
+export interface EmlFixtureExpectation {
+  url: string;
+  extractor: string;
+  /** Custom extraction pattern for the fixture's newsletter, if it has one */
+  extractionPattern?: string;
+}
+
+export interface EmlFixtureResult {
+  file: string;
+  email: EmailMessage;
+  extraction: WebUrlExtraction | null;
+  expected?: EmlFixtureExpectation;
+}
+
+// npm scripts and Jest run from the repository root
+export const DEFAULT_FIXTURES_DIR = path.resolve(process.cwd(), 'fixtures/emails');
+
+/**
+ * Parse every .eml file in a folder and run it through web URL extraction
+ */
+export async function runEmlFixtures(
+  dir: string = DEFAULT_FIXTURES_DIR,
+  extractionService: WebUrlExtractionService = new WebUrlExtractionService(),
+): Promise<EmlFixtureResult[]> {
+  const files = (await fs.readdir(dir)).filter((file) => file.endsWith('.eml')).sort();
+  const expectations = await loadExpectations(dir);
+
+  const results: EmlFixtureResult[] = [];
+  for (const file of files) {
+    const email = await parseEmail(await fs.readFile(path.join(dir, file)), file);
+    const expected = expectations[file];
+    const newsletter = newsletterForEmail(email, expected?.extractionPattern);
+
+    results.push({
+      file,
+      email,
+      extraction: extractionService.extract(email, newsletter),
+      expected,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Read `expected.json`, or nothing if the folder doesn't have one
+ */
+export async function loadExpectations(
+  dir: string = DEFAULT_FIXTURES_DIR,
+): Promise<Record<string, EmlFixtureExpectation>> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(dir, 'expected.json'), 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+}
+
+/**
+ * Stand-in for the newsletter a fixture would be matched to
+ */
+function newsletterForEmail(email: EmailMessage, extractionPattern?: string): Newsletter {
+  const addressMatch = email.from.match(/<?([\w.+-]+@[\w.-]+)>?/);
+
+  return Newsletter.create({
+    name: extractSenderName(email.from) || 'Fixture',
+    url: 'https://example.com',
+    senderEmail: addressMatch ? addressMatch[1] : 'fixture@example.com',
+    extractionPattern,
+  });
+}
@@ -0,0 +1,39 @@
+import { simpleParser, HeaderLines } from 'mailparser';
+import { EmailMessage } from '../../application/ports/IMailService';
+
+/**
+ * Parse a raw RFC 822 message (as fetched over IMAP or saved as .eml) into an EmailMessage
+ */
+export async function parseEmail(
+  source: string | Buffer,
+  id: string,
+  messageId?: string,
+): Promise<EmailMessage> {
+  const parsed = await simpleParser(source);
+
+  return {
+    id,
+    messageId,
+    from: parsed.from?.text || '',
+    subject: parsed.subject || '',
+    receivedAt: parsed.date || new Date(),
+    body: parsed.text || '',
+    html: parsed.html || undefined,
+    headers: getHeaders(parsed.headerLines),
+  };
+}
+
+/**
+ * Collect raw header values keyed by lower-case name, keeping the first of repeated headers
+ */
+function getHeaders(headerLines: HeaderLines): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  for (const { key, line } of headerLines) {
+    if (!(key in headers)) {
+      headers[key] = line.substring(line.indexOf(':') + 1).trim();
+    }
+  }
+
+  return headers;
+}
@@ -0,0 +1,62 @@
+import { readFileSync } from 'fs';
+import { Pool, QueryResultRow } from 'pg';
+import databaseConfig from '../config/database';
+
+export class PostgresClient {
+  private readonly pool: Pool;
+
+  constructor(pool?: Pool) {
+    this.pool =
+      pool ||
+      new Pool({
+        host: databaseConfig.host,
+        port: databaseConfig.port,
+        user: databaseConfig.user,
+        password: databaseConfig.password,
+        database: databaseConfig.database,
+        ssl: databaseConfig.ssl
+          ? {
+              rejectUnauthorized: databaseConfig.sslRejectUnauthorized,
+              ca: databaseConfig.sslCaPath
+                ? readFileSync(databaseConfig.sslCaPath, 'utf8')
+                : undefined,
+            }
+          : undefined,
+        max: databaseConfig.maxConnections,
+      });
+
+    // An idle client erroring out should not crash the process
+    this.pool.on('error', (error) => {
+      console.error('Unexpected PostgreSQL pool error:', error);
+    });
+  }
+
+  /**
+   * Run a query and return the resulting rows
+   * @param text The SQL statement, using $1, $2, ... placeholders
+   * @param params Values bound to the placeholders
+   */
+  async query<T extends QueryResultRow>(text: string, params: unknown[] = []): Promise<T[]> {
+    try {
+      const result = await this.pool.query<T>(text, params);
+      return result.rows;
+    } catch (error) {
+      console.error('Error executing PostgreSQL query:', error);
+      throw new Error(`Failed to execute query: ${error}`);
+    }
+  }
+
+  /**
+   * Verify that the database is reachable
+   */
+  async ping(): Promise<void> {
+    await this.query('SELECT 1');
+  }
+
+  /**
+   * Close all pooled connections
+   */
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
@@ -0,0 +1,170 @@
+import { IDeliveryRepository } from '../../application/ports/IDeliveryRepository';
+import { Delivery, DeliveryStatus } from '../../domain/entities/Delivery';
+import { PostgresClient } from './PostgresClient';
+
+interface DeliveryRow {
+  id: string;
+  issue_id: string;
+  subscription_id: string;
+  guild_id: string;
+  channel_id: string;
+  status: DeliveryStatus;
+  attempts: number;
+  next_attempt_at: Date;
+  last_error: string | null;
+  discord_message_id: string | null;
+  sent_at: Date | null;
+  backfill: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export class PostgresDeliveryRepository implements IDeliveryRepository {
+  constructor(private readonly client: PostgresClient) {}
+
+  /**
+   * Find a delivery by its ID
+   */
+  async getById(id: string): Promise<Delivery | null> {
+    const rows = await this.client.query<DeliveryRow>('SELECT * FROM deliveries WHERE id = $1', [
+      id,
+    ]);
+    return rows.length > 0 ? this.rowToDelivery(rows[0]) : null;
+  }
+
+  /**
+   * Find deliveries by issue ID
+   */
+  async getByIssueId(issueId: string): Promise<Delivery[]> {
+    const rows = await this.client.query<DeliveryRow>(
+      'SELECT * FROM deliveries WHERE issue_id = $1 ORDER BY created_at ASC',
+      [issueId],
+    );
+    return rows.map((row) => this.rowToDelivery(row));
+  }
+
+  /**
+   * Find the delivery for an issue in a specific channel
+   */
+  async getByIssueAndChannel(issueId: string, channelId: string): Promise<Delivery | null> {
+    const rows = await this.client.query<DeliveryRow>(
+      'SELECT * FROM deliveries WHERE issue_id = $1 AND channel_id = $2',
+      [issueId, channelId],
+    );
+    return rows.length > 0 ? this.rowToDelivery(rows[0]) : null;
+  }
+
+  /**
+   * Find deliveries with a given status
+   */
+  async getByStatus(status: DeliveryStatus): Promise<Delivery[]> {
+    const rows = await this.client.query<DeliveryRow>(
+      'SELECT * FROM deliveries WHERE status = $1 ORDER BY created_at ASC',
+      [status],
+    );
+    return rows.map((row) => this.rowToDelivery(row));
+  }
+
+  /**
+   * Get pending or failed deliveries whose next attempt is due, oldest first
+   */
+  async getDue(now: Date, limit: number = 100): Promise<Delivery[]> {
+    const rows = await this.client.query<DeliveryRow>(
+      `SELECT * FROM deliveries
+       WHERE status IN ('pending', 'failed') AND next_attempt_at <= $1
+       ORDER BY next_attempt_at ASC, created_at ASC
+       LIMIT $2`,
+      [now, limit],
+    );
+    return rows.map((row) => this.rowToDelivery(row));
+  }
+
+  /**
+   * Add a delivery to the outbox unless one already exists for its issue and channel
+   */
+  async enqueue(delivery: Delivery): Promise<boolean> {
+    const rows = await this.client.query<{ id: string }>(
+      `INSERT INTO deliveries (
+         id, issue_id, subscription_id, guild_id, channel_id, status, attempts,
+         next_attempt_at, backfill, created_at, updated_at
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       ON CONFLICT (issue_id, channel_id) DO NOTHING
+       RETURNING id`,
+      [
+        delivery.id,
+        delivery.issueId,
+        delivery.subscriptionId,
+        delivery.guildId,
+        delivery.channelId,
+        delivery.status,
+        delivery.attempts,
+        delivery.nextAttemptAt,
+        delivery.backfill,
+        delivery.createdAt,
+        delivery.updatedAt,
+      ],
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Save a delivery (create or update)
+   */
+  async save(delivery: Delivery): Promise<void> {
+    await this.client.query(
+      `INSERT INTO deliveries (
+         id, issue_id, subscription_id, guild_id, channel_id, status, attempts, next_attempt_at,
+         last_error, discord_message_id, sent_at, backfill, created_at, updated_at
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+       ON CONFLICT (id) DO UPDATE SET
+         channel_id = EXCLUDED.channel_id,
+         status = EXCLUDED.status,
+         attempts = EXCLUDED.attempts,
+         next_attempt_at = EXCLUDED.next_attempt_at,
+         last_error = EXCLUDED.last_error,
+         discord_message_id = EXCLUDED.discord_message_id,
+         sent_at = EXCLUDED.sent_at,
+         updated_at = EXCLUDED.updated_at`,
+      [
+        delivery.id,
+        delivery.issueId,
+        delivery.subscriptionId,
+        delivery.guildId,
+        delivery.channelId,
+        delivery.status,
+        delivery.attempts,
+        delivery.nextAttemptAt,
+        delivery.lastError ?? null,
+        delivery.discordMessageId ?? null,
+        delivery.sentAt ?? null,
+        delivery.backfill,
+        delivery.createdAt,
+        delivery.updatedAt,
+      ],
+    );
+  }
+
+  /**
+   * Convert a database row to a Delivery entity
+   */
+  private rowToDelivery(row: DeliveryRow): Delivery {
+    return Delivery.create({
+      id: row.id,
+      issueId: row.issue_id,
+      subscriptionId: row.subscription_id,
+      guildId: row.guild_id,
+      channelId: row.channel_id,
+      status: row.status,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at,
+      lastError: row.last_error || undefined,
+      discordMessageId: row.discord_message_id || undefined,
+      sentAt: row.sent_at || undefined,
+      backfill: row.backfill,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    });
+  }
+}
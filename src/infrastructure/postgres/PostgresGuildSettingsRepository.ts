@@ -0,0 +1,71 @@
+import { IGuildSettingsRepository } from '../../application/ports/IGuildSettingsRepository';
+import { GuildSettings } from '../../domain/entities/GuildSettings';
+import { PostgresClient } from './PostgresClient';
+
+interface GuildSettingsRow {
+  guild_id: string;
+  timezone: string;
+  locale: string;
+  manager_role_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export class PostgresGuildSettingsRepository implements IGuildSettingsRepository {
+  constructor(private readonly client: PostgresClient) {}
+
+  /**
+   * Find the settings for a guild
+   */
+  async getByGuildId(guildId: string): Promise<GuildSettings | null> {
+    const rows = await this.client.query<GuildSettingsRow>(
+      'SELECT * FROM guild_settings WHERE guild_id = $1',
+      [guildId],
+    );
+    return rows.length > 0 ? this.rowToSettings(rows[0]) : null;
+  }
+
+  /**
+   * Save settings (create or update)
+   */
+  async save(settings: GuildSettings): Promise<void> {
+    await this.client.query(
+      `INSERT INTO guild_settings (guild_id, timezone, locale, manager_role_id, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (guild_id) DO UPDATE SET
+         timezone = EXCLUDED.timezone,
+         locale = EXCLUDED.locale,
+         manager_role_id = EXCLUDED.manager_role_id,
+         updated_at = EXCLUDED.updated_at`,
+      [
+        settings.guildId,
+        settings.timezone,
+        settings.locale,
+        settings.managerRoleId ?? null,
+        settings.createdAt,
+        settings.updatedAt,
+      ],
+    );
+  }
+
+  /**
+   * Delete the settings for a guild
+   */
+  async delete(guildId: string): Promise<void> {
+    await this.client.query('DELETE FROM guild_settings WHERE guild_id = $1', [guildId]);
+  }
+
+  /**
+   * Convert a database row to a GuildSettings entity
+   */
+  private rowToSettings(row: GuildSettingsRow): GuildSettings {
+    return GuildSettings.create({
+      guildId: row.guild_id,
+      timezone: row.timezone,
+      locale: row.locale,
+      managerRoleId: row.manager_role_id || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    });
+  }
+}
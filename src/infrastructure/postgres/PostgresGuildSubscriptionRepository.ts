@@ -0,0 +1,276 @@
+import { IGuildSubscriptionRepository } from '../../application/ports/IGuildSubscriptionRepository';
+import { DeliveryMode, GuildSubscription } from '../../domain/entities/GuildSubscription';
+import { PostgresClient } from './PostgresClient';
+
+interface GuildSubscriptionRow {
+  id: string;
+  guild_id: string;
+  channel_id: string;
+  newsletter_id: string;
+  active: boolean;
+  include_keywords: string[] | null;
+  exclude_keywords: string[] | null;
+  create_thread: boolean;
+  crosspost: boolean;
+  mention: string | null;
+  delivery_mode: DeliveryMode;
+  digest_time: string;
+  digest_day: number;
+  paused: boolean;
+  paused_until: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export class PostgresGuildSubscriptionRepository implements IGuildSubscriptionRepository {
+  constructor(private readonly client: PostgresClient) {}
+
+  /**
+   * Get all guild subscriptions
+   */
+  async getAll(): Promise<GuildSubscription[]> {
+    const rows = await this.client.query<GuildSubscriptionRow>(
+      'SELECT * FROM guild_subscriptions ORDER BY created_at ASC',
+    );
+    return this.rowsToSubscriptions(rows);
+  }
+
+  /**
+   * Find a subscription by its ID
+   */
+  async getById(id: string): Promise<GuildSubscription | null> {
+    const rows = await this.client.query<GuildSubscriptionRow>(
+      'SELECT * FROM guild_subscriptions WHERE id = $1',
+      [id],
+    );
+    return rows.length > 0 ? this.rowToSubscription(rows[0]) : null;
+  }
+
+  /**
+   * Find subscriptions by guild ID
+   */
+  async getByGuildId(guildId: string): Promise<GuildSubscription[]> {
+    if (!guildId) {
+      throw new Error('Guild ID is required');
+    }
+
+    const rows = await this.client.query<GuildSubscriptionRow>(
+      'SELECT * FROM guild_subscriptions WHERE guild_id = $1 ORDER BY created_at ASC',
+      [guildId],
+    );
+    return this.rowsToSubscriptions(rows);
+  }
+
+  /**
+   * Find subscriptions by newsletter ID
+   */
+  async getByNewsletterId(newsletterId: string): Promise<GuildSubscription[]> {
+    if (!newsletterId) {
+      throw new Error('Newsletter ID is required');
+    }
+
+    const rows = await this.client.query<GuildSubscriptionRow>(
+      'SELECT * FROM guild_subscriptions WHERE newsletter_id = $1 ORDER BY created_at ASC',
+      [newsletterId],
+    );
+    return this.rowsToSubscriptions(rows);
+  }
+
+  /**
+   * Find paused subscriptions whose pause has ended, leaving out deactivated ones
+   */
+  async getDueToResume(now: Date): Promise<GuildSubscription[]> {
+    const rows = await this.client.query<GuildSubscriptionRow>(
+      `SELECT * FROM guild_subscriptions
+       WHERE active = TRUE AND paused = TRUE AND paused_until <= $1
+       ORDER BY paused_until ASC`,
+      [now],
+    );
+    return this.rowsToSubscriptions(rows);
+  }
+
+  /**
+   * Find active subscriptions by newsletter ID
+   */
+  async getActiveByNewsletterId(newsletterId: string): Promise<GuildSubscription[]> {
+    try {
+      const rows = await this.client.query<GuildSubscriptionRow>(
+        `SELECT * FROM guild_subscriptions
+         WHERE newsletter_id = $1 AND active = TRUE
+         ORDER BY created_at ASC`,
+        [newsletterId],
+      );
+      return this.rowsToSubscriptions(rows);
+    } catch (error) {
+      console.error(`Error getting active subscriptions for newsletter ${newsletterId}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Find the subscriptions to a newsletter in every channel of a guild
+   */
+  async getByGuildAndNewsletter(
+    guildId: string,
+    newsletterId: string,
+  ): Promise<GuildSubscription[]> {
+    if (!guildId || !newsletterId) {
+      throw new Error('Guild ID and Newsletter ID are required');
+    }
+
+    const rows = await this.client.query<GuildSubscriptionRow>(
+      `SELECT * FROM guild_subscriptions
+       WHERE guild_id = $1 AND newsletter_id = $2
+       ORDER BY created_at ASC`,
+      [guildId, newsletterId],
+    );
+    return this.rowsToSubscriptions(rows);
+  }
+
+  /**
+   * Find the subscription to a newsletter in a specific channel of a guild
+   */
+  async getByGuildChannelAndNewsletter(
+    guildId: string,
+    channelId: string,
+    newsletterId: string,
+  ): Promise<GuildSubscription | null> {
+    if (!guildId || !channelId || !newsletterId) {
+      throw new Error('Guild ID, Channel ID and Newsletter ID are required');
+    }
+
+    const rows = await this.client.query<GuildSubscriptionRow>(
+      `SELECT * FROM guild_subscriptions
+       WHERE guild_id = $1 AND channel_id = $2 AND newsletter_id = $3
+       LIMIT 1`,
+      [guildId, channelId, newsletterId],
+    );
+    return rows.length > 0 ? this.rowToSubscription(rows[0]) : null;
+  }
+
+  /**
+   * Save a subscription (create or update)
+   */
+  async save(subscription: GuildSubscription): Promise<void> {
+    await this.client.query(
+      `INSERT INTO guild_subscriptions (
+         id, guild_id, channel_id, newsletter_id, active, include_keywords, exclude_keywords,
+         create_thread, crosspost, mention, delivery_mode, digest_time, digest_day,
+         paused, paused_until, created_at, updated_at
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+       ON CONFLICT (id) DO UPDATE SET
+         guild_id = EXCLUDED.guild_id,
+         channel_id = EXCLUDED.channel_id,
+         newsletter_id = EXCLUDED.newsletter_id,
+         active = EXCLUDED.active,
+         include_keywords = EXCLUDED.include_keywords,
+         exclude_keywords = EXCLUDED.exclude_keywords,
+         create_thread = EXCLUDED.create_thread,
+         crosspost = EXCLUDED.crosspost,
+         mention = EXCLUDED.mention,
+         delivery_mode = EXCLUDED.delivery_mode,
+         digest_time = EXCLUDED.digest_time,
+         digest_day = EXCLUDED.digest_day,
+         paused = EXCLUDED.paused,
+         paused_until = EXCLUDED.paused_until,
+         updated_at = EXCLUDED.updated_at`,
+      [
+        subscription.id,
+        subscription.guildId,
+        subscription.channelId,
+        subscription.newsletterId,
+        subscription.active,
+        subscription.includeKeywords,
+        subscription.excludeKeywords,
+        subscription.createThread,
+        subscription.crosspost,
+        subscription.mention ?? null,
+        subscription.deliveryMode,
+        subscription.digestTime,
+        subscription.digestDay,
+        subscription.paused,
+        subscription.pausedUntil ?? null,
+        subscription.createdAt,
+        subscription.updatedAt,
+      ],
+    );
+  }
+
+  /**
+   * Delete a subscription
+   */
+  async delete(id: string): Promise<void> {
+    await this.client.query('DELETE FROM guild_subscriptions WHERE id = $1', [id]);
+  }
+
+  /**
+   * Delete all subscriptions for a guild
+   */
+  async deleteByGuildId(guildId: string): Promise<void> {
+    if (!guildId) {
+      throw new Error('Guild ID is required');
+    }
+
+    await this.client.query('DELETE FROM guild_subscriptions WHERE guild_id = $1', [guildId]);
+  }
+
+  /**
+   * Check if a subscription exists for a guild, channel and newsletter
+   */
+  async existsByGuildChannelAndNewsletter(
+    guildId: string,
+    channelId: string,
+    newsletterId: string,
+  ): Promise<boolean> {
+    const subscription = await this.getByGuildChannelAndNewsletter(
+      guildId,
+      channelId,
+      newsletterId,
+    );
+    return subscription !== null;
+  }
+
+  /**
+   * Convert rows to entities, skipping any that fail validation
+   */
+  private rowsToSubscriptions(rows: GuildSubscriptionRow[]): GuildSubscription[] {
+    const subscriptions: GuildSubscription[] = [];
+
+    for (const row of rows) {
+      try {
+        subscriptions.push(this.rowToSubscription(row));
+      } catch (error) {
+        console.error(`Error parsing subscription row ${row.id}:`, error);
+        // Continue with other rows
+      }
+    }
+
+    return subscriptions;
+  }
+
+  /**
+   * Convert a database row to a GuildSubscription entity
+   */
+  private rowToSubscription(row: GuildSubscriptionRow): GuildSubscription {
+    return GuildSubscription.create({
+      id: row.id,
+      guildId: row.guild_id,
+      channelId: row.channel_id,
+      newsletterId: row.newsletter_id,
+      active: row.active,
+      includeKeywords: row.include_keywords ?? [],
+      excludeKeywords: row.exclude_keywords ?? [],
+      createThread: row.create_thread ?? false,
+      crosspost: row.crosspost ?? false,
+      mention: row.mention || undefined,
+      deliveryMode: row.delivery_mode,
+      digestTime: row.digest_time,
+      digestDay: row.digest_day,
+      paused: row.paused ?? false,
+      pausedUntil: row.paused_until || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    });
+  }
+}
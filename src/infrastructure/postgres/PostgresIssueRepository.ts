@@ -0,0 +1,203 @@
+import { IIssueRepository } from '../../application/ports/IIssueRepository';
+import { Issue } from '../../domain/entities/Issue';
+import { PostgresClient } from './PostgresClient';
+
+interface IssueRow {
+  id: string;
+  newsletter_id: string;
+  title: string;
+  web_url: string;
+  received_at: Date;
+  content: string | null;
+  message_id: string | null;
+  processed: boolean;
+  summary: string | null;
+  image_url: string | null;
+  sender_name: string | null;
+  extractor: string | null;
+  extraction_confidence: number | null;
+}
+
+export class PostgresIssueRepository implements IIssueRepository {
+  constructor(private readonly client: PostgresClient) {}
+
+  /**
+   * Get all issues
+   */
+  async getAll(): Promise<Issue[]> {
+    const rows = await this.client.query<IssueRow>('SELECT * FROM issues ORDER BY received_at ASC');
+    return this.rowsToIssues(rows);
+  }
+
+  /**
+   * Find an issue by its ID
+   */
+  async getById(id: string): Promise<Issue | null> {
+    const rows = await this.client.query<IssueRow>('SELECT * FROM issues WHERE id = $1', [id]);
+    return rows.length > 0 ? this.rowToIssue(rows[0]) : null;
+  }
+
+  /**
+   * Find issues by newsletter ID
+   */
+  async getByNewsletterId(newsletterId: string): Promise<Issue[]> {
+    const rows = await this.client.query<IssueRow>(
+      'SELECT * FROM issues WHERE newsletter_id = $1 ORDER BY received_at ASC',
+      [newsletterId],
+    );
+    return this.rowsToIssues(rows);
+  }
+
+  /**
+   * Count issues received since a date, keyed by newsletter ID
+   */
+  async countByNewsletterSince(since: Date): Promise<Map<string, number>> {
+    const rows = await this.client.query<{ newsletter_id: string; count: string }>(
+      `SELECT newsletter_id, COUNT(*) AS count
+       FROM issues
+       WHERE received_at >= $1
+       GROUP BY newsletter_id`,
+      [since],
+    );
+    return new Map(rows.map((row) => [row.newsletter_id, parseInt(row.count, 10)]));
+  }
+
+  /**
+   * Find issues by message ID (email message ID)
+   */
+  async getByMessageId(messageId: string): Promise<Issue | null> {
+    const rows = await this.client.query<IssueRow>(
+      'SELECT * FROM issues WHERE message_id = $1 LIMIT 1',
+      [messageId],
+    );
+    return rows.length > 0 ? this.rowToIssue(rows[0]) : null;
+  }
+
+  /**
+   * Get unprocessed issues
+   */
+  async getUnprocessed(): Promise<Issue[]> {
+    const rows = await this.client.query<IssueRow>(
+      'SELECT * FROM issues WHERE processed = FALSE ORDER BY received_at ASC',
+    );
+    return this.rowsToIssues(rows);
+  }
+
+  /**
+   * Save an issue (create or update)
+   */
+  async save(issue: Issue): Promise<void> {
+    await this.client.query(
+      `INSERT INTO issues (
+         id, newsletter_id, title, web_url, received_at, content, message_id, processed,
+         summary, image_url, sender_name, extractor, extraction_confidence
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+       ON CONFLICT (id) DO UPDATE SET
+         newsletter_id = EXCLUDED.newsletter_id,
+         title = EXCLUDED.title,
+         web_url = EXCLUDED.web_url,
+         received_at = EXCLUDED.received_at,
+         content = EXCLUDED.content,
+         message_id = EXCLUDED.message_id,
+         processed = EXCLUDED.processed,
+         summary = EXCLUDED.summary,
+         image_url = EXCLUDED.image_url,
+         sender_name = EXCLUDED.sender_name,
+         extractor = EXCLUDED.extractor,
+         extraction_confidence = EXCLUDED.extraction_confidence,
+         updated_at = CURRENT_TIMESTAMP`,
+      [
+        issue.id,
+        issue.newsletterId,
+        issue.title,
+        issue.webUrl,
+        issue.receivedAt,
+        issue.content ?? null,
+        issue.messageId ?? null,
+        issue.processed,
+        issue.summary ?? null,
+        issue.imageUrl ?? null,
+        issue.senderName ?? null,
+        issue.extractor ?? null,
+        issue.extractionConfidence ?? null,
+      ],
+    );
+  }
+
+  /**
+   * Delete an issue
+   */
+  async delete(id: string): Promise<void> {
+    await this.client.query('DELETE FROM issues WHERE id = $1', [id]);
+  }
+
+  /**
+   * Mark an issue as processed
+   */
+  async markAsProcessed(id: string): Promise<void> {
+    const rows = await this.client.query<{ id: string }>(
+      `UPDATE issues SET processed = TRUE, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 RETURNING id`,
+      [id],
+    );
+
+    if (rows.length === 0) {
+      throw new Error(`Issue with ID ${id} not found`);
+    }
+  }
+
+  /**
+   * Check if an issue exists by message ID
+   */
+  async existsByMessageId(messageId: string): Promise<boolean> {
+    const issue = await this.getByMessageId(messageId);
+    return issue !== null;
+  }
+
+  /**
+   * Content is stored in a TEXT column, which has no practical limit
+   */
+  canStoreContent(): boolean {
+    return true;
+  }
+
+  /**
+   * Convert rows to entities, skipping any that fail validation
+   */
+  private rowsToIssues(rows: IssueRow[]): Issue[] {
+    const issues: Issue[] = [];
+
+    for (const row of rows) {
+      try {
+        issues.push(this.rowToIssue(row));
+      } catch (error) {
+        console.error(`Error parsing issue row ${row.id}:`, error);
+        // Continue with other rows
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Convert a database row to an Issue entity
+   */
+  private rowToIssue(row: IssueRow): Issue {
+    return Issue.create({
+      id: row.id,
+      newsletterId: row.newsletter_id,
+      title: row.title,
+      webUrl: row.web_url,
+      receivedAt: row.received_at,
+      content: row.content || undefined,
+      messageId: row.message_id || undefined,
+      processed: row.processed,
+      summary: row.summary || undefined,
+      imageUrl: row.image_url || undefined,
+      senderName: row.sender_name || undefined,
+      extractor: row.extractor || undefined,
+      extractionConfidence: row.extraction_confidence ?? undefined,
+    });
+  }
+}
@@ -0,0 +1,147 @@
+import { ILinkClickRepository } from '../../application/ports/ILinkClickRepository';
+import { LinkClick } from '../../domain/entities/LinkClick';
+import { PostgresClient } from './PostgresClient';
+
+interface LinkClickRow {
+  id: string;
+  tracked_link_id: string;
+  clicked_at: Date;
+  user_agent: string | null;
+  ip_hash: string | null;
+  guild_id: string | null;
+}
+
+export class PostgresLinkClickRepository implements ILinkClickRepository {
+  constructor(private readonly client: PostgresClient) {}
+
+  /**
+   * Get all link clicks
+   */
+  async getAll(): Promise<LinkClick[]> {
+    const rows = await this.client.query<LinkClickRow>(
+      'SELECT * FROM link_clicks ORDER BY clicked_at ASC',
+    );
+    return rows.map((row) => this.rowToLinkClick(row));
+  }
+
+  /**
+   * Find a link click by its ID
+   */
+  async getById(id: string): Promise<LinkClick | null> {
+    const rows = await this.client.query<LinkClickRow>('SELECT * FROM link_clicks WHERE id = $1', [
+      id,
+    ]);
+    return rows.length > 0 ? this.rowToLinkClick(rows[0]) : null;
+  }
+
+  /**
+   * Find link clicks by tracked link ID
+   */
+  async getByTrackedLinkId(trackedLinkId: string): Promise<LinkClick[]> {
+    const rows = await this.client.query<LinkClickRow>(
+      'SELECT * FROM link_clicks WHERE tracked_link_id = $1 ORDER BY clicked_at ASC',
+      [trackedLinkId],
+    );
+    return rows.map((row) => this.rowToLinkClick(row));
+  }
+
+  /**
+   * Find link clicks by tracked link IDs
+   */
+  async getByTrackedLinkIds(trackedLinkIds: string[]): Promise<LinkClick[]> {
+    if (trackedLinkIds.length === 0) {
+      return [];
+    }
+
+    const rows = await this.client.query<LinkClickRow>(
+      'SELECT * FROM link_clicks WHERE tracked_link_id = ANY($1) ORDER BY clicked_at ASC',
+      [trackedLinkIds],
+    );
+    return rows.map((row) => this.rowToLinkClick(row));
+  }
+
+  /**
+   * Count clicks for a specific newsletter within a date range, optionally limited to one guild
+   */
+  async countByNewsletterIdAndDateRange(
+    newsletterId: string,
+    startDate: Date,
+    endDate: Date,
+    guildId?: string,
+  ): Promise<number> {
+    const rows = await this.client.query<{ count: string }>(
+      `SELECT COUNT(*) AS count
+       FROM link_clicks lc
+       JOIN tracked_links tl ON tl.id = lc.tracked_link_id
+       WHERE tl.newsletter_id = $1 AND lc.clicked_at >= $2 AND lc.clicked_at < $3
+         AND ($4::VARCHAR IS NULL OR lc.guild_id = $4)`,
+      [newsletterId, startDate, endDate, guildId ?? null],
+    );
+
+    // COUNT(*) is a bigint, which pg returns as a string
+    return rows.length > 0 ? parseInt(rows[0].count, 10) : 0;
+  }
+
+  /**
+   * Count clicks per issue within a date range, most clicked first
+   */
+  async countByIssueAndDateRange(
+    startDate: Date,
+    endDate: Date,
+    options: { guildId?: string; limit?: number } = {},
+  ): Promise<Array<{ issueId: string; clicks: number }>> {
+    const rows = await this.client.query<{ issue_id: string; clicks: string }>(
+      `SELECT tl.issue_id, COUNT(*) AS clicks
+       FROM link_clicks lc
+       JOIN tracked_links tl ON tl.id = lc.tracked_link_id
+       WHERE lc.clicked_at >= $1 AND lc.clicked_at < $2
+         AND ($3::VARCHAR IS NULL OR lc.guild_id = $3)
+       GROUP BY tl.issue_id
+       ORDER BY clicks DESC
+       LIMIT $4`,
+      [startDate, endDate, options.guildId ?? null, options.limit ?? 10],
+    );
+
+    return rows.map((row) => ({ issueId: row.issue_id, clicks: parseInt(row.clicks, 10) }));
+  }
+
+  /**
+   * Save a link click
+   */
+  async save(linkClick: LinkClick): Promise<void> {
+    await this.client.query(
+      `INSERT INTO link_clicks (id, tracked_link_id, clicked_at, user_agent, ip_hash, guild_id)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (id) DO NOTHING`,
+      [
+        linkClick.id,
+        linkClick.trackedLinkId,
+        linkClick.clickedAt,
+        linkClick.userAgent ?? null,
+        linkClick.ipHash ?? null,
+        linkClick.guildId ?? null,
+      ],
+    );
+  }
+
+  /**
+   * Delete a link click
+   */
+  async delete(id: string): Promise<void> {
+    await this.client.query('DELETE FROM link_clicks WHERE id = $1', [id]);
+  }
+
+  /**
+   * Convert a database row to a LinkClick entity
+   */
+  private rowToLinkClick(row: LinkClickRow): LinkClick {
+    return LinkClick.create({
+      id: row.id,
+      trackedLinkId: row.tracked_link_id,
+      clickedAt: row.clicked_at,
+      userAgent: row.user_agent || undefined,
+      ipHash: row.ip_hash || undefined,
+      guildId: row.guild_id || undefined,
+    });
+  }
+}
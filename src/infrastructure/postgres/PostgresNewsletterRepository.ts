@@ -0,0 +1,168 @@
+import { INewsletterRepository } from '../../application/ports/INewsletterRepository';
+import { Newsletter } from '../../domain/entities/Newsletter';
+import { PostgresClient } from './PostgresClient';
+
+interface NewsletterRow {
+  id: string;
+  name: string;
+  url: string;
+  sender_email: string;
+  extraction_pattern: string | null;
+  color: number | null;
+  use_archive_link: boolean | null;
+  description: string | null;
+  category: string | null;
+  icon_url: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export class PostgresNewsletterRepository implements INewsletterRepository {
+  constructor(private readonly client: PostgresClient) {}
+
+  /**
+   * Get all newsletters
+   */
+  async getAll(): Promise<Newsletter[]> {
+    const rows = await this.client.query<NewsletterRow>(
+      'SELECT * FROM newsletters ORDER BY name ASC',
+    );
+    return this.rowsToNewsletters(rows);
+  }
+
+  /**
+   * Find a newsletter by its ID
+   */
+  async getById(id: string): Promise<Newsletter | null> {
+    const rows = await this.client.query<NewsletterRow>('SELECT * FROM newsletters WHERE id = $1', [
+      id,
+    ]);
+    return rows.length > 0 ? this.rowToNewsletter(rows[0]) : null;
+  }
+
+  /**
+   * Find a newsletter by sender email (exact match)
+   */
+  async getBySenderEmail(email: string): Promise<Newsletter | null> {
+    if (!email) {
+      throw new Error('Email is required');
+    }
+
+    const rows = await this.client.query<NewsletterRow>(
+      'SELECT * FROM newsletters WHERE LOWER(sender_email) = $1',
+      [email.toLowerCase().trim()],
+    );
+    return rows.length > 0 ? this.rowToNewsletter(rows[0]) : null;
+  }
+
+  /**
+   * Save a newsletter (create or update)
+   */
+  async save(newsletter: Newsletter): Promise<void> {
+    await this.client.query(
+      `INSERT INTO newsletters (
+         id, name, url, sender_email, extraction_pattern, color, use_archive_link,
+         description, category, icon_url, created_at, updated_at
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       ON CONFLICT (id) DO UPDATE SET
+         name = EXCLUDED.name,
+         url = EXCLUDED.url,
+         sender_email = EXCLUDED.sender_email,
+         extraction_pattern = EXCLUDED.extraction_pattern,
+         color = EXCLUDED.color,
+         use_archive_link = EXCLUDED.use_archive_link,
+         description = EXCLUDED.description,
+         category = EXCLUDED.category,
+         icon_url = EXCLUDED.icon_url,
+         updated_at = EXCLUDED.updated_at`,
+      [
+        newsletter.id,
+        newsletter.name,
+        newsletter.url,
+        newsletter.senderEmail,
+        newsletter.extractionPattern ?? null,
+        newsletter.color ?? null,
+        newsletter.useArchiveLink,
+        newsletter.description ?? null,
+        newsletter.category ?? null,
+        newsletter.iconUrl ?? null,
+        newsletter.createdAt,
+        newsletter.updatedAt,
+      ],
+    );
+  }
+
+  /**
+   * Delete a newsletter by ID
+   */
+  async delete(id: string): Promise<void> {
+    // Issues, links, clicks and deliveries reference the newsletter, so they go in the same
+    // statement; foreign keys are only checked once it completes
+    await this.client.query(
+      `WITH removed_issues AS (
+         DELETE FROM issues WHERE newsletter_id = $1 RETURNING id
+       ),
+       removed_links AS (
+         DELETE FROM tracked_links WHERE newsletter_id = $1 RETURNING id
+       ),
+       removed_clicks AS (
+         DELETE FROM link_clicks WHERE tracked_link_id IN (SELECT id FROM removed_links)
+       ),
+       removed_deliveries AS (
+         DELETE FROM deliveries WHERE issue_id IN (SELECT id FROM removed_issues)
+       ),
+       removed_subscriptions AS (
+         DELETE FROM guild_subscriptions WHERE newsletter_id = $1
+       )
+       DELETE FROM newsletters WHERE id = $1`,
+      [id],
+    );
+  }
+
+  /**
+   * Check if a newsletter exists by sender email
+   */
+  async existsBySenderEmail(email: string): Promise<boolean> {
+    const newsletter = await this.getBySenderEmail(email);
+    return newsletter !== null;
+  }
+
+  /**
+   * Convert rows to entities, skipping any that fail validation
+   */
+  private rowsToNewsletters(rows: NewsletterRow[]): Newsletter[] {
+    const newsletters: Newsletter[] = [];
+
+    for (const row of rows) {
+      try {
+        newsletters.push(this.rowToNewsletter(row));
+      } catch (error) {
+        console.error(`Error parsing newsletter row ${row.id}:`, error);
+        // Continue with other rows
+      }
+    }
+
+    return newsletters;
+  }
+
+  /**
+   * Convert a database row to a Newsletter entity
+   */
+  private rowToNewsletter(row: NewsletterRow): Newsletter {
+    return Newsletter.create({
+      id: row.id,
+      name: row.name,
+      url: row.url,
+      senderEmail: row.sender_email,
+      extractionPattern: row.extraction_pattern || undefined,
+      color: row.color ?? undefined,
+      useArchiveLink: row.use_archive_link ?? false,
+      description: row.description || undefined,
+      category: row.category || undefined,
+      iconUrl: row.icon_url || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    });
+  }
+}
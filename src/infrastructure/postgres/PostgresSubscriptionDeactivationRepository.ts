@@ -0,0 +1,75 @@
+import { ISubscriptionDeactivationRepository } from '../../application/ports/ISubscriptionDeactivationRepository';
+import {
+  DeactivationReason,
+  SubscriptionDeactivation,
+} from '../../domain/entities/SubscriptionDeactivation';
+import { PostgresClient } from './PostgresClient';
+
+interface SubscriptionDeactivationRow {
+  id: string;
+  subscription_id: string;
+  guild_id: string;
+  channel_id: string;
+  newsletter_id: string;
+  reason: DeactivationReason;
+  detail: string | null;
+  deactivated_at: Date;
+  restored_at: Date | null;
+}
+
+export class PostgresSubscriptionDeactivationRepository implements ISubscriptionDeactivationRepository {
+  constructor(private readonly client: PostgresClient) {}
+
+  /**
+   * Find the deactivations recorded for a guild, oldest first
+   */
+  async getByGuildId(guildId: string): Promise<SubscriptionDeactivation[]> {
+    const rows = await this.client.query<SubscriptionDeactivationRow>(
+      'SELECT * FROM subscription_deactivations WHERE guild_id = $1 ORDER BY deactivated_at',
+      [guildId],
+    );
+    return rows.map((row) => this.rowToDeactivation(row));
+  }
+
+  /**
+   * Save a deactivation record (create or update)
+   */
+  async save(deactivation: SubscriptionDeactivation): Promise<void> {
+    await this.client.query(
+      `INSERT INTO subscription_deactivations
+         (id, subscription_id, guild_id, channel_id, newsletter_id, reason, detail, deactivated_at, restored_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       ON CONFLICT (id) DO UPDATE SET
+         detail = EXCLUDED.detail,
+         restored_at = EXCLUDED.restored_at`,
+      [
+        deactivation.id,
+        deactivation.subscriptionId,
+        deactivation.guildId,
+        deactivation.channelId,
+        deactivation.newsletterId,
+        deactivation.reason,
+        deactivation.detail ?? null,
+        deactivation.deactivatedAt,
+        deactivation.restoredAt ?? null,
+      ],
+    );
+  }
+
+  /**
+   * Convert a database row to a SubscriptionDeactivation entity
+   */
+  private rowToDeactivation(row: SubscriptionDeactivationRow): SubscriptionDeactivation {
+    return SubscriptionDeactivation.create({
+      id: row.id,
+      subscriptionId: row.subscription_id,
+      guildId: row.guild_id,
+      channelId: row.channel_id,
+      newsletterId: row.newsletter_id,
+      reason: row.reason,
+      detail: row.detail || undefined,
+      deactivatedAt: row.deactivated_at,
+      restoredAt: row.restored_at || undefined,
+    });
+  }
+}
@@ -0,0 +1,166 @@
+import { ITrackedLinkRepository } from '../../application/ports/ITrackedLinkRepository';
+import { TrackedLink } from '../../domain/entities/TrackedLink';
+import { PostgresClient } from './PostgresClient';
+
+interface TrackedLinkRow {
+  id: string;
+  original_url: string;
+  tracking_id: string;
+  issue_id: string;
+  newsletter_id: string;
+  guild_id: string | null;
+  created_at: Date;
+}
+
+export class PostgresTrackedLinkRepository implements ITrackedLinkRepository {
+  constructor(private readonly client: PostgresClient) {}
+
+  /**
+   * Get all tracked links
+   */
+  async getAll(): Promise<TrackedLink[]> {
+    const rows = await this.client.query<TrackedLinkRow>(
+      'SELECT * FROM tracked_links ORDER BY created_at ASC',
+    );
+    return this.rowsToTrackedLinks(rows);
+  }
+
+  /**
+   * Find a tracked link by its ID
+   */
+  async getById(id: string): Promise<TrackedLink | null> {
+    const rows = await this.client.query<TrackedLinkRow>(
+      'SELECT * FROM tracked_links WHERE id = $1',
+      [id],
+    );
+    return rows.length > 0 ? this.rowToTrackedLink(rows[0]) : null;
+  }
+
+  /**
+   * Find a tracked link by its tracking ID
+   */
+  async getByTrackingId(trackingId: string): Promise<TrackedLink | null> {
+    const rows = await this.client.query<TrackedLinkRow>(
+      'SELECT * FROM tracked_links WHERE tracking_id = $1',
+      [trackingId],
+    );
+    return rows.length > 0 ? this.rowToTrackedLink(rows[0]) : null;
+  }
+
+  /**
+   * Find tracked links by issue ID
+   */
+  async getByIssueId(issueId: string): Promise<TrackedLink[]> {
+    const rows = await this.client.query<TrackedLinkRow>(
+      'SELECT * FROM tracked_links WHERE issue_id = $1 ORDER BY created_at ASC',
+      [issueId],
+    );
+    return this.rowsToTrackedLinks(rows);
+  }
+
+  /**
+   * Find tracked links by newsletter ID
+   */
+  async getByNewsletterId(newsletterId: string): Promise<TrackedLink[]> {
+    const rows = await this.client.query<TrackedLinkRow>(
+      'SELECT * FROM tracked_links WHERE newsletter_id = $1 ORDER BY created_at ASC',
+      [newsletterId],
+    );
+    return this.rowsToTrackedLinks(rows);
+  }
+
+  /**
+   * Save a tracked link (create or update)
+   */
+  async save(trackedLink: TrackedLink): Promise<void> {
+    await this.client.query(
+      `INSERT INTO tracked_links (id, original_url, tracking_id, issue_id, newsletter_id, guild_id, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (id) DO UPDATE SET
+         original_url = EXCLUDED.original_url,
+         tracking_id = EXCLUDED.tracking_id,
+         issue_id = EXCLUDED.issue_id,
+         newsletter_id = EXCLUDED.newsletter_id,
+         guild_id = EXCLUDED.guild_id`,
+      [
+        trackedLink.id,
+        trackedLink.originalUrl,
+        trackedLink.trackingId,
+        trackedLink.issueId,
+        trackedLink.newsletterId,
+        trackedLink.guildId ?? null,
+        trackedLink.createdAt,
+      ],
+    );
+  }
+
+  /**
+   * Delete a tracked link
+   */
+  async delete(id: string): Promise<void> {
+    await this.client.query('DELETE FROM tracked_links WHERE id = $1', [id]);
+  }
+
+  /**
+   * Find a tracked link by original URL and issue ID, optionally scoped to a guild
+   */
+  async getByUrlAndIssue(
+    originalUrl: string,
+    issueId: string,
+    guildId?: string,
+  ): Promise<TrackedLink | null> {
+    const rows = await this.client.query<TrackedLinkRow>(
+      `SELECT * FROM tracked_links
+       WHERE original_url = $1 AND issue_id = $2 AND guild_id IS NOT DISTINCT FROM $3
+       ORDER BY created_at ASC
+       LIMIT 1`,
+      [originalUrl, issueId, guildId ?? null],
+    );
+    return rows.length > 0 ? this.rowToTrackedLink(rows[0]) : null;
+  }
+
+  /**
+   * Check if a tracked link exists by original URL and issue ID, optionally scoped to a guild
+   */
+  async existsByUrlAndIssue(
+    originalUrl: string,
+    issueId: string,
+    guildId?: string,
+  ): Promise<boolean> {
+    const trackedLink = await this.getByUrlAndIssue(originalUrl, issueId, guildId);
+    return trackedLink !== null;
+  }
+
+  /**
+   * Convert rows to entities, skipping any that fail validation
+   */
+  private rowsToTrackedLinks(rows: TrackedLinkRow[]): TrackedLink[] {
+    const trackedLinks: TrackedLink[] = [];
+
+    for (const row of rows) {
+      try {
+        trackedLinks.push(this.rowToTrackedLink(row));
+      } catch (error) {
+        console.error(`Error parsing tracked link row ${row.id}:`, error);
+        // Continue with other rows
+      }
+    }
+
+    return trackedLinks;
+  }
+
+  /**
+   * Convert a database row to a TrackedLink entity
+   */
+  private rowToTrackedLink(row: TrackedLinkRow): TrackedLink {
+    return TrackedLink.create({
+      id: row.id,
+      originalUrl: row.original_url,
+      trackingId: row.tracking_id,
+      issueId: row.issue_id,
+      newsletterId: row.newsletter_id,
+      guildId: row.guild_id || undefined,
+      createdAt: row.created_at,
+    });
+  }
+}
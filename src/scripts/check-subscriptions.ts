@@ -3,45 +3,92 @@ import { RepositoryFactory } from '../infrastructure/factories/repositoryFactory
 
 dotenv.config();
 
+const PROBLEM_DESCRIPTIONS = {
+  orphaned_newsletter: 'Newsletter no longer exists',
+  missing_channel: 'Channel no longer exists',
+  missing_permissions: 'Bot is missing permissions',
+  check_failed: 'Could not be checked',
+};
+
+/**
+ * Check every active subscription against Discord, like /doctor does for one server.
+ *
+ * Usage:
+ *   npm run doctor                       Report problems in every server
+ *   npm run doctor -- --guild <id>       Only check one server
+ *   npm run doctor -- --fix <id>         Grant the bot missing permissions for a subscription
+ *   npm run doctor -- --remove <id>      Remove a subscription
+ */
 async function checkSubscriptions() {
   try {
-    console.log('Checking newsletter subscriptions...');
+    const args = process.argv.slice(2);
+    const optionValue = (name: string) => {
+      const index = args.indexOf(name);
+      return index === -1 ? undefined : (args[index + 1] ?? '');
+    };
+    const guildId = optionValue('--guild');
+    const fixId = optionValue('--fix');
+    const removeId = optionValue('--remove');
 
-    // Get all newsletters
-    const newsletterRepo = await RepositoryFactory.getNewsletterRepository();
-    const newsletters = await newsletterRepo.getAll();
-    console.log(`Found ${newsletters.length} newsletters in total`);
+    if (guildId === '' || fixId === '' || removeId === '') {
+      console.error('Usage: npm run doctor -- [--guild <id>] [--fix <id>] [--remove <id>]');
+      return false;
+    }
 
-    // Check subscriptions for each newsletter
-    const subRepo = await RepositoryFactory.getGuildSubscriptionRepository();
+    const useCase = await RepositoryFactory.getCheckSubscriptionHealthUseCase();
+
+    if (fixId) {
+      const fixed = await useCase.fix(fixId, guildId);
+      console.log(fixed ? `Fixed subscription ${fixId}` : `Subscription ${fixId} has no problems`);
+      return true;
+    }
+
+    if (removeId) {
+      const removed = await useCase.remove(removeId, guildId);
+      console.log(removed ? `Removed subscription ${removeId}` : `No subscription ${removeId}`);
+      return removed;
+    }
+
+    console.log('Checking newsletter subscriptions...');
+    const problems = await useCase.execute(guildId);
 
-    for (const newsletter of newsletters) {
-      const subs = await subRepo.getActiveByNewsletterId(newsletter.id);
+    console.log('================== SUBSCRIPTION HEALTH ==================');
+    console.log(`Problems found: ${problems.length}`);
+
+    problems.forEach((problem, index) => {
+      const { subscription } = problem;
+      console.log(`\n  ${index + 1}. Subscription ${subscription.id}`);
       console.log(
-        `Newsletter "${newsletter.name}" (${newsletter.id}): ${subs.length} active subscriptions`,
+        `     Newsletter: ${problem.newsletterName ?? 'unknown'} (${subscription.newsletterId})`,
       );
-
-      if (subs.length > 0) {
-        // Check if the Discord channels still exist
-        const discordClient = await RepositoryFactory.getDiscordClient();
-        for (const sub of subs) {
-          try {
-            console.log(`  → Guild: ${sub.guildId}, Channel: ${sub.channelId}`);
-            const exists = await discordClient.channelExists(sub.guildId, sub.channelId);
-            console.log(`  → Channel exists: ${exists}`);
-          } catch (error: unknown) {
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-            console.error(`  → Error checking channel: ${errorMessage}`);
-          }
-        }
+      console.log(`     Guild: ${subscription.guildId} / Channel: ${subscription.channelId}`);
+      console.log(
+        `     Problem: ${PROBLEM_DESCRIPTIONS[problem.kind]}${
+          problem.missingPermissions.length > 0 ? ` (${problem.missingPermissions.join(', ')})` : ''
+        }${problem.error ? ` (${problem.error})` : ''}`,
+      );
+      if (problem.removable) {
+        console.log(
+          `     Repair: ${problem.fixable ? `--fix ${subscription.id} or ` : ''}--remove ${subscription.id}`,
+        );
       }
-    }
+    });
+
+    console.log('\n=========================================================');
 
-    process.exit(0);
+    return true;
   } catch (error) {
     console.error('Error checking subscriptions:', error);
-    process.exit(1);
+    return false;
   }
 }
 
-checkSubscriptions();
+// Run the script
+checkSubscriptions()
+  .then((success) => {
+    process.exit(success ? 0 : 1);
+  })
+  .catch((error) => {
+    console.error('Fatal error while checking subscriptions:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,74 @@
+import { RepositoryFactory } from '../infrastructure/factories/repositoryFactory';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * List deliveries that ran out of retries.
+ *
+ * Usage:
+ *   npm run dead-letters                 List dead deliveries
+ *   npm run dead-letters -- --retry <id> Requeue one delivery
+ *   npm run dead-letters -- --retry-all  Requeue every dead delivery
+ */
+async function deadLetters() {
+  try {
+    const args = process.argv.slice(2);
+    const retryIndex = args.indexOf('--retry');
+    const retryAll = args.includes('--retry-all');
+
+    const dispatchUseCase = await RepositoryFactory.getDispatchIssueUseCase();
+    const deadLetters = await dispatchUseCase.getDeadLetters();
+
+    if (retryIndex !== -1) {
+      const deliveryId = args[retryIndex + 1];
+      if (!deliveryId) {
+        console.error('Usage: npm run dead-letters -- --retry <delivery id>');
+        return false;
+      }
+
+      await dispatchUseCase.requeueDeadLetter(deliveryId);
+      console.log(`Requeued delivery ${deliveryId}`);
+      return true;
+    }
+
+    if (retryAll) {
+      for (const delivery of deadLetters) {
+        await dispatchUseCase.requeueDeadLetter(delivery.id);
+      }
+      console.log(`Requeued ${deadLetters.length} deliveries`);
+      return true;
+    }
+
+    console.log('===================== DEAD LETTERS =====================');
+    console.log(`Total dead deliveries: ${deadLetters.length}`);
+
+    deadLetters.forEach((delivery, index) => {
+      console.log(`\n  ${index + 1}. Delivery ${delivery.id}`);
+      console.log(`     Issue: ${delivery.issueId}`);
+      console.log(`     Guild: ${delivery.guildId} / Channel: ${delivery.channelId}`);
+      console.log(
+        `     Attempts: ${delivery.attempts}, last at ${delivery.updatedAt.toISOString()}`,
+      );
+      console.log(`     Error: ${delivery.lastError || 'Unknown error'}`);
+    });
+
+    console.log('\n=========================================================');
+
+    return true;
+  } catch (error) {
+    console.error('Error handling dead letters:', error);
+    return false;
+  }
+}
+
+// Run the script
+deadLetters()
+  .then((success) => {
+    process.exit(success ? 0 : 1);
+  })
+  .catch((error) => {
+    console.error('Fatal error while handling dead letters:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,56 @@
+import path from 'path';
+import { DEFAULT_FIXTURES_DIR, runEmlFixtures } from '../infrastructure/mail/emlFixtures';
+
+/**
+ * Run web URL extraction over a folder of .eml files without an IMAP inbox.
+ *
+ * Usage:
+ *   npm run test-fixtures                 Use fixtures/emails
+ *   npm run test-fixtures -- <folder>     Use another folder of .eml files
+ */
+async function testEmlFixtures() {
+  const dir = process.argv[2] ? path.resolve(process.argv[2]) : DEFAULT_FIXTURES_DIR;
+  console.log(`Reading .eml fixtures from ${dir}`);
+
+  const results = await runEmlFixtures(dir);
+  let mismatches = 0;
+
+  console.log('===================== EXTRACTION RESULTS =====================');
+
+  for (const { file, email, extraction, expected } of results) {
+    const matchesExpected =
+      expected && extraction?.url === expected.url && extraction?.extractor === expected.extractor;
+    const status = !expected ? '➖' : matchesExpected ? '✅' : '❌';
+
+    console.log(`\n${status} ${file}`);
+    console.log(`   Subject: ${email.subject}`);
+    console.log(`   From: ${email.from}`);
+
+    if (extraction) {
+      console.log(`   Extractor: ${extraction.extractor} (confidence ${extraction.confidence})`);
+      console.log(`   URL: ${extraction.url}`);
+    } else {
+      console.log('   No URL found');
+    }
+
+    if (expected && !matchesExpected) {
+      mismatches++;
+      console.log(`   Expected: ${expected.extractor} ${expected.url}`);
+    }
+  }
+
+  console.log('\n=================================================================');
+  console.log(`${results.length} fixtures, ${mismatches} not matching expected.json`);
+
+  return mismatches === 0;
+}
+
+// Run the script
+testEmlFixtures()
+  .then((success) => {
+    process.exit(success ? 0 : 1);
+  })
+  .catch((error) => {
+    console.error('Fatal error while running fixtures:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,69 @@
+import { DigestSchedule, getNextDigestAt } from './digestSchedule';
+
+const daily: DigestSchedule = { deliveryMode: 'daily', digestTime: '09:00', digestDay: 1 };
+const weekly: DigestSchedule = { deliveryMode: 'weekly', digestTime: '18:30', digestDay: 5 };
+
+function nextAt(schedule: DigestSchedule, timezone: string, after: string): string {
+  return getNextDigestAt(schedule, timezone, new Date(after)).toISOString();
+}
+
+describe('getNextDigestAt', () => {
+  it('sends immediate subscriptions right away', () => {
+    const after = new Date('2026-05-04T12:34:56Z');
+
+    expect(getNextDigestAt({ ...daily, deliveryMode: 'immediate' }, 'UTC', after)).toEqual(after);
+  });
+
+  it('sends daily digests later today, or tomorrow once the time has passed', () => {
+    expect(nextAt(daily, 'UTC', '2026-05-04T08:59:00Z')).toBe('2026-05-04T09:00:00.000Z');
+    expect(nextAt(daily, 'UTC', '2026-05-04T09:00:00Z')).toBe('2026-05-05T09:00:00.000Z');
+  });
+
+  it('sends weekly digests on the chosen weekday', () => {
+    // Monday 4 May 2026; the digest goes out on Friday
+    expect(nextAt(weekly, 'UTC', '2026-05-04T10:00:00Z')).toBe('2026-05-08T18:30:00.000Z');
+    // Friday after the send time: next Friday
+    expect(nextAt(weekly, 'UTC', '2026-05-08T19:00:00Z')).toBe('2026-05-15T18:30:00.000Z');
+    // Sunday digests (ISO weekday 7) from a Saturday
+    expect(nextAt({ ...weekly, digestDay: 7 }, 'UTC', '2026-05-09T10:00:00Z')).toBe(
+      '2026-05-10T18:30:00.000Z',
+    );
+  });
+});
+
+describe('getNextDigestAt in a guild timezone', () => {
+  it('reads the send time in the timezone', () => {
+    expect(nextAt(daily, 'Europe/Berlin', '2026-01-15T06:00:00Z')).toBe('2026-01-15T08:00:00.000Z');
+    expect(nextAt(daily, 'America/New_York', '2026-01-15T06:00:00Z')).toBe(
+      '2026-01-15T14:00:00.000Z',
+    );
+  });
+
+  it('picks the local day, not the UTC day', () => {
+    // 23:30 on Thursday in New York is already Friday in UTC
+    expect(nextAt(weekly, 'America/New_York', '2026-05-08T03:30:00Z')).toBe(
+      '2026-05-08T22:30:00.000Z',
+    );
+    // 01:00 on Tuesday in Tokyo is still Monday in UTC
+    expect(nextAt(daily, 'Asia/Tokyo', '2026-05-04T16:00:00Z')).toBe('2026-05-05T00:00:00.000Z');
+  });
+
+  it('keeps the local send time across daylight saving changes', () => {
+    // Berlin moves to summer time on 29 March 2026
+    expect(nextAt(daily, 'Europe/Berlin', '2026-03-28T09:00:00Z')).toBe('2026-03-29T07:00:00.000Z');
+    // New York falls back on 1 November 2026
+    expect(nextAt(daily, 'America/New_York', '2026-10-31T14:00:00Z')).toBe(
+      '2026-11-01T14:00:00.000Z',
+    );
+    // A weekly digest scheduled across the change keeps its local time too
+    expect(nextAt(weekly, 'Europe/Berlin', '2026-10-23T17:00:00Z')).toBe(
+      '2026-10-30T17:30:00.000Z',
+    );
+  });
+
+  it('moves a send time that falls in the skipped hour to just after it', () => {
+    expect(nextAt({ ...daily, digestTime: '02:30' }, 'Europe/Berlin', '2026-03-28T12:00:00Z')).toBe(
+      '2026-03-29T01:30:00.000Z',
+    );
+  });
+});
@@ -0,0 +1,38 @@
+import { DateTime } from 'luxon';
+import { DeliveryMode } from '../../domain/entities/GuildSubscription';
+
+export interface DigestSchedule {
+  deliveryMode: DeliveryMode;
+  /** Local send time as `HH:MM` */
+  digestTime: string;
+  /** ISO weekday for weekly digests, 1 = Monday to 7 = Sunday */
+  digestDay: number;
+}
+
+/**
+ * Get the next time a digest goes out after the given moment, in the given IANA timezone.
+ * Immediate subscriptions are due right away.
+ */
+export function getNextDigestAt(
+  schedule: DigestSchedule,
+  timezone: string,
+  after: Date = new Date(),
+): Date {
+  if (schedule.deliveryMode === 'immediate') {
+    return after;
+  }
+
+  const [hour, minute] = schedule.digestTime.split(':').map((part) => parseInt(part, 10));
+  const now = DateTime.fromJSDate(after, { zone: timezone });
+  let next = now.set({ hour, minute, second: 0, millisecond: 0 });
+
+  if (schedule.deliveryMode === 'weekly') {
+    next = next.plus({ days: (schedule.digestDay - now.weekday + 7) % 7 });
+  }
+
+  if (next <= now) {
+    next = next.plus(schedule.deliveryMode === 'weekly' ? { weeks: 1 } : { days: 1 });
+  }
+
+  return next.toJSDate();
+}
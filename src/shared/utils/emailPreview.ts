@@ -0,0 +1,196 @@
+/**
+ * Helpers for building a Discord preview (summary, hero image, sender) from a newsletter email
+ */
+
+export interface EmailPreview {
+  summary?: string;
+  imageUrl?: string;
+  senderName?: string;
+}
+
+// Discord allows 4096 characters in an embed description, but a short teaser reads better
+const DEFAULT_SUMMARY_LENGTH = 300;
+
+// Images smaller than this in either dimension are treated as icons, spacers or tracking pixels
+const MIN_IMAGE_SIZE = 100;
+
+// Lines that are email chrome rather than content
+const BOILERPLATE_PATTERNS = [
+  /view\s+(?:this\s+(?:email|newsletter)\s+)?(?:in|on)\s+(?:your\s+|a\s+)?(?:web\s+)?browser/i,
+  /read\s+online/i,
+  /(?:web|online)\s+version/i,
+  /unsubscribe/i,
+  /manage\s+(?:your\s+)?(?:preferences|subscription)/i,
+  /forwarded\s+this\s+email/i,
+  /(?:email|newsletter)\s+(?:not|doesn't)\s+display/i,
+];
+
+// Image URLs or alt texts that point at branding rather than a hero image
+const NON_HERO_IMAGE_KEYWORDS = [
+  'spacer',
+  'pixel',
+  'tracking',
+  'beacon',
+  'logo',
+  'icon',
+  'avatar',
+  'badge',
+  'facebook',
+  'twitter',
+  'linkedin',
+  'instagram',
+  'youtube',
+  'tiktok',
+  'social',
+];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  zwnj: '',
+  zwj: '',
+  shy: '',
+  mdash: '—',
+  ndash: '–',
+  hellip: '…',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+  bull: '•',
+  middot: '·',
+  copy: '©',
+};
+
+/**
+ * Build the preview for an email, leaving out anything that can't be found
+ */
+export function extractEmailPreview(email: {
+  from: string;
+  body: string;
+  html?: string;
+}): EmailPreview {
+  return {
+    summary: extractSummary(email.html, email.body),
+    imageUrl: email.html ? extractHeroImage(email.html) : undefined,
+    senderName: extractSenderName(email.from),
+  };
+}
+
+/**
+ * Get the display name from a From header, e.g. `"Morning Brew" <crew@morningbrew.com>`
+ */
+export function extractSenderName(from: string): string | undefined {
+  const match = /^\s*"?([^"<]*?)"?\s*<[^>]+>\s*$/.exec(from);
+  const name = match ? match[1].trim() : '';
+
+  return name.length > 0 ? name : undefined;
+}
+
+/**
+ * Get a plain-text teaser from the email, preferring the HTML part
+ */
+export function extractSummary(
+  html: string | undefined,
+  text: string,
+  maxLength: number = DEFAULT_SUMMARY_LENGTH,
+): string | undefined {
+  const plainText = html ? htmlToText(html) : text;
+
+  const lines = plainText
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter((line) => line.length > 0)
+    .filter((line) => !/^https?:\/\/\S+$/.test(line))
+    .filter((line) => !BOILERPLATE_PATTERNS.some((pattern) => pattern.test(line)));
+
+  const summary = lines.join(' ').trim();
+  if (summary.length === 0) {
+    return undefined;
+  }
+
+  return truncate(summary, maxLength);
+}
+
+/**
+ * Get the first image in the email that looks like content rather than a logo or tracking pixel
+ */
+export function extractHeroImage(html: string): string | undefined {
+  const imgRegex = /<img\b[^>]*>/gi;
+
+  for (const [tag] of html.matchAll(imgRegex)) {
+    const src = getAttribute(tag, 'src');
+    if (!src || !/^https:\/\//i.test(src)) {
+      continue;
+    }
+
+    const width = parseInt(getAttribute(tag, 'width') || '', 10);
+    const height = parseInt(getAttribute(tag, 'height') || '', 10);
+    if ((width && width < MIN_IMAGE_SIZE) || (height && height < MIN_IMAGE_SIZE)) {
+      continue;
+    }
+
+    const haystack = `${src} ${getAttribute(tag, 'alt') || ''}`.toLowerCase();
+    if (NON_HERO_IMAGE_KEYWORDS.some((keyword) => haystack.includes(keyword))) {
+      continue;
+    }
+
+    return decodeEntities(src);
+  }
+
+  return undefined;
+}
+
+/**
+ * Reduce an HTML document to text, keeping block boundaries as line breaks
+ */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<head\b[\s\S]*?<\/head>/gi, '')
+      .replace(/<(style|script|title)\b[\s\S]*?<\/\1>/gi, '')
+      .replace(/<!--[\s\S]*?-->/g, '')
+      // Preheaders are hidden inline and usually padded with filler characters
+      .replace(/<(div|span)\b[^>]*display:\s*none[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|h[1-6]|li|tr|td|table|blockquote|section)>/gi, '\n')
+      .replace(/<[^>]+>/g, ''),
+  );
+}
+
+/**
+ * Decode the HTML entities that commonly appear in newsletter text
+ */
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&([a-z]+);/gi, (entity, name) => NAMED_ENTITIES[name.toLowerCase()] ?? entity)
+    .replace(/[\u200b-\u200d\u2060\ufeff\u00ad]/g, '');
+}
+
+/**
+ * Read an attribute value from a single HTML tag
+ */
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(tag);
+  return match ? (match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+/**
+ * Shorten text to a maximum length, cutting at a word boundary
+ */
+export function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  const cut = text.substring(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+
+  return `${(lastSpace > maxLength / 2 ? cut.substring(0, lastSpace) : cut).trimEnd()}…`;
+}
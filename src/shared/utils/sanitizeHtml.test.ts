@@ -0,0 +1,46 @@
+import { sanitizeNewsletterHtml, textToHtml } from './sanitizeHtml';
+
+describe('sanitizeNewsletterHtml', () => {
+  it('strips query strings and fragments from links', () => {
+    const html = sanitizeNewsletterHtml(
+      '<a href="https://example.com/p/big-news?token=abc123&amp;email=me%40example.com#top">Read</a>',
+    );
+
+    expect(html).toContain('href="https://example.com/p/big-news"');
+    expect(html).not.toContain('token');
+    expect(html).not.toContain('email=');
+  });
+
+  it('removes unsubscribe, login and referral links', () => {
+    const html = sanitizeNewsletterHtml(
+      [
+        '<a href="https://example.com/unsubscribe">Leave</a>',
+        '<a href="https://example.com/account">Log in</a>',
+        '<a href="https://example.com/r">Share your referral link</a>',
+        '<a href="https://example.com/post">Keep me</a>',
+      ].join(' '),
+    );
+
+    expect(html).not.toContain('Leave');
+    expect(html).not.toContain('Log in');
+    expect(html).not.toContain('referral');
+    expect(html).toContain('Keep me');
+  });
+
+  it('keeps the text of links whose path holds a token', () => {
+    const html = sanitizeNewsletterHtml(
+      '<a href="https://example.com/c/a1B2c3D4e5F6g7H8i9J0k1L2m3N4">Open the app</a>',
+    );
+
+    expect(html).toBe('<span>Open the app</span>');
+  });
+
+  it('strips tokens from URLs written out in text', () => {
+    expect(sanitizeNewsletterHtml('<p>Visit https://example.com/welcome?uid=42 now</p>')).toBe(
+      '<p>Visit https://example.com/welcome now</p>',
+    );
+    expect(textToHtml('Visit https://example.com/welcome?uid=42 now')).toBe(
+      '<p>Visit https://example.com/welcome now</p>',
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import sanitize from 'sanitize-html';
+
+// Links that act on the bot's own subscription must not be exposed on a public page
+const PRIVATE_LINK_PATTERN =
+  /unsubscribe|manage\s*(?:your\s*)?(?:preferences|subscription)|opt[-\s]?out|log\s*in|sign\s*in|magic[-\s]?link|my\s*account|referr?al|refer\s+(?:a\s+)?friends?/i;
+
+// A path segment that looks like a per-recipient token rather than a readable slug
+const TOKEN_SEGMENT_PATTERN = /^(?=.*\d)(?=.*[A-Za-z])[A-Za-z0-9_=.]{24,}$/;
+
+const URL_IN_TEXT_PATTERN = /\bhttps?:\/\/[^\s<>"']+/gi;
+
+/**
+ * The public form of a link from the email: query string and fragment removed, since that is
+ * where senders put subscriber IDs and login tokens
+ * @returns null if the link can't be made public, e.g. its path holds a token
+ */
+function toPublicUrl(href: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    return null;
+  }
+
+  if (url.protocol === 'mailto:') {
+    return `mailto:${url.pathname}`;
+  }
+
+  if (url.pathname.split('/').some((segment) => TOKEN_SEGMENT_PATTERN.test(segment))) {
+    return null;
+  }
+
+  url.search = '';
+  url.hash = '';
+  return url.toString();
+}
+
+/**
+ * Clean newsletter HTML so it can be stored and served on the archive page.
+ * Scripts, forms, event handlers, tracking pixels and unsubscribe, login and referral links
+ * are removed, and other links lose their query strings so per-subscriber tokens aren't
+ * published; tables, images and inline styles are kept so the layout survives.
+ */
+export function sanitizeNewsletterHtml(html: string): string {
+  return sanitize(html, {
+    allowedTags: sanitize.defaults.allowedTags.concat([
+      'img',
+      'center',
+      'font',
+      'span',
+      'table',
+      'thead',
+      'tbody',
+      'tfoot',
+      'tr',
+      'th',
+      'td',
+    ]),
+    allowedAttributes: {
+      '*': ['style', 'align', 'valign', 'width', 'height', 'bgcolor', 'color', 'dir'],
+      a: ['href', 'title', 'name', 'target', 'rel'],
+      img: ['src', 'alt', 'title', 'width', 'height', 'border'],
+      table: ['border', 'cellpadding', 'cellspacing', 'role'],
+      td: ['colspan', 'rowspan'],
+      th: ['colspan', 'rowspan'],
+    },
+    allowedSchemes: ['http', 'https', 'mailto'],
+    allowedSchemesByTag: { img: ['https', 'data'] },
+    transformTags: {
+      a: (tagName, attribs) => {
+        const href = attribs.href ? toPublicUrl(attribs.href) : null;
+        if (!href) {
+          // Keep the link text without the link
+          return { tagName: 'span', attribs: {} };
+        }
+
+        return {
+          tagName: 'a',
+          attribs: { ...attribs, href, target: '_blank', rel: 'noopener noreferrer nofollow' },
+        };
+      },
+    },
+    textFilter: (text) => stripUrlTokens(text),
+    exclusiveFilter: (frame) => {
+      if (frame.tag === 'img') {
+        const { width, height } = frame.attribs;
+        return width === '1' || height === '1' || width === '0' || height === '0';
+      }
+
+      if (frame.tag === 'a') {
+        return (
+          PRIVATE_LINK_PATTERN.test(frame.attribs.href || '') ||
+          PRIVATE_LINK_PATTERN.test(frame.text)
+        );
+      }
+
+      return false;
+    },
+  });
+}
+
+/**
+ * Wrap a plain-text email body as HTML paragraphs for the archive page
+ */
+export function textToHtml(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.trim())
+    .filter((paragraph) => paragraph.length > 0)
+    .filter((paragraph) => !PRIVATE_LINK_PATTERN.test(paragraph))
+    .map(
+      (paragraph) =>
+        `<p>${stripUrlTokens(sanitize(paragraph, { allowedTags: [] })).replace(/\n/g, '<br>')}</p>`,
+    )
+    .join('\n');
+}
+
+/**
+ * Make the URLs written out in text public, like the links around them
+ */
+function stripUrlTokens(text: string): string {
+  return text.replace(URL_IN_TEXT_PATTERN, (url) => toPublicUrl(url) ?? '[link removed]');
+}